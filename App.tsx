@@ -11,16 +11,39 @@ import {
     GeminiAgentConfig,
     OpenAIAgentConfig,
     OpenRouterAgentConfig,
+    ArbiterMode,
     ArbiterModel,
+    AttributionSources,
+    Controversy,
     OpenAIVerbosity,
     SessionData,
     SavedAgentConfig,
     SESSION_DATA_VERSION,
     RunRecord,
+    ArbiterRevision,
+    ArbiterSettingsSnapshot,
     GeminiThinkingEffort,
     RunStatus,
     OpenAIReasoningEffort,
     SavedAgentConfigSchema,
+    RouterSettings,
+    RouterSettingsSchema,
+    RouterMode,
+    DebateSettings,
+    DebateSettingsSchema,
+    OrchestrationStrategy,
+    ArbiterTemplate,
+    ArbiterTemplateSchema,
+    VerifierPass,
+    VerifierSettings,
+    VerifierSettingsSchema,
+    StructuredOutputSettings,
+    StructuredOutputSettingsSchema,
+    EmbeddingProvider,
+    AgentStatus,
+    CustomEndpointSettings,
+    CustomEndpointSettingsSchema,
+    ApiProvider,
 } from '@/types';
 import {
     GEMINI_PRO_MODEL,
@@ -30,12 +53,22 @@ import {
     OPENAI_AGENT_MODEL,
     OPENROUTER_GPT_4O,
     OPENROUTER_CLAUDE_3_HAIKU,
+    ANTHROPIC_SONNET_MODEL,
+    ANTHROPIC_HAIKU_MODEL,
 } from '@/constants';
 
 // MoE utilities
 import { experts } from '@/moe/experts';
-import { runOrchestration } from '@/moe/orchestrator';
-import { Draft, ExpertDispatch } from '@/moe/types';
+import { arbiterSupportsVision } from '@/moe/arbiter';
+import { agentStateToDraft, arbiterSwitchWarningFor, rearbitrateRun, runAgent, runArbitration, runControversyReport, runOrchestration, runVerification } from '@/moe/orchestrator';
+import { createRouter, DEFAULT_ROUTER_SETTINGS } from '@/moe/router';
+import { DEFAULT_DEBATE_SETTINGS, MAX_DEBATE_ROUNDS } from '@/moe/debate';
+import { ARBITER_TEMPLATE_PRESETS, DEFAULT_ARBITER_TEMPLATE } from '@/moe/arbiterTemplates';
+import { bestPass, DEFAULT_VERIFIER_SETTINGS, MAX_VERIFIER_ITERATIONS, writesNewAnswer } from '@/moe/verifier';
+import { CUSTOM_SCHEMA_PRESET_ID, DEFAULT_STRUCTURED_OUTPUT_SETTINGS, resolveStructuredOutput, STRUCTURED_OUTPUT_PRESETS, StructuredOutput } from '@/moe/structuredOutput';
+import { configureScheduler, DEFAULT_SCHEDULER_CONFIG, SchedulerConfig, SchedulerConfigSchema } from '@/services/scheduler';
+import { discoverCustomModels } from '@/services/providers';
+import { Draft, ExpertDispatch, RouterDecision } from '@/moe/types';
 
 // Components
 import { CogIcon, DownloadIcon, ExclamationTriangleIcon, XMarkIcon, Bars3Icon } from '@/components/icons';
@@ -46,14 +79,20 @@ import CollapsibleSection from '@/components/CollapsibleSection';
 import AgentEnsemble, { AgentEnsembleHandles } from '@/components/AgentEnsemble';
 import PromptInput from '@/components/PromptInput';
 import FinalAnswerCard from '@/components/FinalAnswerCard';
+import ControversiesPanel from '@/components/ControversiesPanel';
+import VerifierPanel from '@/components/VerifierPanel';
 import HistorySidebar from '@/components/HistorySidebar';
 import SegmentedControl from '@/components/SegmentedControl';
+import NumericInput from '@/components/NumericInput';
 
 // Services
 import {
     setOpenAIApiKey as storeOpenAIApiKey,
     setGeminiApiKey as storeGeminiApiKey,
     setOpenRouterApiKey as storeOpenRouterApiKey,
+    setAnthropicApiKey as storeAnthropicApiKey,
+    setCustomEndpoint as storeCustomEndpoint,
+    getCustomEndpoint,
 } from '@/services/llmService';
 
 // Hooks
@@ -69,6 +108,9 @@ import banner from './assets/banner.png';
 const OPENAI_API_KEY_STORAGE_KEY = 'openai_api_key';
 const GEMINI_API_KEY_STORAGE_KEY = 'gemini_api_key';
 const OPENROUTER_API_KEY_STORAGE_KEY = 'openrouter_api_key';
+const ANTHROPIC_API_KEY_STORAGE_KEY = 'anthropic_api_key';
+const CUSTOM_ENDPOINT_STORAGE_KEY = 'custom_endpoint';
+const SCHEDULER_CONFIG_STORAGE_KEY = 'scheduler_config';
 const MAX_HISTORY_LENGTH = 20;
 
 const SessionDataSchema = z.object({
@@ -81,9 +123,21 @@ const SessionDataSchema = z.object({
     geminiArbiterEffort: z
         .enum(['dynamic', 'high', 'medium', 'low', 'none'])
         .optional(),
+    arbiterMode: z.enum(['synthesize', 'vote', 'rerank', 'select-best', 'attributed']).optional(),
+    arbiterTemplates: z.array(ArbiterTemplateSchema).optional(),
+    arbiterTemplateId: z.string().optional(),
+    arbiterFallbackModels: z.array(z.string()).optional(),
+    sendImagesToArbiter: z.boolean().optional(),
+    reportControversies: z.boolean().optional(),
+    routerSettings: RouterSettingsSchema.optional(),
+    debateSettings: DebateSettingsSchema.optional(),
+    verifierSettings: VerifierSettingsSchema.optional(),
+    structuredOutputSettings: StructuredOutputSettingsSchema.optional(),
     openAIApiKey: z.string().optional(),
     geminiApiKey: z.string().optional(),
     openRouterApiKey: z.string().optional(),
+    anthropicApiKey: z.string().optional(),
+    customEndpoint: CustomEndpointSettingsSchema.optional(),
     queryHistory: z.array(z.string()).optional().default([]),
 });
 
@@ -154,6 +208,9 @@ const createDefaultAgentConfigs = (): AgentConfig[] => {
             deepConfEta: 90,
             tau: 0.95,
             groupWindow: 2048,
+            answerExtractor: { kind: 'full-text' },
+            voteMode: 'exact',
+            voteSimilarity: 'lexical',
         }
     } as GeminiAgentConfig);
     configs.push({
@@ -170,6 +227,9 @@ const createDefaultAgentConfigs = (): AgentConfig[] => {
             deepConfEta: 90,
             tau: 0.95,
             groupWindow: 2048,
+            answerExtractor: { kind: 'full-text' },
+            voteMode: 'exact',
+            voteSimilarity: 'lexical',
         }
     } as GeminiAgentConfig);
     
@@ -186,6 +246,15 @@ const createDefaultAgentConfigs = (): AgentConfig[] => {
             frequencyPenalty: 0,
             presencePenalty: 0,
             repetitionPenalty: 1,
+            generationStrategy: 'single',
+            confidenceSource: 'judge',
+            traceCount: 8,
+            deepConfEta: 90,
+            tau: 0.95,
+            groupWindow: 2048,
+            answerExtractor: { kind: 'full-text' },
+            voteMode: 'exact',
+            voteSimilarity: 'lexical',
         }
     } as OpenRouterAgentConfig);
     configs.push({
@@ -203,6 +272,9 @@ const createDefaultAgentConfigs = (): AgentConfig[] => {
             deepConfEta: 90,
             tau: 0.95,
             groupWindow: 2048,
+            answerExtractor: { kind: 'full-text' },
+            voteMode: 'exact',
+            voteSimilarity: 'lexical',
         }
     } as OpenAIAgentConfig);
     
@@ -219,6 +291,105 @@ const mapDraftToAgentState = (draft: Draft): AgentState => ({
     error: draft.error || null,
     model: draft.expert.model,
     provider: draft.expert.provider,
+    vote: draft.vote,
+});
+
+/** Reads an arbiter stream, reporting the accumulated text at most once per animation frame. */
+const streamText = async (stream: ReadableStream<string>, onText: (text: string) => void): Promise<string> => {
+    let fullText = '';
+    let chunkBuffer = '';
+    let frameId: number | null = null;
+
+    const updateDisplay = () => {
+        if (chunkBuffer) {
+            fullText += chunkBuffer;
+            onText(fullText);
+            chunkBuffer = '';
+        }
+        frameId = requestAnimationFrame(updateDisplay);
+    };
+
+    frameId = requestAnimationFrame(updateDisplay);
+
+    const reader = stream.getReader();
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            chunkBuffer += value;
+        }
+    } finally {
+        reader.releaseLock();
+        if (frameId !== null) cancelAnimationFrame(frameId);
+    }
+    if (chunkBuffer) {
+        fullText += chunkBuffer;
+        onText(fullText);
+    }
+    return fullText;
+};
+
+/**
+ * Starts the disagreement report in the background, after the answer is final,
+ * and returns its abort. `onReport` only runs for a completed report; a failure
+ * only loses the report, never the answer.
+ */
+const startControversyReport = (
+    params: Parameters<typeof runControversyReport>[0],
+    onReport: (report: Controversy[]) => void
+): (() => void) => {
+    const { promise, abort } = runControversyReport(params);
+    promise.then(
+        report => { if (report) onReport(report); },
+        e => { if ((e as Error)?.name !== 'AbortError') console.warn('Disagreement report failed:', e); }
+    );
+    return abort;
+};
+
+/**
+ * Runs the verifier loop when it is enabled for the arbiter mode and returns the
+ * answer to keep. A failed revision keeps the best answer the judge checked.
+ * Structured answers are schema-checked instead, so they skip the loop.
+ */
+const verifyFinalAnswer = async (
+    params: Parameters<typeof runVerification>[0],
+    onUpdate: (answer: string, passes: VerifierPass[]) => void,
+    abortRef: React.MutableRefObject<(() => void) | null>
+): Promise<{ answer: string; passes: VerifierPass[] | null }> => {
+    if (!params.verifierSettings.enabled || params.structuredOutput || !writesNewAnswer(params.arbiterMode ?? 'synthesize')) {
+        return { answer: params.finalAnswer, passes: null };
+    }
+    let passes: VerifierPass[] = [];
+    const { promise, abort } = runVerification(params, {
+        onPass: pass => {
+            passes = [...passes, pass];
+            onUpdate(pass.answer, passes);
+        },
+        onRevisionDelta: text => onUpdate(text, passes),
+    });
+    abortRef.current = abort;
+    try {
+        ({ passes } = await promise);
+    } catch (e) {
+        if ((e as Error)?.name === 'AbortError') throw e;
+        console.warn('Answer verification failed:', e);
+    }
+    const answer = bestPass(passes)?.answer ?? params.finalAnswer;
+    onUpdate(answer, passes);
+    return { answer, passes };
+};
+
+const createRevision = (settings: ArbiterSettingsSnapshot): ArbiterRevision => ({
+    id: `${Date.now()}`,
+    timestamp: Date.now(),
+    ...settings,
+    finalAnswer: '',
+    arbiterSwitchWarning: null,
+    attributionSources: null,
+    controversies: null,
+    verification: null,
+    status: 'IN_PROGRESS',
+    error: null,
 });
 
 const App: React.FC = () => {
@@ -231,11 +402,37 @@ const App: React.FC = () => {
     const [openAIArbiterVerbosity, setOpenAIArbiterVerbosity] = useState<OpenAIVerbosity>('medium');
     const [openAIArbiterEffort, setOpenAIArbiterEffort] = useState<OpenAIReasoningEffort>('medium');
     const [geminiArbiterEffort, setGeminiArbiterEffort] = useState<GeminiThinkingEffort>('dynamic');
+    const [arbiterMode, setArbiterMode] = useState<ArbiterMode>('synthesize');
+    const [arbiterTemplates, setArbiterTemplates] = useState<ArbiterTemplate[]>(ARBITER_TEMPLATE_PRESETS);
+    const [arbiterTemplateId, setArbiterTemplateId] = useState<string>(DEFAULT_ARBITER_TEMPLATE.id);
+    const arbiterTemplate = useMemo(
+        () => arbiterTemplates.find(t => t.id === arbiterTemplateId) ?? arbiterTemplates[0] ?? DEFAULT_ARBITER_TEMPLATE,
+        [arbiterTemplates, arbiterTemplateId]
+    );
+    const [arbiterFallbackModels, setArbiterFallbackModels] = useState<ArbiterModel[]>([]);
+    const [sendImagesToArbiter, setSendImagesToArbiter] = useState(true);
+    const [reportControversies, setReportControversies] = useState(false);
+    const [routerSettings, setRouterSettings] = useState<RouterSettings>(DEFAULT_ROUTER_SETTINGS);
+    const [debateSettings, setDebateSettings] = useState<DebateSettings>(DEFAULT_DEBATE_SETTINGS);
+    const [verifierSettings, setVerifierSettings] = useState<VerifierSettings>(DEFAULT_VERIFIER_SETTINGS);
+    const [structuredOutputSettings, setStructuredOutputSettings] = useState<StructuredOutputSettings>(DEFAULT_STRUCTURED_OUTPUT_SETTINGS);
     
     // Results state (for live run)
     const [agents, setAgents] = useState<AgentState[]>([]);
     const [finalAnswer, setFinalAnswer] = useState<string>('');
     const [arbiterSwitchWarning, setArbiterSwitchWarning] = useState<string | null>(null);
+    const [attributionSources, setAttributionSources] = useState<AttributionSources | null>(null);
+    const [controversies, setControversies] = useState<Controversy[] | null>(null);
+    const [verification, setVerification] = useState<VerifierPass[] | null>(null);
+    const [highlightedAgentIds, setHighlightedAgentIds] = useState<string[]>([]);
+    const [routingReason, setRoutingReason] = useState<string | null>(null);
+    const [retryingAgentIds, setRetryingAgentIds] = useState<string[]>([]);
+    // Set once a retried agent changes the drafts the current final answer was built from.
+    const [needsRearbitration, setNeedsRearbitration] = useState(false);
+    // History view: arbiter settings for re-arbitrating the selected run, and which revision is shown.
+    const [historyArbiterSettings, setHistoryArbiterSettings] = useState<ArbiterSettingsSnapshot | null>(null);
+    const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+    const [rearbitration, setRearbitration] = useState<{ runId: string; revisionId: string } | null>(null);
 
     // Control state
     const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -250,6 +447,10 @@ const App: React.FC = () => {
     const [openAIApiKey, setOpenAIApiKey] = useState<string>('');
     const [geminiApiKey, setGeminiApiKey] = useState<string>('');
     const [openRouterApiKey, setOpenRouterApiKey] = useState<string>('');
+    const [anthropicApiKey, setAnthropicApiKey] = useState<string>('');
+    const [customEndpoint, setCustomEndpoint] = useState<CustomEndpointSettings>({ baseUrl: '', apiKey: '' });
+    const [customModels, setCustomModels] = useState<string[]>([]);
+    const [schedulerConfig, setSchedulerConfig] = useState<SchedulerConfig>(DEFAULT_SCHEDULER_CONFIG);
     const [isSettingsViewOpen, setIsSettingsViewOpen] = useState<boolean>(false);
     const [queryHistory, setQueryHistory] = useState<string[]>([]);
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
@@ -271,20 +472,41 @@ const App: React.FC = () => {
     const finalAnswerRef = useRef(finalAnswer);
     const agentsRef = useRef(agents);
     const arbiterSwitchWarningRef = useRef(arbiterSwitchWarning);
+    const attributionSourcesRef = useRef(attributionSources);
+    const controversiesRef = useRef(controversies);
+    const verificationRef = useRef(verification);
+    const routingReasonRef = useRef(routingReason);
     const errorRef = useRef(error);
-    const animationFrameId = useRef<number | null>(null);
     const isRunCompletedRef = useRef(false);
     const orchestratorAbortRef = useRef<(() => void) | null>(null);
-    const currentRunDataRef = useRef<Pick<RunRecord, 'prompt' | 'images' | 'agentConfigs' | 'arbiterModel' | 'openAIArbiterVerbosity' | 'openAIArbiterEffort' | 'geminiArbiterEffort'> | undefined>(undefined);
+    const orchestratorAbortAgentRef = useRef<((agentId: string) => void) | null>(null);
+    const rearbitrationAbortRef = useRef<(() => void) | null>(null);
+    // The live run's disagreement report, which outlives the run's loading state.
+    const controversyAbortRef = useRef<(() => void) | null>(null);
+    const retryAbortersRef = useRef(new Map<string, () => void>());
+    const pendingDeltasRef = useRef(new Map<string, string>());
+    const deltaFrameRef = useRef<number | null>(null);
+    // Inputs and history entry of the most recent live run, used to retry agents and re-arbitrate.
+    const liveRunInputRef = useRef<Pick<RunRecord, 'prompt' | 'images' | 'agentConfigs' | 'structuredOutputSettings'> | null>(null);
+    const liveRunIdRef = useRef<string | null>(null);
+    const currentRunDataRef = useRef<Pick<RunRecord, 'prompt' | 'images' | 'agentConfigs' | 'arbiterModel' | 'openAIArbiterVerbosity' | 'openAIArbiterEffort' | 'geminiArbiterEffort' | 'arbiterMode' | 'arbiterTemplate' | 'arbiterFallbackModels' | 'sendImagesToArbiter' | 'reportControversies' | 'routerSettings' | 'debateSettings' | 'verifierSettings' | 'structuredOutputSettings'> | undefined>(undefined);
 
 
     useEffect(() => { finalAnswerRef.current = finalAnswer; }, [finalAnswer]);
     useEffect(() => { agentsRef.current = agents; }, [agents]);
     useEffect(() => { arbiterSwitchWarningRef.current = arbiterSwitchWarning; }, [arbiterSwitchWarning]);
+    useEffect(() => { attributionSourcesRef.current = attributionSources; }, [attributionSources]);
+    useEffect(() => { controversiesRef.current = controversies; }, [controversies]);
+    useEffect(() => { verificationRef.current = verification; }, [verification]);
+    useEffect(() => { routingReasonRef.current = routingReason; }, [routingReason]);
     useEffect(() => { errorRef.current = error; }, [error]);
 
     useEffect(() => {
-        return () => orchestratorAbortRef.current?.();
+        return () => {
+            orchestratorAbortRef.current?.();
+            rearbitrationAbortRef.current?.();
+            controversyAbortRef.current?.();
+        };
     }, []);
 
     useEffect(() => {
@@ -302,8 +524,13 @@ const App: React.FC = () => {
                     agents: agentsRef.current,
                     status: finalStatus,
                     arbiterSwitchWarning: arbiterSwitchWarningRef.current,
+                    attributionSources: attributionSourcesRef.current,
+                    controversies: controversiesRef.current,
+                    verification: verificationRef.current,
+                    routingReason: routingReasonRef.current,
                 };
                 setHistory(prev => [newRun, ...prev]);
+                liveRunIdRef.current = newRun.id;
                 currentRunDataRef.current = undefined; // Clear after use
             }
         }
@@ -326,6 +553,33 @@ const App: React.FC = () => {
             setOpenRouterApiKey(savedOpenRouterKey);
             storeOpenRouterApiKey(savedOpenRouterKey);
         }
+        const savedAnthropicKey = localStorage.getItem(ANTHROPIC_API_KEY_STORAGE_KEY);
+        if (savedAnthropicKey) {
+            setAnthropicApiKey(savedAnthropicKey);
+            storeAnthropicApiKey(savedAnthropicKey);
+        }
+        const savedCustomEndpoint = localStorage.getItem(CUSTOM_ENDPOINT_STORAGE_KEY);
+        if (savedCustomEndpoint) {
+            try {
+                storeCustomEndpoint(CustomEndpointSettingsSchema.parse(JSON.parse(savedCustomEndpoint)));
+                setCustomEndpoint(getCustomEndpoint());
+                discoverCustomModels()
+                    .then(setCustomModels)
+                    .catch(error => console.warn('Custom endpoint model discovery failed', error));
+            } catch (error) {
+                console.warn('Ignoring invalid saved custom endpoint', error);
+            }
+        }
+        const savedSchedulerConfig = localStorage.getItem(SCHEDULER_CONFIG_STORAGE_KEY);
+        if (savedSchedulerConfig) {
+            try {
+                const parsed = SchedulerConfigSchema.parse(JSON.parse(savedSchedulerConfig));
+                setSchedulerConfig(parsed);
+                configureScheduler(parsed);
+            } catch (error) {
+                console.warn('Ignoring invalid saved rate limits', error);
+            }
+        }
     }, []);
 
     const handleSaveOpenAIApiKey = useCallback((newKey: string) => {
@@ -346,9 +600,91 @@ const App: React.FC = () => {
         localStorage.setItem(OPENROUTER_API_KEY_STORAGE_KEY, newKey);
     }, []);
 
+    const handleSaveAnthropicApiKey = useCallback((newKey: string) => {
+        setAnthropicApiKey(newKey);
+        storeAnthropicApiKey(newKey);
+        localStorage.setItem(ANTHROPIC_API_KEY_STORAGE_KEY, newKey);
+    }, []);
+
+    const handleDiscoverCustomModels = useCallback(async () => {
+        setCustomModels(await discoverCustomModels());
+    }, []);
+
+    const handleSaveCustomEndpoint = useCallback((endpoint: CustomEndpointSettings) => {
+        storeCustomEndpoint(endpoint);
+        const normalized = getCustomEndpoint();
+        setCustomEndpoint(normalized);
+        localStorage.setItem(CUSTOM_ENDPOINT_STORAGE_KEY, JSON.stringify(normalized));
+        if (!normalized.baseUrl) {
+            setCustomModels([]);
+            return;
+        }
+        handleDiscoverCustomModels().catch(error => console.warn('Custom endpoint model discovery failed', error));
+    }, [handleDiscoverCustomModels]);
+
+    const handleSaveSchedulerConfig = useCallback((config: SchedulerConfig) => {
+        setSchedulerConfig(config);
+        configureScheduler(config);
+        localStorage.setItem(SCHEDULER_CONFIG_STORAGE_KEY, JSON.stringify(config));
+    }, []);
+
     const openAIAgentCount = useMemo(() => agentConfigs.filter(c => c.provider === 'openai').length, [agentConfigs]);
     const openRouterAgentCount = useMemo(() => agentConfigs.filter(c => c.provider === 'openrouter').length, [agentConfigs]);
+    // OpenRouter DeepConf traces are scored by the OpenAI judge model.
+    const openRouterJudgeAgentCount = useMemo(() => agentConfigs.filter(c =>
+        c.provider === 'openrouter' && c.settings.generationStrategy !== 'single' && c.settings.confidenceSource === 'judge'
+    ).length, [agentConfigs]);
+    const anthropicAgentCount = useMemo(() => agentConfigs.filter(c => c.provider === 'anthropic').length, [agentConfigs]);
+    const customAgentCount = useMemo(() => agentConfigs.filter(c => c.provider === 'custom').length, [agentConfigs]);
     
+    const applyDraft = useCallback((draft: Draft) => {
+        setAgents(prev => prev.map(a => (a.id === draft.agentId ? { ...mapDraftToAgentState(draft), rounds: a.rounds } : a)));
+        setAgentConfigs(configs => configs.map(c => 
+            c.id === draft.agentId ? {...c, status: draft.status } : c
+        ));
+    }, []);
+
+    // Stream deltas arrive per token; buffer them and apply at most once per frame.
+    const handleDraftDelta = useCallback((agentId: string, text: string) => {
+        const pending = pendingDeltasRef.current;
+        pending.set(agentId, (pending.get(agentId) ?? '') + text);
+        if (deltaFrameRef.current !== null) return;
+        deltaFrameRef.current = requestAnimationFrame(() => {
+            deltaFrameRef.current = null;
+            const deltas = new Map(pending);
+            pending.clear();
+            setAgents(prev => prev.map(a => {
+                const delta = deltas.get(a.id);
+                return delta && a.status === 'RUNNING' ? { ...a, content: a.content + delta } : a;
+            }));
+        });
+    }, []);
+
+    // Only in-flight agents move between QUEUED and RUNNING; finished drafts keep their status.
+    const handleAgentStatusChange = useCallback((agentId: string, status: AgentStatus) => {
+        const isInFlight = (current: AgentStatus) => current === 'RUNNING' || current === 'QUEUED';
+        setAgents(prev => prev.map(a => (a.id === agentId && isInFlight(a.status) ? { ...a, status } : a)));
+        setAgentConfigs(configs => configs.map(c => (c.id === agentId && isInFlight(c.status) ? { ...c, status } : c)));
+    }, []);
+
+    // Archive each debating agent's last draft before its revision streams in.
+    const handleDebateRound = useCallback((_round: number, agentIds: string[]) => {
+        setAgents(prev => prev.map(a => (agentIds.includes(a.id)
+            ? { ...a, rounds: [...(a.rounds ?? []), a.content], content: '', error: null, status: 'RUNNING' }
+            : a)));
+        setAgentConfigs(configs => configs.map(c => (agentIds.includes(c.id) ? { ...c, status: 'RUNNING' } : c)));
+    }, []);
+
+    // The agent keeps its previous draft, so the round archived for the revision is un-archived.
+    const handleDebateRevisionFailed = useCallback((_round: number, agentId: string) => {
+        setAgents(prev => prev.map(a => (a.id === agentId ? { ...a, rounds: a.rounds?.slice(0, -1) } : a)));
+    }, []);
+
+    const abortRetries = useCallback(() => {
+        retryAbortersRef.current.forEach(abort => abort());
+        retryAbortersRef.current.clear();
+    }, []);
+
     const handleRun = useCallback(async () => {
         // Switch to "live" view if we were viewing history
         if (selectedRunId) {
@@ -375,14 +711,49 @@ const App: React.FC = () => {
             return;
         }
 
+        if (openRouterJudgeAgentCount > 0 && !openAIApiKey) {
+            setError("Please set your OpenAI API key in the settings: OpenRouter agents using DeepConf are scored by the OpenAI judge model.");
+            setIsSettingsViewOpen(true);
+            return;
+        }
+
+        if (anthropicAgentCount > 0 && !anthropicApiKey) {
+            setError("Please set your Anthropic API key in the settings to use Anthropic models.");
+            setIsSettingsViewOpen(true);
+            return;
+        }
+
+        if (customAgentCount > 0 && !customEndpoint.baseUrl) {
+            setError("Please set your custom endpoint's base URL in the settings to use custom endpoint models.");
+            setIsSettingsViewOpen(true);
+            return;
+        }
+
+        let structuredOutput: StructuredOutput | null;
+        try {
+            structuredOutput = resolveStructuredOutput(structuredOutputSettings);
+        } catch (e) {
+            setError((e as Error).message);
+            return;
+        }
+
         orchestratorAbortRef.current?.();
         orchestratorAbortRef.current = null;
+        controversyAbortRef.current?.();
+        abortRetries();
         setIsLoading(true);
         setError(null);
         setFinalAnswer('');
         setIsArbiterRunning(false);
         setAgents([]);
         setArbiterSwitchWarning(null);
+        setAttributionSources(null);
+        setControversies(null);
+        setVerification(null);
+        setRoutingReason(null);
+        setNeedsRearbitration(false);
+        liveRunInputRef.current = { prompt: finalPrompt, images, agentConfigs, structuredOutputSettings };
+        liveRunIdRef.current = null;
         
         isRunCompletedRef.current = false;
         currentRunDataRef.current = {
@@ -392,10 +763,23 @@ const App: React.FC = () => {
             arbiterModel,
             openAIArbiterVerbosity,
             openAIArbiterEffort,
-            geminiArbiterEffort
+            geminiArbiterEffort,
+            arbiterMode,
+            arbiterTemplate,
+            arbiterFallbackModels,
+            sendImagesToArbiter,
+            reportControversies,
+            routerSettings,
+            debateSettings,
+            verifierSettings,
+            structuredOutputSettings,
         };
         
         try {
+            const onRouterDecision = (decision: RouterDecision) => {
+                setRoutingReason(routerSettings.mode === 'all' ? null : decision.reason);
+            };
+
             const onInitialAgents = (dispatchedExperts: ExpertDispatch[]) => {
                 const initialAgents = dispatchedExperts.map((expert): AgentState => ({
                     id: expert.agentId,
@@ -408,70 +792,56 @@ const App: React.FC = () => {
                     provider: expert.provider,
                 }));
                 setAgents(initialAgents);
-                setAgentConfigs(configs => configs.map(c => ({...c, status: 'RUNNING' })))
+                const dispatchedIds = new Set(dispatchedExperts.map(expert => expert.agentId));
+                setAgentConfigs(configs => configs.map(c => (dispatchedIds.has(c.id) ? { ...c, status: 'RUNNING' } : c)));
             };
 
-            const onDraftUpdate = (completedDraft: Draft) => {
-                setAgents(prev => {
-                    const agentIndex = prev.findIndex(a => a.id === completedDraft.agentId);
-                    if (agentIndex > -1) {
-                        const updatedAgent = mapDraftToAgentState(completedDraft);
-                        return prev.map((a, i) => (i === agentIndex ? updatedAgent : a));
-                    }
-                    return prev;
-                });
-                setAgentConfigs(configs => configs.map(c => 
-                    c.id === completedDraft.agentId ? {...c, status: completedDraft.status } : c
-                ));
-            };
-
-            const { promise, abort } = runOrchestration({
+            const { promise, abort, abortAgent } = runOrchestration({
                 prompt: finalPrompt,
                 images,
                 agentConfigs,
                 arbiterModel,
                 openAIArbiterVerbosity,
                 openAIArbiterEffort,
-                geminiArbiterEffort
-            }, { onInitialAgents, onDraftComplete: onDraftUpdate });
+                geminiArbiterEffort,
+                arbiterMode,
+                arbiterTemplate,
+                arbiterFallbackModels,
+                sendImagesToArbiter,
+                router: createRouter(routerSettings),
+                debateSettings,
+                structuredOutput,
+            }, {
+                onRouterDecision,
+                onInitialAgents,
+                onDraftComplete: applyDraft,
+                onDraftDelta: handleDraftDelta,
+                onAgentStatusChange: handleAgentStatusChange,
+                onDebateRound: handleDebateRound,
+                onDebateRevisionFailed: handleDebateRevisionFailed,
+            });
             orchestratorAbortRef.current = abort;
+            orchestratorAbortAgentRef.current = abortAgent;
 
-            const { stream, switchedArbiter } = await promise;
-
-            if (switchedArbiter) {
-                setArbiterSwitchWarning('The selected GPT-5 arbiter was automatically switched to Gemini 2.5 Pro due to a large input size to prevent errors. Gemini models support larger context windows.');
-            }
+            const { stream, drafts, attributionSources: sources, ...result } = await promise;
+            setArbiterSwitchWarning(arbiterSwitchWarningFor(result));
+            setAttributionSources(sources);
 
             setIsArbiterRunning(true);
-
-            let fullText = '';
-            let chunkBuffer = '';
-            
-            const updateDisplay = () => {
-                if (chunkBuffer) {
-                    fullText += chunkBuffer;
-                    setFinalAnswer(fullText);
-                    chunkBuffer = '';
-                }
-                animationFrameId.current = requestAnimationFrame(updateDisplay);
-            };
-            
-            animationFrameId.current = requestAnimationFrame(updateDisplay);
-
-            const reader = stream.getReader();
-            try {
-                while (true) {
-                    const { value, done } = await reader.read();
-                    if (done) break;
-                    chunkBuffer += value;
-                }
-            } finally {
-                reader.releaseLock();
-            }
-            if (chunkBuffer) {
-                fullText += chunkBuffer;
-                setFinalAnswer(fullText);
-            }
+            const arbiterSettings = { prompt: finalPrompt, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, arbiterMode, arbiterTemplate, arbiterFallbackModels, reportControversies, structuredOutput };
+            const { answer } = await verifyFinalAnswer(
+                { ...arbiterSettings, finalAnswer: await streamText(stream, setFinalAnswer), verifierSettings },
+                (text, passes) => {
+                    setFinalAnswer(text);
+                    setVerification(passes);
+                },
+                orchestratorAbortRef
+            );
+            controversyAbortRef.current = startControversyReport({ ...arbiterSettings, drafts, finalAnswer: answer }, report => {
+                setControversies(report);
+                const runId = liveRunIdRef.current;
+                if (runId) setHistory(prev => prev.map(run => (run.id === runId ? { ...run, controversies: report } : run)));
+            });
 
         } catch (e) {
             if ((e as Error)?.name === 'AbortError') {
@@ -484,18 +854,187 @@ const App: React.FC = () => {
             setAgents(prev => prev.map(a => ({ ...a, status: 'FAILED', error: errorMessage })))
             setAgentConfigs(configs => configs.map(c => ({ ...c, status: 'FAILED' })));
         } finally {
-            if (animationFrameId.current) {
-                cancelAnimationFrame(animationFrameId.current);
-            }
             orchestratorAbortRef.current = null;
+            orchestratorAbortAgentRef.current = null;
             setIsLoading(false);
             setIsArbiterRunning(false);
             isRunCompletedRef.current = true;
         }
-    }, [prompt, images, isLoading, agentConfigs, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, openAIAgentCount, openAIApiKey, openRouterAgentCount, openRouterApiKey, queryHistory, selectedRunId]);
+    }, [prompt, images, isLoading, agentConfigs, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, arbiterMode, arbiterTemplate, arbiterFallbackModels, sendImagesToArbiter, reportControversies, routerSettings, debateSettings, verifierSettings, structuredOutputSettings, openAIAgentCount, openAIApiKey, openRouterAgentCount, openRouterJudgeAgentCount, openRouterApiKey, anthropicAgentCount, anthropicApiKey, customAgentCount, customEndpoint, queryHistory, selectedRunId, applyDraft, handleDraftDelta, handleAgentStatusChange, handleDebateRound, handleDebateRevisionFailed, abortRetries]);
+
+    const updateLiveRunRecord = useCallback((patch: Partial<RunRecord>) => {
+        const runId = liveRunIdRef.current;
+        if (!runId) return;
+        setHistory(prev => prev.map(run => (run.id === runId ? { ...run, ...patch } : run)));
+    }, []);
+
+    const addRevision = useCallback((runId: string, revision: ArbiterRevision) => {
+        setHistory(prev => prev.map(run => (
+            run.id === runId ? { ...run, revisions: [...(run.revisions ?? []), revision] } : run
+        )));
+    }, []);
+
+    const updateRevision = useCallback((runId: string, revisionId: string, patch: Partial<ArbiterRevision>) => {
+        setHistory(prev => prev.map(run => (
+            run.id === runId
+                ? { ...run, revisions: run.revisions?.map(r => (r.id === revisionId ? { ...r, ...patch } : r)) }
+                : run
+        )));
+    }, []);
+
+    const handleCancelAgent = useCallback((agentId: string) => {
+        const abortRetry = retryAbortersRef.current.get(agentId);
+        if (abortRetry) {
+            abortRetry();
+        } else {
+            orchestratorAbortAgentRef.current?.(agentId);
+        }
+    }, []);
+
+    const handleRetryAgent = useCallback(async (agentId: string) => {
+        const input = liveRunInputRef.current;
+        const agentConfig = input?.agentConfigs.find(c => c.id === agentId);
+        if (!input || !agentConfig || isLoading || retryAbortersRef.current.has(agentId)) return;
+
+        const { promise, abort } = runAgent(
+            { prompt: input.prompt, images: input.images, agentConfig, structuredOutput: resolveStructuredOutput(input.structuredOutputSettings) },
+            { onDraftDelta: handleDraftDelta, onAgentStatusChange: handleAgentStatusChange }
+        );
+        retryAbortersRef.current.set(agentId, abort);
+        setRetryingAgentIds(prev => [...prev, agentId]);
+        setAgents(prev => prev.map(a => (a.id === agentId ? { ...a, status: 'RUNNING', content: '', error: null } : a)));
+        setAgentConfigs(configs => configs.map(c => (c.id === agentId ? { ...c, status: 'RUNNING' } : c)));
+
+        try {
+            const draft = await promise;
+            // A new run or a reset cancels the retry; its draft belongs to the old run.
+            if (liveRunInputRef.current !== input) return;
+            applyDraft(draft);
+            setNeedsRearbitration(true);
+            updateLiveRunRecord({
+                agents: agentsRef.current.map(a => (a.id === agentId ? mapDraftToAgentState(draft) : a)),
+            });
+        } finally {
+            if (retryAbortersRef.current.get(agentId) === abort) {
+                retryAbortersRef.current.delete(agentId);
+            }
+            setRetryingAgentIds(prev => prev.filter(id => id !== agentId));
+        }
+    }, [isLoading, applyDraft, handleDraftDelta, handleAgentStatusChange, updateLiveRunRecord]);
+
+    const handleRearbitrate = useCallback(async () => {
+        const input = liveRunInputRef.current;
+        if (!input || isLoading) return;
+
+        const drafts = agentsRef.current.map(agent => agentStateToDraft(agent, input.agentConfigs));
+        controversyAbortRef.current?.();
+        setIsLoading(true);
+        setError(null);
+        setFinalAnswer('');
+        setArbiterSwitchWarning(null);
+        setAttributionSources(null);
+        setControversies(null);
+        setVerification(null);
+
+        const settings: ArbiterSettingsSnapshot = { arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, arbiterMode, arbiterTemplate, arbiterFallbackModels, sendImagesToArbiter, reportControversies };
+        const structuredOutput = resolveStructuredOutput(input.structuredOutputSettings);
+        try {
+            const { promise, abort } = runArbitration({ prompt: input.prompt, drafts, images: input.images, ...settings, structuredOutput });
+            orchestratorAbortRef.current = abort;
+
+            const { stream, attributionSources: sources, ...result } = await promise;
+            const switchWarning = arbiterSwitchWarningFor(result);
+            setArbiterSwitchWarning(switchWarning);
+            setAttributionSources(sources);
+
+            setIsArbiterRunning(true);
+            const { answer, passes } = await verifyFinalAnswer(
+                { prompt: input.prompt, ...settings, structuredOutput, finalAnswer: await streamText(stream, setFinalAnswer), verifierSettings },
+                (text, checks) => {
+                    setFinalAnswer(text);
+                    setVerification(checks);
+                },
+                orchestratorAbortRef
+            );
+            setNeedsRearbitration(false);
+            // The live run's history entry keeps its original answer; this one becomes a revision.
+            const runId = liveRunIdRef.current;
+            const revision = createRevision(settings);
+            if (runId) {
+                addRevision(runId, {
+                    ...revision,
+                    finalAnswer: answer,
+                    arbiterSwitchWarning: switchWarning,
+                    attributionSources: sources,
+                    verification: passes,
+                    status: 'COMPLETED',
+                });
+            }
+            controversyAbortRef.current = startControversyReport({ prompt: input.prompt, drafts, finalAnswer: answer, ...settings }, report => {
+                setControversies(report);
+                if (runId) updateRevision(runId, revision.id, { controversies: report });
+            });
+        } catch (e) {
+            if ((e as Error)?.name === 'AbortError') return;
+            console.error(e);
+            setError(e instanceof Error ? e.message : 'An unexpected error occurred.');
+        } finally {
+            orchestratorAbortRef.current = null;
+            setIsLoading(false);
+            setIsArbiterRunning(false);
+        }
+    }, [isLoading, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, arbiterMode, arbiterTemplate, arbiterFallbackModels, sendImagesToArbiter, reportControversies, verifierSettings, addRevision, updateRevision]);
+
+    const handleRearbitrateRun = useCallback(async () => {
+        const run = history.find(r => r.id === selectedRunId);
+        if (!run || !historyArbiterSettings || rearbitration) return;
+
+        const revision = createRevision(historyArbiterSettings);
+        addRevision(run.id, revision);
+        setSelectedRevisionId(revision.id);
+        setRearbitration({ runId: run.id, revisionId: revision.id });
+
+        const { promise, abort } = rearbitrateRun(run, historyArbiterSettings);
+        rearbitrationAbortRef.current = abort;
+        try {
+            const { stream, attributionSources: sources, ...result } = await promise;
+            updateRevision(run.id, revision.id, { arbiterSwitchWarning: arbiterSwitchWarningFor(result), attributionSources: sources });
+            const { answer } = await verifyFinalAnswer(
+                {
+                    prompt: run.prompt,
+                    ...historyArbiterSettings,
+                    finalAnswer: await streamText(stream, text => updateRevision(run.id, revision.id, { finalAnswer: text })),
+                    verifierSettings: run.verifierSettings,
+                    structuredOutput: resolveStructuredOutput(run.structuredOutputSettings),
+                },
+                (text, passes) => updateRevision(run.id, revision.id, { finalAnswer: text, verification: passes }),
+                rearbitrationAbortRef
+            );
+            updateRevision(run.id, revision.id, { status: 'COMPLETED' });
+            startControversyReport({
+                prompt: run.prompt,
+                drafts: run.agents.map(agent => agentStateToDraft(agent, run.agentConfigs)),
+                finalAnswer: answer,
+                ...historyArbiterSettings,
+            }, report => updateRevision(run.id, revision.id, { controversies: report }));
+        } catch (e) {
+            const isAbort = (e as Error)?.name === 'AbortError';
+            if (!isAbort) console.error(e);
+            const message = isAbort ? 'Re-arbitration was cancelled.' : e instanceof Error ? e.message : 'An unexpected error occurred.';
+            updateRevision(run.id, revision.id, { status: 'FAILED', error: message });
+        } finally {
+            rearbitrationAbortRef.current = null;
+            setRearbitration(null);
+        }
+    }, [history, selectedRunId, historyArbiterSettings, rearbitration, addRevision, updateRevision]);
     
     const handleReset = useCallback(() => {
         orchestratorAbortRef.current?.();
+        controversyAbortRef.current?.();
+        abortRetries();
+        liveRunInputRef.current = null;
+        liveRunIdRef.current = null;
+        setNeedsRearbitration(false);
         setPrompt('');
         setImages([]);
         setAgentConfigs(createDefaultAgentConfigs());
@@ -503,13 +1042,26 @@ const App: React.FC = () => {
         setOpenAIArbiterVerbosity('medium');
         setOpenAIArbiterEffort('medium');
         setGeminiArbiterEffort('dynamic');
+        setArbiterMode('synthesize');
+        setArbiterTemplateId(DEFAULT_ARBITER_TEMPLATE.id);
+        setArbiterFallbackModels([]);
+        setSendImagesToArbiter(true);
+        setReportControversies(false);
+        setRouterSettings(DEFAULT_ROUTER_SETTINGS);
+        setDebateSettings(DEFAULT_DEBATE_SETTINGS);
+        setVerifierSettings(DEFAULT_VERIFIER_SETTINGS);
+        setStructuredOutputSettings(DEFAULT_STRUCTURED_OUTPUT_SETTINGS);
         setAgents([]);
         setFinalAnswer('');
         setIsLoading(false);
         setError(null);
         setIsArbiterRunning(false);
         setArbiterSwitchWarning(null);
-    }, []);
+        setAttributionSources(null);
+        setControversies(null);
+        setVerification(null);
+        setRoutingReason(null);
+    }, [abortRetries]);
 
     const handleNewRun = useCallback(() => {
         setSelectedRunId(null);
@@ -523,7 +1075,20 @@ const App: React.FC = () => {
     const handleSelectRun = useCallback((id: string) => {
         const run = history.find(r => r.id === id);
         if (run) {
+            const latestRevision = run.revisions?.[run.revisions.length - 1];
             setSelectedRunId(id);
+            setSelectedRevisionId(latestRevision?.id ?? null);
+            setHistoryArbiterSettings({
+                arbiterModel: run.arbiterModel,
+                openAIArbiterVerbosity: run.openAIArbiterVerbosity,
+                openAIArbiterEffort: run.openAIArbiterEffort,
+                geminiArbiterEffort: run.geminiArbiterEffort,
+                arbiterMode: run.arbiterMode,
+                arbiterTemplate: run.arbiterTemplate,
+                arbiterFallbackModels: run.arbiterFallbackModels,
+                sendImagesToArbiter: run.sendImagesToArbiter ?? true,
+                reportControversies: run.reportControversies ?? false,
+            });
         }
     }, [history]);
 
@@ -618,8 +1183,9 @@ const App: React.FC = () => {
         const AGENT_PHASE_WEIGHT = 0.5;
         const ARBITER_PHASE_WEIGHT = 0.5;
         
-        const completedCount = agentConfigs.filter(a => a.status === 'COMPLETED' || a.status === 'FAILED').length;
-        const agentPhaseProgress = agentConfigs.length > 0 ? (completedCount / agentConfigs.length) : 0;
+        // Only routed agents are tracked in `agents`, so measure progress against them.
+        const completedCount = agents.filter(a => a.status === 'COMPLETED' || a.status === 'FAILED').length;
+        const agentPhaseProgress = agents.length > 0 ? (completedCount / agents.length) : 0;
         
         let arbiterPhaseProgress = isArbiterRunning ? 0.5 : 0;
         if (!isLoading && finalAnswer) {
@@ -630,7 +1196,7 @@ const App: React.FC = () => {
         const phase = isArbiterRunning ? 'arbitrating' : 'drafting';
 
         return { total: Math.min(total, 100), agentPercent: agentPhaseProgress * 100, phase };
-    }, [agentConfigs, isLoading, isArbiterRunning, finalAnswer]);
+    }, [agents, isLoading, isArbiterRunning, finalAnswer]);
 
     const generateBaseFilename = (promptStr: string): string => {
         const sanitized = promptStr
@@ -647,17 +1213,32 @@ const App: React.FC = () => {
     // Determine what data to display: live state or historical run
     const displayData = useMemo(() => {
         if (selectedRun) {
+            const revision = selectedRun.revisions?.find(r => r.id === selectedRevisionId);
+            const arbiterSettings = historyArbiterSettings ?? selectedRun;
             return {
                 prompt: selectedRun.prompt,
                 images: selectedRun.images,
                 agentConfigs: selectedRun.agentConfigs,
-                arbiterModel: selectedRun.arbiterModel,
-                openAIArbiterVerbosity: selectedRun.openAIArbiterVerbosity,
-                openAIArbiterEffort: selectedRun.openAIArbiterEffort,
-                geminiArbiterEffort: selectedRun.geminiArbiterEffort,
-                finalAnswer: selectedRun.finalAnswer,
+                arbiterModel: arbiterSettings.arbiterModel,
+                openAIArbiterVerbosity: arbiterSettings.openAIArbiterVerbosity,
+                openAIArbiterEffort: arbiterSettings.openAIArbiterEffort,
+                geminiArbiterEffort: arbiterSettings.geminiArbiterEffort,
+                arbiterMode: arbiterSettings.arbiterMode,
+                arbiterTemplate: arbiterSettings.arbiterTemplate,
+                arbiterFallbackModels: arbiterSettings.arbiterFallbackModels,
+                sendImagesToArbiter: arbiterSettings.sendImagesToArbiter ?? true,
+                reportControversies: arbiterSettings.reportControversies ?? false,
+                routerSettings: selectedRun.routerSettings,
+                debateSettings: selectedRun.debateSettings,
+                verifierSettings: selectedRun.verifierSettings,
+                structuredOutputSettings: selectedRun.structuredOutputSettings,
+                finalAnswer: revision ? revision.finalAnswer : selectedRun.finalAnswer,
                 agents: selectedRun.agents,
-                arbiterSwitchWarning: selectedRun.arbiterSwitchWarning,
+                arbiterSwitchWarning: revision ? revision.arbiterSwitchWarning : selectedRun.arbiterSwitchWarning,
+                attributionSources: (revision ? revision.attributionSources : selectedRun.attributionSources) ?? null,
+                controversies: (revision ? revision.controversies : selectedRun.controversies) ?? null,
+                verification: (revision ? revision.verification : selectedRun.verification) ?? null,
+                routingReason: selectedRun.routingReason,
                 isHistoryView: true,
             };
         }
@@ -669,12 +1250,36 @@ const App: React.FC = () => {
             openAIArbiterVerbosity,
             openAIArbiterEffort,
             geminiArbiterEffort,
+            arbiterMode,
+            arbiterTemplate,
+            arbiterFallbackModels,
+            sendImagesToArbiter,
+            reportControversies,
+            routerSettings,
+            debateSettings,
+            verifierSettings,
+            structuredOutputSettings,
             finalAnswer,
             agents,
             arbiterSwitchWarning,
+            attributionSources,
+            controversies,
+            verification,
+            routingReason,
             isHistoryView: false,
         };
-    }, [selectedRun, prompt, images, agentConfigs, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, finalAnswer, agents, arbiterSwitchWarning]);
+    }, [selectedRun, selectedRevisionId, historyArbiterSettings, prompt, images, agentConfigs, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, arbiterMode, arbiterTemplate, arbiterFallbackModels, sendImagesToArbiter, reportControversies, routerSettings, debateSettings, verifierSettings, structuredOutputSettings, finalAnswer, agents, arbiterSwitchWarning, attributionSources, controversies, verification, routingReason]);
+
+    const selectedRevision = selectedRun?.revisions?.find(r => r.id === selectedRevisionId);
+    const agentDisplayIds = useMemo(
+        () => Object.fromEntries(displayData.agents.map((agent, index) => [agent.id, index + 1])),
+        [displayData.agents]
+    );
+    const isRearbitratingSelectedRun = !!rearbitration && rearbitration.runId === selectedRun?.id;
+
+    // In history view the arbiter settings edit the re-arbitration settings instead of the live ones.
+    const updateHistoryArbiterSettings = (patch: Partial<ArbiterSettingsSnapshot>) =>
+        setHistoryArbiterSettings(prev => (prev ? { ...prev, ...patch } : prev));
 
 
     useEffect(() => {
@@ -737,9 +1342,21 @@ const App: React.FC = () => {
                 openAIArbiterVerbosity,
                 openAIArbiterEffort,
                 geminiArbiterEffort,
+                arbiterMode,
+                arbiterTemplates,
+                arbiterTemplateId,
+                arbiterFallbackModels,
+                sendImagesToArbiter,
+                reportControversies,
+                routerSettings,
+                debateSettings,
+                verifierSettings,
+                structuredOutputSettings,
                 openAIApiKey,
                 geminiApiKey,
                 openRouterApiKey,
+                anthropicApiKey,
+                customEndpoint,
                 queryHistory,
             };
 
@@ -760,7 +1377,7 @@ const App: React.FC = () => {
             console.error("Failed to save session:", e);
             setToast({ message: "An error occurred while trying to save the session.", type: 'error' });
         }
-    }, [prompt, agentConfigs, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, openAIApiKey, geminiApiKey, openRouterApiKey, queryHistory]);
+    }, [prompt, agentConfigs, arbiterModel, openAIArbiterVerbosity, openAIArbiterEffort, geminiArbiterEffort, arbiterMode, arbiterTemplates, arbiterTemplateId, arbiterFallbackModels, sendImagesToArbiter, reportControversies, routerSettings, debateSettings, verifierSettings, structuredOutputSettings, openAIApiKey, geminiApiKey, openRouterApiKey, anthropicApiKey, customEndpoint, queryHistory]);
     
     const handleLoadSession = useCallback(
         (file: File) => {
@@ -815,9 +1432,21 @@ const App: React.FC = () => {
                     setOpenAIArbiterVerbosity(data.openAIArbiterVerbosity ?? 'medium');
                     setOpenAIArbiterEffort(data.openAIArbiterEffort ?? 'medium');
                     setGeminiArbiterEffort(data.geminiArbiterEffort ?? 'dynamic');
+                    setArbiterMode(data.arbiterMode ?? 'synthesize');
+                    setArbiterTemplates(data.arbiterTemplates?.length ? data.arbiterTemplates : ARBITER_TEMPLATE_PRESETS);
+                    setArbiterTemplateId(data.arbiterTemplateId ?? DEFAULT_ARBITER_TEMPLATE.id);
+                    setArbiterFallbackModels(data.arbiterFallbackModels ?? []);
+                    setSendImagesToArbiter(data.sendImagesToArbiter ?? true);
+                    setReportControversies(data.reportControversies ?? false);
+                    setRouterSettings({ ...DEFAULT_ROUTER_SETTINGS, ...data.routerSettings });
+                    setDebateSettings(data.debateSettings ?? DEFAULT_DEBATE_SETTINGS);
+                    setVerifierSettings(data.verifierSettings ?? DEFAULT_VERIFIER_SETTINGS);
+                    setStructuredOutputSettings(data.structuredOutputSettings ?? DEFAULT_STRUCTURED_OUTPUT_SETTINGS);
                     handleSaveOpenAIApiKey(data.openAIApiKey ?? '');
                     handleSaveGeminiApiKey(data.geminiApiKey ?? '');
                     handleSaveOpenRouterApiKey(data.openRouterApiKey ?? '');
+                    handleSaveAnthropicApiKey(data.anthropicApiKey ?? '');
+                    handleSaveCustomEndpoint(data.customEndpoint ?? { baseUrl: '', apiKey: '' });
                     setQueryHistory(data.queryHistory ?? []);
 
                     setIsSettingsViewOpen(false);
@@ -838,7 +1467,7 @@ const App: React.FC = () => {
 
             reader.readAsText(file);
         },
-        [handleSaveOpenAIApiKey, handleSaveGeminiApiKey, handleSaveOpenRouterApiKey, handleNewRun],
+        [handleSaveOpenAIApiKey, handleSaveGeminiApiKey, handleSaveOpenRouterApiKey, handleSaveAnthropicApiKey, handleSaveCustomEndpoint, handleNewRun],
     );
 
     const handleSelectQuery = useCallback((query: string) => {
@@ -878,6 +1507,16 @@ const App: React.FC = () => {
                     currentGeminiApiKey={geminiApiKey}
                     onSaveOpenRouterApiKey={handleSaveOpenRouterApiKey}
                     currentOpenRouterApiKey={openRouterApiKey}
+                    onSaveAnthropicApiKey={handleSaveAnthropicApiKey}
+                    currentAnthropicApiKey={anthropicApiKey}
+                    currentCustomEndpoint={customEndpoint}
+                    onSaveCustomEndpoint={handleSaveCustomEndpoint}
+                    customModels={customModels}
+                    onDiscoverCustomModels={handleDiscoverCustomModels}
+                    schedulerConfig={schedulerConfig}
+                    onSaveSchedulerConfig={handleSaveSchedulerConfig}
+                    arbiterTemplates={arbiterTemplates}
+                    onSaveArbiterTemplates={setArbiterTemplates}
                     onSaveSession={handleSaveSession}
                     onLoadSession={handleLoadSession}
                     queryHistory={queryHistory}
@@ -930,7 +1569,7 @@ const App: React.FC = () => {
                         <main className="max-w-4xl mx-auto space-y-8 pb-40">
                             {error && !displayData.isHistoryView && <div className="p-3 bg-danger/20 text-danger border border-danger rounded-lg text-sm text-center">{error}</div>}
 
-                            {(openAIAgentCount > 0 && !openAIApiKey) || (openRouterAgentCount > 0 && !openRouterApiKey) && (
+                            {(((openAIAgentCount > 0 || openRouterJudgeAgentCount > 0) && !openAIApiKey) || (openRouterAgentCount > 0 && !openRouterApiKey) || (anthropicAgentCount > 0 && !anthropicApiKey)) && (
                                 <p className="text-xs text-warn text-center p-2 bg-warn/20 rounded-md border border-warn">
                                     An API key is required for one or more of your agents.
                                     <button onClick={() => setIsSettingsViewOpen(true)} className="ml-1 underline font-semibold hover:text-warn focus:outline-none focus:ring-2 focus:ring-warn rounded">
@@ -962,14 +1601,84 @@ const App: React.FC = () => {
                                         </motion.div>
                                     )}
                                     
-                                    {(displayData.finalAnswer || (isRunning && !displayData.isHistoryView)) && (
+                                    {displayData.routingReason && (
+                                        <motion.p
+                                            className="text-xs text-[var(--text-muted)] bg-[var(--surface-2)] border border-[var(--line)] rounded-lg px-4 py-2"
+                                            variants={itemVariants}
+                                        >
+                                            <strong className="font-semibold text-[var(--text)]">Routing:</strong> {displayData.routingReason}
+                                        </motion.p>
+                                    )}
+
+                                    {selectedRun?.revisions && selectedRun.revisions.length > 0 && (
+                                        <motion.div variants={itemVariants}>
+                                            <SegmentedControl
+                                                aria-label="Answer revision"
+                                                options={[
+                                                    { label: 'Original', value: '', tooltip: selectedRun.arbiterModel },
+                                                    ...selectedRun.revisions.map((revision, index) => ({
+                                                        label: `Revision ${index + 1}`,
+                                                        value: revision.id,
+                                                        tooltip: revision.arbiterModel,
+                                                    })),
+                                                ]}
+                                                value={selectedRevisionId ?? ''}
+                                                onChange={(id) => setSelectedRevisionId(id || null)}
+                                            />
+                                        </motion.div>
+                                    )}
+
+                                    {selectedRevision?.error && (
+                                        <motion.div
+                                            className="p-3 bg-danger/20 text-danger border border-danger rounded-lg text-sm text-center"
+                                            variants={itemVariants}
+                                        >
+                                            {selectedRevision.error}
+                                        </motion.div>
+                                    )}
+
+                                    {(displayData.finalAnswer || (isRunning && !displayData.isHistoryView) || (isRearbitratingSelectedRun && selectedRevision)) && (
                                         <motion.section variants={itemVariants}>
                                             <FinalAnswerCard
                                                 answer={displayData.finalAnswer}
-                                                isStreaming={isArbiterRunning && !displayData.isHistoryView}
+                                                attributionSources={displayData.attributionSources}
+                                                structured={displayData.structuredOutputSettings.enabled}
+                                                agentDisplayIds={agentDisplayIds}
+                                                onHighlightAgents={setHighlightedAgentIds}
+                                                isStreaming={displayData.isHistoryView
+                                                    ? isRearbitratingSelectedRun && rearbitration?.revisionId === selectedRevisionId
+                                                    : isArbiterRunning}
                                             />
                                         </motion.section>
                                     )}
+
+                                    {displayData.verification && displayData.verification.length > 0 && (
+                                        <motion.section variants={itemVariants}>
+                                            <VerifierPanel passes={displayData.verification} threshold={displayData.verifierSettings.threshold} />
+                                        </motion.section>
+                                    )}
+
+                                    {displayData.controversies && displayData.controversies.length > 0 && (
+                                        <motion.section variants={itemVariants}>
+                                            <ControversiesPanel controversies={displayData.controversies} agentDisplayIds={agentDisplayIds} />
+                                        </motion.section>
+                                    )}
+
+                                    {needsRearbitration && !displayData.isHistoryView && !isLoading && (
+                                        <motion.div
+                                            className="flex items-center justify-between gap-4 text-sm bg-[var(--surface-2)] border border-[var(--line)] rounded-lg px-4 py-3"
+                                            variants={itemVariants}
+                                        >
+                                            <span className="text-[var(--text-muted)]">Agent drafts changed since this answer was synthesized.</span>
+                                            <button
+                                                onClick={handleRearbitrate}
+                                                disabled={retryingAgentIds.length > 0}
+                                                className="px-3 py-1.5 bg-[var(--accent)] text-[#0D1411] font-semibold rounded-lg hover:brightness-110 disabled:bg-[var(--surface-1)] disabled:text-[var(--text-muted)] transition-colors flex-shrink-0"
+                                            >
+                                                Re-run arbitration
+                                            </button>
+                                        </motion.div>
+                                    )}
                                     
                                     {displayData.agents.length > 0 && (
                                         <motion.section variants={itemVariants}>
@@ -986,6 +1695,7 @@ const App: React.FC = () => {
                                                             <AgentCard
                                                                 agent={agent}
                                                                 displayId={index + 1}
+                                                                isHighlighted={highlightedAgentIds.includes(agent.id)}
                                                                 isCollapsed={collapsedMap[agent.id] || false}
                                                                 onToggleCollapse={() =>
                                                                     setCollapsedMap(prev => ({
@@ -993,6 +1703,12 @@ const App: React.FC = () => {
                                                                         [agent.id]: !prev[agent.id]
                                                                     }))
                                                                 }
+                                                                onCancel={!displayData.isHistoryView && (isLoading || retryingAgentIds.includes(agent.id))
+                                                                    ? () => handleCancelAgent(agent.id)
+                                                                    : undefined}
+                                                                onRetry={!displayData.isHistoryView && !isLoading
+                                                                    ? () => handleRetryAgent(agent.id)
+                                                                    : undefined}
                                                             />
                                                         </motion.div>
                                                     ))}
@@ -1010,21 +1726,111 @@ const App: React.FC = () => {
                                     setAgentConfigs={setAgentConfigs}
                                     onDuplicateAgent={handleDuplicateAgent}
                                     disabled={isLoading || displayData.isHistoryView}
+                                    customModels={customModels}
                                 />
+                                <div className="border-t border-[var(--line)] pt-4">
+                                    <CollapsibleSection title="Routing" defaultOpen={false}>
+                                        <RouterSettingsPanel
+                                            routerSettings={displayData.routerSettings}
+                                            setRouterSettings={setRouterSettings}
+                                            isLoading={isLoading || displayData.isHistoryView}
+                                        />
+                                    </CollapsibleSection>
+                                </div>
+                                <div className="border-t border-[var(--line)] pt-4">
+                                    <CollapsibleSection title="Strategy" defaultOpen={false}>
+                                        <DebateSettingsPanel
+                                            debateSettings={displayData.debateSettings}
+                                            setDebateSettings={setDebateSettings}
+                                            isLoading={isLoading || displayData.isHistoryView}
+                                        />
+                                    </CollapsibleSection>
+                                </div>
+                                <div className="border-t border-[var(--line)] pt-4">
+                                    <CollapsibleSection title="Verifier" defaultOpen={false}>
+                                        <VerifierSettingsPanel
+                                            verifierSettings={displayData.verifierSettings}
+                                            setVerifierSettings={setVerifierSettings}
+                                            arbiterMode={displayData.arbiterMode}
+                                            isLoading={isLoading || displayData.isHistoryView}
+                                        />
+                                    </CollapsibleSection>
+                                </div>
+                                <div className="border-t border-[var(--line)] pt-4">
+                                    <CollapsibleSection title="Output Format" defaultOpen={false}>
+                                        <StructuredOutputPanel
+                                            structuredOutputSettings={displayData.structuredOutputSettings}
+                                            setStructuredOutputSettings={setStructuredOutputSettings}
+                                            isLoading={isLoading || displayData.isHistoryView}
+                                        />
+                                    </CollapsibleSection>
+                                </div>
                                 <div className="border-t border-[var(--line)] pt-4">
                                     <CollapsibleSection title="Arbiter Settings" defaultOpen={true}>
                                         <div className="space-y-4">
-                                            <ArbiterSettings
-                                                arbiterModel={displayData.arbiterModel}
-                                                setArbiterModel={setArbiterModel}
-                                                openAIArbiterVerbosity={displayData.openAIArbiterVerbosity}
-                                                setOpenAIArbiterVerbosity={setOpenAIArbiterVerbosity}
-                                                openAIArbiterEffort={displayData.openAIArbiterEffort}
-                                                setOpenAIArbiterEffort={setOpenAIArbiterEffort}
-                                                geminiArbiterEffort={displayData.geminiArbiterEffort}
-                                                setGeminiArbiterEffort={setGeminiArbiterEffort}
-                                                isLoading={isLoading || displayData.isHistoryView}
-                                            />
+                                            {displayData.isHistoryView ? (
+                                                <>
+                                                    <ArbiterSettings
+                                                        arbiterModel={displayData.arbiterModel}
+                                                        setArbiterModel={(value) => updateHistoryArbiterSettings({ arbiterModel: value })}
+                                                        openAIArbiterVerbosity={displayData.openAIArbiterVerbosity}
+                                                        setOpenAIArbiterVerbosity={(value) => updateHistoryArbiterSettings({ openAIArbiterVerbosity: value })}
+                                                        openAIArbiterEffort={displayData.openAIArbiterEffort}
+                                                        setOpenAIArbiterEffort={(value) => updateHistoryArbiterSettings({ openAIArbiterEffort: value })}
+                                                        geminiArbiterEffort={displayData.geminiArbiterEffort}
+                                                        setGeminiArbiterEffort={(value) => updateHistoryArbiterSettings({ geminiArbiterEffort: value })}
+                                                        arbiterMode={displayData.arbiterMode}
+                                                        setArbiterMode={(value) => updateHistoryArbiterSettings({ arbiterMode: value })}
+                                                        arbiterTemplates={arbiterTemplates}
+                                                        arbiterTemplate={displayData.arbiterTemplate}
+                                                        onSelectArbiterTemplate={(template) => updateHistoryArbiterSettings({ arbiterTemplate: template })}
+                                                        arbiterFallbackModels={displayData.arbiterFallbackModels}
+                                                        setArbiterFallbackModels={(value) => updateHistoryArbiterSettings({ arbiterFallbackModels: value })}
+                                                        sendImagesToArbiter={displayData.sendImagesToArbiter}
+                                                        setSendImagesToArbiter={(value) => updateHistoryArbiterSettings({ sendImagesToArbiter: value })}
+                                                        reportControversies={displayData.reportControversies}
+                                                        setReportControversies={(value) => updateHistoryArbiterSettings({ reportControversies: value })}
+                                                        customModels={customModels}
+                                                        isLoading={!!rearbitration}
+                                                    />
+                                                    <div className="mt-4 flex items-center gap-3">
+                                                        <button
+                                                            onClick={isRearbitratingSelectedRun ? () => rearbitrationAbortRef.current?.() : handleRearbitrateRun}
+                                                            disabled={!!rearbitration && !isRearbitratingSelectedRun}
+                                                            className="px-4 py-2 bg-[var(--accent)] text-[#0D1411] font-semibold rounded-lg shadow-md hover:brightness-110 disabled:bg-[var(--surface-1)] disabled:text-[var(--text-muted)] transition-colors"
+                                                        >
+                                                            {isRearbitratingSelectedRun ? 'Cancel Re-arbitration' : 'Re-arbitrate Drafts'}
+                                                        </button>
+                                                        <p className="text-xs text-[var(--text-muted)]">
+                                                            Arbitrates this run's stored drafts again with the settings above and saves the result as a new revision.
+                                                        </p>
+                                                    </div>
+                                                </>
+                                            ) : (
+                                                <ArbiterSettings
+                                                    arbiterModel={displayData.arbiterModel}
+                                                    setArbiterModel={setArbiterModel}
+                                                    openAIArbiterVerbosity={displayData.openAIArbiterVerbosity}
+                                                    setOpenAIArbiterVerbosity={setOpenAIArbiterVerbosity}
+                                                    openAIArbiterEffort={displayData.openAIArbiterEffort}
+                                                    setOpenAIArbiterEffort={setOpenAIArbiterEffort}
+                                                    geminiArbiterEffort={displayData.geminiArbiterEffort}
+                                                    setGeminiArbiterEffort={setGeminiArbiterEffort}
+                                                    arbiterMode={displayData.arbiterMode}
+                                                    setArbiterMode={setArbiterMode}
+                                                    arbiterTemplates={arbiterTemplates}
+                                                    arbiterTemplate={displayData.arbiterTemplate}
+                                                    onSelectArbiterTemplate={(template) => setArbiterTemplateId(template.id)}
+                                                    arbiterFallbackModels={displayData.arbiterFallbackModels}
+                                                    setArbiterFallbackModels={setArbiterFallbackModels}
+                                                    sendImagesToArbiter={displayData.sendImagesToArbiter}
+                                                    setSendImagesToArbiter={setSendImagesToArbiter}
+                                                    reportControversies={displayData.reportControversies}
+                                                    setReportControversies={setReportControversies}
+                                                    customModels={customModels}
+                                                    isLoading={isLoading}
+                                                />
+                                            )}
                                         </div>
                                     </CollapsibleSection>
                                 </div>
@@ -1096,14 +1902,37 @@ const ArbiterSettings: React.FC<{
     setOpenAIArbiterEffort: (effort: OpenAIReasoningEffort) => void;
     geminiArbiterEffort: GeminiThinkingEffort;
     setGeminiArbiterEffort: (effort: GeminiThinkingEffort) => void;
+    arbiterMode: ArbiterMode;
+    setArbiterMode: (mode: ArbiterMode) => void;
+    arbiterTemplates: ArbiterTemplate[];
+    arbiterTemplate: ArbiterTemplate;
+    onSelectArbiterTemplate: (template: ArbiterTemplate) => void;
+    arbiterFallbackModels: ArbiterModel[];
+    setArbiterFallbackModels: (models: ArbiterModel[]) => void;
+    sendImagesToArbiter: boolean;
+    setSendImagesToArbiter: (enabled: boolean) => void;
+    reportControversies: boolean;
+    setReportControversies: (enabled: boolean) => void;
+    /** Discovered on the custom endpoint; offered as arbiters alongside the hosted models. */
+    customModels: string[];
     isLoading: boolean;
-}> = ({ arbiterModel, setArbiterModel, openAIArbiterVerbosity, setOpenAIArbiterVerbosity, openAIArbiterEffort, setOpenAIArbiterEffort, geminiArbiterEffort, setGeminiArbiterEffort, isLoading }) => {
-    const arbiterModelOptions: { label: string; value: ArbiterModel; provider: 'gemini' | 'openai' | 'openrouter'; tooltip: string }[] = [
+}> = ({ arbiterModel, setArbiterModel, openAIArbiterVerbosity, setOpenAIArbiterVerbosity, openAIArbiterEffort, setOpenAIArbiterEffort, geminiArbiterEffort, setGeminiArbiterEffort, arbiterMode, setArbiterMode, arbiterTemplates, arbiterTemplate, onSelectArbiterTemplate, arbiterFallbackModels, setArbiterFallbackModels, sendImagesToArbiter, setSendImagesToArbiter, reportControversies, setReportControversies, customModels, isLoading }) => {
+    const arbiterModeOptions: { label: string; value: ArbiterMode; tooltip: string }[] = [
+        { label: 'Synthesize', value: 'synthesize', tooltip: 'The arbiter model merges all drafts into a new answer.' },
+        { label: 'Majority Vote', value: 'vote', tooltip: 'Returns the draft whose answer most agents agree on. No arbiter model call.' },
+        { label: 'Judge Rerank', value: 'rerank', tooltip: 'A judge model scores each draft; the highest-scoring draft is returned verbatim.' },
+        { label: 'Select Best', value: 'select-best', tooltip: 'The arbiter model picks the best draft, which is returned verbatim.' },
+        { label: 'Attributed', value: 'attributed', tooltip: 'Synthesizes like Synthesize, but marks each paragraph or claim with the drafts it came from.' },
+    ];
+    const arbiterModelOptions: { label: string; value: ArbiterModel; provider: ApiProvider; tooltip: string }[] = [
         { label: 'Gemini 2.5 Flash', value: GEMINI_FLASH_MODEL, provider: 'gemini', tooltip: 'Google\'s fast and cost-effective model for general arbitration.' },
         { label: 'Gemini 2.5 Pro', value: GEMINI_PRO_MODEL, provider: 'gemini', tooltip: 'Google\'s most capable model, with a large context window and strong reasoning. Recommended for complex synthesis.' },
         { label: 'GPT-5', value: OPENAI_ARBITER_MODEL, provider: 'openai', tooltip: 'OpenAI\'s flagship model with configurable reasoning effort for balanced arbitration.' },
         { label: 'GPT-5 Mini', value: OPENAI_GPT5_MINI_MODEL, provider: 'openai', tooltip: 'OpenAI\'s lightweight GPT-5 model for quick arbitration with lower latency.' },
+        { label: 'Claude Sonnet 4.5', value: ANTHROPIC_SONNET_MODEL, provider: 'anthropic', tooltip: 'Anthropic\'s balanced model via the Anthropic API, with strong long-context synthesis.' },
+        { label: 'Claude Haiku 4.5', value: ANTHROPIC_HAIKU_MODEL, provider: 'anthropic', tooltip: 'Anthropic\'s fastest current model via the Anthropic API, for quick arbitration.' },
         { label: 'OR Claude Haiku', value: OPENROUTER_CLAUDE_3_HAIKU, provider: 'openrouter', tooltip: 'Anthropic\'s fastest model via OpenRouter. Ideal for quick, responsive arbitration.' },
+        ...customModels.map(model => ({ label: model, value: model, provider: 'custom' as const, tooltip: 'Served by your custom endpoint. No cloud API key needed.' })),
     ];
     const openAIVerbosityOptions: { label: string; value: OpenAIVerbosity }[] = [
         { label: 'Low', value: 'low' },
@@ -1114,6 +1943,14 @@ const ArbiterSettings: React.FC<{
         { label: 'Medium', value: 'medium' },
         { label: 'High', value: 'high' },
     ];
+    const imageOptions: { label: string; value: 'off' | 'on'; tooltip: string }[] = [
+        { label: 'Off', value: 'off', tooltip: 'The arbiter sees only the drafts. Cheaper for large images.' },
+        { label: 'On', value: 'on', tooltip: 'Vision-capable arbiters also see the prompt\'s images, so they can check the drafts against them.' },
+    ];
+    const controversyOptions: { label: string; value: 'off' | 'on'; tooltip: string }[] = [
+        { label: 'Off', value: 'off', tooltip: 'No disagreement report.' },
+        { label: 'On', value: 'on', tooltip: 'After the answer, the arbiter model lists where the drafts contradicted each other and how the answer settled it. One extra arbiter call per run.' },
+    ];
     const geminiEffortOptions: { label: string, value: GeminiThinkingEffort }[] = [
         { label: 'Dynamic', value: 'dynamic' },
         { label: 'High', value: 'high' },
@@ -1122,13 +1959,43 @@ const ArbiterSettings: React.FC<{
         { label: 'None', value: 'none' },
     ];
     
+    // A stored run may use a template that has since been edited or deleted.
+    const templateOptions = arbiterTemplates.some(t => t.id === arbiterTemplate.id)
+        ? arbiterTemplates
+        : [arbiterTemplate, ...arbiterTemplates];
+
     const selectedModelOption = arbiterModelOptions.find(opt => opt.value === arbiterModel);
     const effortOptions = selectedModelOption?.value === GEMINI_FLASH_MODEL
         ? geminiEffortOptions
         : geminiEffortOptions.filter(o => o.value !== 'none');
 
+    if (arbiterMode === 'vote') {
+        return <ArbiterModeControl options={arbiterModeOptions} value={arbiterMode} onChange={setArbiterMode} disabled={isLoading} />;
+    }
+
     return (
         <>
+            <ArbiterModeControl options={arbiterModeOptions} value={arbiterMode} onChange={setArbiterMode} disabled={isLoading} />
+            {(arbiterMode === 'synthesize' || arbiterMode === 'attributed') && (
+                <div>
+                    <label htmlFor="arbiter-template" className="block text-sm font-medium text-[var(--text)] mb-2">Output Template</label>
+                    <select
+                        id="arbiter-template"
+                        value={arbiterTemplate.id}
+                        onChange={(e) => {
+                            const template = templateOptions.find(t => t.id === e.target.value);
+                            if (template) onSelectArbiterTemplate(template);
+                        }}
+                        disabled={isLoading}
+                        className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                        title="Persona and prompt the arbiter synthesizes with. Edit templates in Settings."
+                    >
+                        {templateOptions.map(template => (
+                            <option key={template.id} value={template.id}>{template.name || template.id}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
             <div>
                 <label className="block text-sm font-medium text-[var(--text)] mb-2">Arbiter Model</label>
                 <SegmentedControl
@@ -1174,9 +2041,377 @@ const ArbiterSettings: React.FC<{
                     />
                 </div>
             ) : null}
+            {arbiterMode !== 'rerank' && (
+                <div>
+                    <label className="block text-sm font-medium text-[var(--text)] mb-2">Send Images to Arbiter</label>
+                    <SegmentedControl
+                        aria-label="Send Images to Arbiter"
+                        options={imageOptions}
+                        value={sendImagesToArbiter ? 'on' : 'off'}
+                        onChange={(value) => setSendImagesToArbiter(value === 'on')}
+                        disabled={isLoading}
+                    />
+                    {sendImagesToArbiter && !arbiterSupportsVision(arbiterModel) && (
+                        <p className="mt-2 text-xs text-[var(--text-muted)]">This arbiter model does not accept images, so it only sees the drafts.</p>
+                    )}
+                </div>
+            )}
+            {(arbiterMode === 'synthesize' || arbiterMode === 'attributed') && (
+                <div>
+                    <label className="block text-sm font-medium text-[var(--text)] mb-2">Disagreement Report</label>
+                    <SegmentedControl
+                        aria-label="Disagreement Report"
+                        options={controversyOptions}
+                        value={reportControversies ? 'on' : 'off'}
+                        onChange={(value) => setReportControversies(value === 'on')}
+                        disabled={isLoading}
+                    />
+                </div>
+            )}
+            <ArbiterFallbackControl
+                options={arbiterModelOptions}
+                arbiterModel={arbiterModel}
+                value={arbiterFallbackModels}
+                onChange={setArbiterFallbackModels}
+                disabled={isLoading}
+            />
         </>
     );
 };
 
+/** Ordered fallback arbiters; the chosen arbiter model itself is skipped when the run falls back. */
+const ArbiterFallbackControl: React.FC<{
+    options: { label: string; value: ArbiterModel }[];
+    arbiterModel: ArbiterModel;
+    value: ArbiterModel[];
+    onChange: (models: ArbiterModel[]) => void;
+    disabled: boolean;
+}> = ({ options, arbiterModel, value, onChange, disabled }) => {
+    const labelOf = (model: ArbiterModel) => options.find(o => o.value === model)?.label ?? model;
+    const available = options.filter(o => o.value !== arbiterModel && !value.includes(o.value));
+    const moveUp = (index: number) => onChange([...value.slice(0, index - 1), value[index], value[index - 1], ...value.slice(index + 1)]);
+
+    return (
+        <div>
+            <label htmlFor="arbiter-fallback-add" className="block text-sm font-medium text-[var(--text)] mb-2">Fallback Arbiters</label>
+            {value.length > 0 && (
+                <ol className="mb-2 space-y-1">
+                    {value.map((model, i) => (
+                        <li key={model} className="flex items-center gap-2 text-sm text-[var(--text)]">
+                            <span className="text-xs text-[var(--text-muted)] w-4">{i + 1}.</span>
+                            <span className={`flex-grow ${model === arbiterModel ? 'line-through text-[var(--text-muted)]' : ''}`}>{labelOf(model)}</span>
+                            <button
+                                type="button"
+                                onClick={() => moveUp(i)}
+                                disabled={disabled || i === 0}
+                                className="px-1.5 text-xs rounded hover:bg-[var(--surface-active)] disabled:opacity-40"
+                                aria-label={`Try ${labelOf(model)} earlier`}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onChange(value.filter(m => m !== model))}
+                                disabled={disabled}
+                                className="px-1.5 text-xs rounded hover:bg-[var(--surface-active)] disabled:opacity-40"
+                                aria-label={`Remove ${labelOf(model)}`}
+                            >
+                                <XMarkIcon className="w-3.5 h-3.5" />
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+            <select
+                id="arbiter-fallback-add"
+                value=""
+                onChange={(e) => e.target.value && onChange([...value, e.target.value])}
+                disabled={disabled || available.length === 0}
+                className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                title="Tried in order when the arbiter fails before it starts answering. If all fail, the best single draft is shown."
+            >
+                <option value="">Add fallback arbiter…</option>
+                {available.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+const ArbiterModeControl: React.FC<{
+    options: { label: string; value: ArbiterMode; tooltip: string }[];
+    value: ArbiterMode;
+    onChange: (mode: ArbiterMode) => void;
+    disabled: boolean;
+}> = ({ options, value, onChange, disabled }) => (
+    <div>
+        <label className="block text-sm font-medium text-[var(--text)] mb-2">Arbiter Mode</label>
+        <SegmentedControl
+            aria-label="Arbiter Mode"
+            options={options}
+            value={value}
+            onChange={onChange}
+            disabled={disabled}
+        />
+    </div>
+);
+
+const DebateSettingsPanel: React.FC<{
+    debateSettings: DebateSettings;
+    setDebateSettings: React.Dispatch<React.SetStateAction<DebateSettings>>;
+    isLoading: boolean;
+}> = ({ debateSettings, setDebateSettings, isLoading }) => {
+    const strategyOptions: { label: string; value: OrchestrationStrategy; tooltip: string }[] = [
+        { label: 'Parallel', value: 'parallel', tooltip: 'Agents answer independently and the arbiter works from their first drafts.' },
+        { label: 'Debate', value: 'debate', tooltip: 'After the first drafts, each agent reads the others\' drafts, critiques them and revises its own before arbitration.' },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-[var(--text)] mb-2">Orchestration Strategy</label>
+                <SegmentedControl
+                    aria-label="Orchestration Strategy"
+                    options={strategyOptions}
+                    value={debateSettings.strategy}
+                    onChange={(strategy) => setDebateSettings(prev => ({ ...prev, strategy }))}
+                    disabled={isLoading}
+                />
+            </div>
+            {debateSettings.strategy === 'debate' && (
+                <div>
+                    <label htmlFor="debate-rounds" className="block text-sm font-medium text-[var(--text-muted)] mb-1">Debate Rounds</label>
+                    <NumericInput
+                        type="number"
+                        id="debate-rounds"
+                        value={debateSettings.rounds}
+                        onCommit={(rounds) => setDebateSettings(prev => ({ ...prev, rounds }))}
+                        parser={(v) => parseInt(v, 10)}
+                        disabled={isLoading}
+                        min="1" max={String(MAX_DEBATE_ROUNDS)} step="1"
+                        className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                        title="Critique-and-revise rounds after the first drafts. Each round re-runs every agent that still has a draft."
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const VerifierSettingsPanel: React.FC<{
+    verifierSettings: VerifierSettings;
+    setVerifierSettings: React.Dispatch<React.SetStateAction<VerifierSettings>>;
+    arbiterMode: ArbiterMode;
+    isLoading: boolean;
+}> = ({ verifierSettings, setVerifierSettings, arbiterMode, isLoading }) => {
+    const enabledOptions: { label: string; value: 'off' | 'on'; tooltip: string }[] = [
+        { label: 'Off', value: 'off', tooltip: 'Use the arbiter\'s first answer as is.' },
+        { label: 'On', value: 'on', tooltip: 'Score the final answer with the judge rubric and have the arbiter revise it while it scores below the threshold.' },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-[var(--text)] mb-2">Critique and Revise</label>
+                <SegmentedControl
+                    aria-label="Critique and Revise"
+                    options={enabledOptions}
+                    value={verifierSettings.enabled ? 'on' : 'off'}
+                    onChange={(value) => setVerifierSettings(prev => ({ ...prev, enabled: value === 'on' }))}
+                    disabled={isLoading}
+                />
+                {verifierSettings.enabled && !writesNewAnswer(arbiterMode) && (
+                    <p className="mt-2 text-xs text-[var(--text-muted)]">Skipped in this arbiter mode, which returns a draft verbatim.</p>
+                )}
+            </div>
+            {verifierSettings.enabled && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="verifier-threshold" className="block text-sm font-medium text-[var(--text-muted)] mb-1">Score Threshold</label>
+                        <NumericInput
+                            type="number"
+                            id="verifier-threshold"
+                            value={verifierSettings.threshold}
+                            onCommit={(threshold) => setVerifierSettings(prev => ({ ...prev, threshold }))}
+                            parser={(v) => parseFloat(v)}
+                            disabled={isLoading}
+                            min="0" max="1" step="0.05"
+                            className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                            title="Judge score (0-1) at which the answer is accepted."
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="verifier-iterations" className="block text-sm font-medium text-[var(--text-muted)] mb-1">Max Revisions</label>
+                        <NumericInput
+                            type="number"
+                            id="verifier-iterations"
+                            value={verifierSettings.maxIterations}
+                            onCommit={(maxIterations) => setVerifierSettings(prev => ({ ...prev, maxIterations }))}
+                            parser={(v) => parseInt(v, 10)}
+                            disabled={isLoading}
+                            min="1" max={String(MAX_VERIFIER_ITERATIONS)} step="1"
+                            className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                            title="Most revisions the arbiter makes before the latest one is kept."
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const StructuredOutputPanel: React.FC<{
+    structuredOutputSettings: StructuredOutputSettings;
+    setStructuredOutputSettings: React.Dispatch<React.SetStateAction<StructuredOutputSettings>>;
+    isLoading: boolean;
+}> = ({ structuredOutputSettings, setStructuredOutputSettings, isLoading }) => {
+    const formatOptions: { label: string; value: 'text' | 'json'; tooltip: string }[] = [
+        { label: 'Text', value: 'text', tooltip: 'Agents and arbiter answer in free-form Markdown.' },
+        { label: 'JSON', value: 'json', tooltip: 'Agents and arbiter answer with JSON matching a schema. Drafts that still fail validation after a retry are marked failed.' },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-[var(--text)] mb-2">Answer Format</label>
+                <SegmentedControl
+                    aria-label="Answer Format"
+                    options={formatOptions}
+                    value={structuredOutputSettings.enabled ? 'json' : 'text'}
+                    onChange={(value) => setStructuredOutputSettings(prev => ({ ...prev, enabled: value === 'json' }))}
+                    disabled={isLoading}
+                />
+            </div>
+            {structuredOutputSettings.enabled && (
+                <>
+                    <div>
+                        <label htmlFor="structured-output-schema" className="block text-sm font-medium text-[var(--text-muted)] mb-1">Schema</label>
+                        <select
+                            id="structured-output-schema"
+                            value={structuredOutputSettings.presetId}
+                            onChange={(e) => setStructuredOutputSettings(prev => ({ ...prev, presetId: e.target.value }))}
+                            disabled={isLoading}
+                            className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                        >
+                            {STRUCTURED_OUTPUT_PRESETS.map(preset => (
+                                <option key={preset.id} value={preset.id}>{preset.label}</option>
+                            ))}
+                            <option value={CUSTOM_SCHEMA_PRESET_ID}>Custom JSON Schema</option>
+                        </select>
+                    </div>
+                    {structuredOutputSettings.presetId === CUSTOM_SCHEMA_PRESET_ID && (
+                        <div>
+                            <label htmlFor="structured-output-custom-schema" className="block text-sm font-medium text-[var(--text-muted)] mb-1">JSON Schema</label>
+                            <textarea
+                                id="structured-output-custom-schema"
+                                rows={8}
+                                value={structuredOutputSettings.customSchema}
+                                onChange={(e) => setStructuredOutputSettings(prev => ({ ...prev, customSchema: e.target.value }))}
+                                disabled={isLoading}
+                                placeholder='{"type": "object", "properties": {"answer": {"type": "string"}}, "required": ["answer"]}'
+                                className="w-full p-1.5 text-sm font-mono bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                            />
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const RouterSettingsPanel: React.FC<{
+    routerSettings: RouterSettings;
+    setRouterSettings: React.Dispatch<React.SetStateAction<RouterSettings>>;
+    isLoading: boolean;
+}> = ({ routerSettings, setRouterSettings, isLoading }) => {
+    const routerModeOptions: { label: string; value: RouterMode; tooltip: string }[] = [
+        { label: 'All Agents', value: 'all', tooltip: 'Dispatch every configured agent on each run.' },
+        { label: 'Keyword Rules', value: 'rules', tooltip: 'Select agents whose expert keywords and patterns match the prompt. Works offline.' },
+        { label: 'Semantic', value: 'semantic', tooltip: 'Select agents whose persona is most similar to the prompt using embeddings. Persona embeddings are cached.' },
+    ];
+    const embeddingProviderOptions: { label: string; value: EmbeddingProvider }[] = [
+        { label: 'Gemini', value: 'gemini' },
+        { label: 'OpenAI', value: 'openai' },
+    ];
+    const inputClassName = "w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]";
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-[var(--text)] mb-2">Routing Strategy</label>
+                <SegmentedControl
+                    aria-label="Routing Strategy"
+                    options={routerModeOptions}
+                    value={routerSettings.mode}
+                    onChange={(mode) => setRouterSettings(prev => ({ ...prev, mode }))}
+                    disabled={isLoading}
+                />
+            </div>
+            {routerSettings.mode !== 'all' && (
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="router-top-k" className="block text-sm font-medium text-[var(--text-muted)] mb-1">Max Agents (Top K)</label>
+                        <NumericInput
+                            type="number"
+                            id="router-top-k"
+                            value={routerSettings.topK}
+                            onCommit={(topK) => setRouterSettings(prev => ({ ...prev, topK }))}
+                            parser={(v) => parseInt(v, 10)}
+                            disabled={isLoading}
+                            min="1" max="32" step="1"
+                            className={inputClassName}
+                            title="Maximum number of agents selected by score. Always-included experts do not count towards this limit."
+                        />
+                    </div>
+                    {routerSettings.mode === 'rules' ? (
+                        <div>
+                            <label htmlFor="router-min-score" className="block text-sm font-medium text-[var(--text-muted)] mb-1">Minimum Score</label>
+                            <NumericInput
+                                type="number"
+                                id="router-min-score"
+                                value={routerSettings.minScore}
+                                onCommit={(minScore) => setRouterSettings(prev => ({ ...prev, minScore }))}
+                                parser={(v) => parseFloat(v)}
+                                disabled={isLoading}
+                                min="0" step="0.5"
+                                className={inputClassName}
+                                title="Agents scoring below this are skipped. If no agent qualifies, all agents run."
+                            />
+                        </div>
+                    ) : (
+                        <div>
+                            <label htmlFor="router-min-similarity" className="block text-sm font-medium text-[var(--text-muted)] mb-1">Minimum Similarity</label>
+                            <NumericInput
+                                type="number"
+                                id="router-min-similarity"
+                                value={routerSettings.minSimilarity}
+                                onCommit={(minSimilarity) => setRouterSettings(prev => ({ ...prev, minSimilarity }))}
+                                parser={(v) => parseFloat(v)}
+                                disabled={isLoading}
+                                min="-1" max="1" step="0.05"
+                                className={inputClassName}
+                                title="Cosine similarity between the prompt and a persona required for selection. If no agent qualifies, all agents run."
+                            />
+                        </div>
+                    )}
+                </div>
+            )}
+            {routerSettings.mode === 'semantic' && (
+                <div>
+                    <label className="block text-sm font-medium text-[var(--text)] mb-2">Embedding Provider</label>
+                    <SegmentedControl
+                        aria-label="Embedding Provider"
+                        options={embeddingProviderOptions}
+                        value={routerSettings.embeddingProvider}
+                        onChange={(embeddingProvider) => setRouterSettings(prev => ({ ...prev, embeddingProvider }))}
+                        disabled={isLoading}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
 
 export default App;
@@ -1,21 +1,62 @@
-import React, { useId } from 'react';
-import { AgentState, AgentStatus } from '@/types';
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { AgentState, AgentStatus, DeepConfVote } from '@/types';
 import { getExpertColor } from '@/lib/colors';
+import SegmentedControl from '@/components/SegmentedControl';
 import {
     LoadingSpinner,
     CheckCircleIcon,
     XCircleIcon,
     SparklesIcon,
     EllipsisHorizontalIcon,
+    ClockIcon,
+    ArrowPathIcon,
+    XMarkIcon,
     ChevronUpIcon,
     ChevronDownIcon
 } from '@/components/icons';
 
+// Answers can be whole traces when nothing was extracted, so only the leading ones are shown, shortened.
+const MAX_TALLY_ENTRIES = 5;
+const MAX_ANSWER_LENGTH = 40;
+
+const shorten = (answer: string): string =>
+    answer.length > MAX_ANSWER_LENGTH ? `${answer.slice(0, MAX_ANSWER_LENGTH - 1)}…` : answer;
+
+const VoteSummary: React.FC<{ vote: DeepConfVote }> = ({ vote }) => {
+  const traceCount = vote.tally.reduce((sum, entry) => sum + entry.count, 0);
+  const hidden = vote.tally.length - MAX_TALLY_ENTRIES;
+  return (
+    <div className="mb-3 text-xs text-[var(--text-muted)]">
+      <p className="mb-1">
+        DeepConf vote: {vote.tally.length} distinct {vote.tally.length === 1 ? 'answer' : 'answers'} from {traceCount} {traceCount === 1 ? 'trace' : 'traces'}, {Math.round(vote.consensus * 100)}% consensus
+      </p>
+      <ul className="flex flex-wrap gap-1" aria-label="Votes per answer">
+        {vote.tally.slice(0, MAX_TALLY_ENTRIES).map(({ answer, count }) => (
+          <li
+            key={answer}
+            title={answer}
+            className={`px-2 py-0.5 rounded-full font-mono border ${answer === vote.answer ? 'border-[var(--accent)] text-[var(--text)]' : 'border-[var(--line)]'}`}
+          >
+            {shorten(answer)} × {count}
+          </li>
+        ))}
+        {hidden > 0 && <li className="px-2 py-0.5">+{hidden} more</li>}
+      </ul>
+    </div>
+  );
+};
+
 interface AgentCardProps {
   agent: AgentState;
   displayId: number;
   isCollapsed: boolean;
+  /** Set while the agent's draft is cited by a hovered attribution chip. */
+  isHighlighted?: boolean;
   onToggleCollapse: () => void;
+  /** Shown while the agent is queued or running. */
+  onCancel?: () => void;
+  /** Shown once the agent has failed. */
+  onRetry?: () => void;
 }
 
 const getStatusIndicator = (status: AgentStatus): React.ReactNode => {
@@ -26,6 +67,8 @@ const getStatusIndicator = (status: AgentStatus): React.ReactNode => {
             return <><CheckCircleIcon className="h-5 w-5 text-success" /><span className="sr-only">Completed</span></>;
         case 'FAILED':
             return <><XCircleIcon className="h-5 w-5 text-danger" /><span className="sr-only">Failed</span></>;
+        case 'QUEUED':
+            return <><ClockIcon className="h-5 w-5 text-[var(--text-muted)]" /><span className="sr-only">Queued</span></>;
         case 'PENDING':
         default:
             return <><EllipsisHorizontalIcon className="h-5 w-5 text-[var(--text-muted)]" /><span className="sr-only">Pending</span></>;
@@ -59,17 +102,34 @@ const getProviderChipStyle = (provider: AgentState['provider']): string => {
     }
 };
 
-const AgentCard: React.FC<AgentCardProps> = ({ agent, displayId, isCollapsed, onToggleCollapse }) => {
-  const { persona, status, content, provider } = agent;
+const AgentCard: React.FC<AgentCardProps> = ({ agent, displayId, isCollapsed, isHighlighted = false, onToggleCollapse, onCancel, onRetry }) => {
+  const { persona, status, content, provider, rounds = [] } = agent;
   const contentId = useId();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Index into `rounds`, or 'latest' for the current draft.
+  const [viewedRound, setViewedRound] = useState('latest');
+  const displayedContent = viewedRound === 'latest' ? content : rounds[Number(viewedRound)] ?? content;
+  const roundOptions = [
+    ...rounds.map((_, i) => ({ label: `Round ${i + 1}`, value: String(i) })),
+    { label: `Round ${rounds.length + 1}`, value: 'latest' },
+  ];
+
+  // Keep the newest streamed text in view while the agent is running.
+  useEffect(() => {
+    if (status === 'RUNNING' && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [content, status]);
 
   const isCollapsible = status === 'COMPLETED' || status === 'FAILED';
+  const canCancel = !!onCancel && (status === 'RUNNING' || status === 'QUEUED');
+  const canRetry = !!onRetry && status === 'FAILED';
 
   const borderColor = getBorderColor(status);
   const expertColor = getExpertColor(displayId);
 
   return (
-    <div className={`bg-[var(--surface-2)] border ${borderColor} rounded-lg shadow-lg transition-all duration-300 flex flex-col`}>
+    <div className={`bg-[var(--surface-2)] border ${borderColor} rounded-lg shadow-lg transition-all duration-300 flex flex-col ${isHighlighted ? 'ring-2 ring-[var(--accent)]' : ''}`}>
       <div className="p-4 border-b border-[var(--line)] flex justify-between items-center gap-2">
         <div className="flex items-center space-x-3 overflow-hidden">
           <SparklesIcon className="h-5 w-5 flex-shrink-0" style={{ color: expertColor }} aria-hidden="true" />
@@ -80,6 +140,26 @@ const AgentCard: React.FC<AgentCardProps> = ({ agent, displayId, isCollapsed, on
         </div>
         <div className="flex items-center space-x-2 flex-shrink-0">
             {getStatusIndicator(status)}
+            {canCancel && (
+                <button
+                    onClick={onCancel}
+                    className="p-1 rounded-full text-[var(--text-muted)] hover:bg-[var(--surface-active)] hover:text-danger focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                    title="Cancel agent"
+                >
+                    <XMarkIcon className="h-5 w-5" aria-hidden="true" />
+                    <span className="sr-only">Cancel agent {displayId}</span>
+                </button>
+            )}
+            {canRetry && (
+                <button
+                    onClick={onRetry}
+                    className="p-1 rounded-full text-[var(--text-muted)] hover:bg-[var(--surface-active)] hover:text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                    title="Retry agent"
+                >
+                    <ArrowPathIcon className="h-5 w-5" aria-hidden="true" />
+                    <span className="sr-only">Retry agent {displayId}</span>
+                </button>
+            )}
             {isCollapsible && (
                 <button
                     onClick={onToggleCollapse}
@@ -100,11 +180,26 @@ const AgentCard: React.FC<AgentCardProps> = ({ agent, displayId, isCollapsed, on
       </div>
       <div
         id={contentId}
+        ref={scrollRef}
         className={`overflow-y-auto transition-all duration-500 ease-in-out ${isCollapsed ? 'max-h-0' : 'max-h-[500px]'}`}
       >
         <div className="p-4">
             <p className="text-xs text-[var(--text-muted)] italic mb-3">Persona: {persona}</p>
-            <p className="text-sm text-[var(--text)] whitespace-pre-wrap font-mono">{content || 'Awaiting task...'}</p>
+            {agent.error && (
+                <p className={`text-xs mb-3 ${status === 'FAILED' ? 'text-danger' : 'text-[var(--text-muted)]'}`}>{agent.error}</p>
+            )}
+            {agent.vote && <VoteSummary vote={agent.vote} />}
+            {rounds.length > 0 && (
+                <div className="mb-3">
+                    <SegmentedControl
+                        aria-label={`Debate rounds for agent ${displayId}`}
+                        options={roundOptions}
+                        value={viewedRound}
+                        onChange={setViewedRound}
+                    />
+                </div>
+            )}
+            <p className="text-sm text-[var(--text)] whitespace-pre-wrap font-mono">{displayedContent || 'Awaiting task...'}</p>
         </div>
       </div>
     </div>
@@ -1,9 +1,11 @@
 import React from 'react';
-import { AgentConfig, AgentModel, GeminiAgentConfig, GeminiAgentSettings, OpenAIAgentConfig, OpenAIAgentSettings, AgentStatus, GeminiModel, OpenAIModel, GeminiThinkingEffort, GenerationStrategy, OpenRouterAgentConfig, OpenRouterAgentSettings, OpenRouterModel } from '@/types';
-import { GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL, OPENAI_AGENT_MODEL, OPENAI_GPT5_MINI_MODEL, OPENROUTER_CLAUDE_3_HAIKU, OPENROUTER_GEMINI_FLASH_1_5, OPENROUTER_GPT_4O } from '@/constants';
+import { AgentConfig, AgentModel, GeminiAgentConfig, GeminiAgentSettings, OpenAIAgentConfig, OpenAIAgentSettings, AgentStatus, GeminiModel, OpenAIModel, GeminiThinkingEffort, GenerationStrategy, ConfidenceSource, AnswerExtractorKind, VoteMode, VoteSimilarity, OpenRouterAgentConfig, OpenRouterAgentSettings, OpenRouterModel, CustomAgentConfig, CustomAgentSettings, AnthropicAgentConfig, AnthropicAgentSettings, AnthropicModel, MIN_ANTHROPIC_THINKING_BUDGET } from '@/types';
+import { GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL, OPENAI_AGENT_MODEL, OPENAI_GPT5_MINI_MODEL, OPENROUTER_CLAUDE_3_HAIKU, OPENROUTER_GEMINI_FLASH_1_5, OPENROUTER_GPT_4O, ANTHROPIC_SONNET_MODEL, ANTHROPIC_OPUS_MODEL, ANTHROPIC_HAIKU_MODEL } from '@/constants';
 import { XCircleIcon, LoadingSpinner, CheckCircleIcon, DocumentDuplicateIcon } from '@/components/icons';
 import NumericInput from './NumericInput';
 import { getExpertColor } from '@/lib/colors';
+import { getProvider } from '@/services/providers';
+import { ANSWER_EXTRACTOR_LABELS } from '@/moe/answerExtractors';
 
 interface AgentConfigCardProps {
   config: AgentConfig;
@@ -12,8 +14,13 @@ interface AgentConfigCardProps {
   onDuplicate: (id: string) => void;
   disabled: boolean;
   displayId: number;
+  /** Models discovered on the custom endpoint. */
+  customModels: string[];
 }
 
+// Custom endpoint ids can collide with hosted ones (e.g. "openai/gpt-oss-20b"), so their options are prefixed.
+const CUSTOM_OPTION_PREFIX = 'custom:';
+
 const getStatusIndicator = (status: AgentStatus): React.ReactNode => {
     switch (status) {
         case 'RUNNING':
@@ -45,14 +52,43 @@ const getBorderColor = (status: AgentStatus): string => {
 }
 
 
-const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onRemove, onDuplicate, disabled, displayId }) => {
+const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onRemove, onDuplicate, disabled, displayId, customModels }) => {
     
     const handleModelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const newModelValue = e.target.value as AgentModel;
+        const isSwitchingToCustom = newModelValue.startsWith(CUSTOM_OPTION_PREFIX);
         const isSwitchingToGemini = newModelValue.startsWith('gemini');
+        const isSwitchingToAnthropic = newModelValue.startsWith('claude-');
         const isSwitchingToOpenRouter = newModelValue.includes('/');
 
-        if (isSwitchingToGemini) {
+        if (isSwitchingToCustom) {
+            const newConfig: CustomAgentConfig = {
+                id: config.id, expert: config.expert, status: config.status, provider: 'custom',
+                model: newModelValue.slice(CUSTOM_OPTION_PREFIX.length),
+                // Keep the sampling settings when only the model changes.
+                settings: config.provider === 'custom' ? config.settings : {
+                    temperature: 0.7,
+                    topP: 1,
+                    generationStrategy: 'single',
+                    confidenceSource: 'judge',
+                    traceCount: 8,
+                    deepConfEta: 90,
+                    tau: 0.95,
+                    groupWindow: 2048,
+                    answerExtractor: { kind: 'full-text' },
+                    voteMode: 'exact',
+                    voteSimilarity: 'lexical',
+                },
+            };
+            onUpdate(config.id, newConfig);
+        } else if (isSwitchingToAnthropic) {
+            const newConfig: AnthropicAgentConfig = {
+                id: config.id, expert: config.expert, status: config.status, provider: 'anthropic',
+                model: newModelValue as AnthropicModel,
+                settings: config.provider === 'anthropic' ? config.settings : { thinkingBudget: 0, maxTokens: 8192, temperature: 1 },
+            };
+            onUpdate(config.id, newConfig);
+        } else if (isSwitchingToGemini) {
             const newModel = newModelValue as GeminiModel;
             const newConfig: GeminiAgentConfig = {
                 id: config.id, expert: config.expert, status: config.status, provider: 'gemini', model: newModel,
@@ -64,6 +100,9 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                     deepConfEta: 90,
                     tau: 0.95,
                     groupWindow: 2048,
+                    answerExtractor: { kind: 'full-text' },
+                    voteMode: 'exact',
+                    voteSimilarity: 'lexical',
                 },
             };
             onUpdate(config.id, newConfig);
@@ -78,6 +117,15 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                     frequencyPenalty: 0,
                     presencePenalty: 0,
                     repetitionPenalty: 1,
+                    generationStrategy: 'single',
+                    confidenceSource: 'judge',
+                    traceCount: 8,
+                    deepConfEta: 90,
+                    tau: 0.95,
+                    groupWindow: 2048,
+                    answerExtractor: { kind: 'full-text' },
+                    voteMode: 'exact',
+                    voteSimilarity: 'lexical',
                 }
             };
             onUpdate(config.id, newConfig);
@@ -93,13 +141,16 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                     deepConfEta: 90,
                     tau: 0.95,
                     groupWindow: 2048,
+                    answerExtractor: { kind: 'full-text' },
+                    voteMode: 'exact',
+                    voteSimilarity: 'lexical',
                 },
             };
             onUpdate(config.id, newConfig);
         }
     };
 
-    const handleSettingChange = (update: Partial<GeminiAgentSettings | OpenAIAgentSettings | OpenRouterAgentSettings>) => {
+    const handleSettingChange = (update: Partial<GeminiAgentSettings | OpenAIAgentSettings | OpenRouterAgentSettings | CustomAgentSettings | AnthropicAgentSettings>) => {
         const newConfig = {
             ...config,
             settings: {
@@ -110,6 +161,13 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
         onUpdate(config.id, newConfig as AgentConfig);
     };
     
+    const deepConfSettings = 'generationStrategy' in config.settings ? config.settings : null;
+    const supportsLogprobs = getProvider(config.provider).capabilities(config.model).logprobs;
+    // A saved model stays selectable before discovery runs or after the endpoint stops listing it.
+    const customModelOptions = config.provider === 'custom' && !customModels.includes(config.model)
+        ? [config.model, ...customModels]
+        : customModels;
+
     const borderColor = getBorderColor(config.status);
     const expertColor = getExpertColor(displayId);
 
@@ -154,7 +212,7 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                     <label htmlFor={`model-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Model</label>
                     <select
                         id={`model-${config.id}`}
-                        value={config.model}
+                        value={config.provider === 'custom' ? CUSTOM_OPTION_PREFIX + config.model : config.model}
                         onChange={handleModelChange}
                         disabled={disabled}
                         className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
@@ -167,11 +225,23 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                              <option value={OPENAI_AGENT_MODEL}>OpenAI GPT-5</option>
                              <option value={OPENAI_GPT5_MINI_MODEL}>OpenAI GPT-5 Mini</option>
                         </optgroup>
+                        <optgroup label="Anthropic">
+                            <option value={ANTHROPIC_SONNET_MODEL}>Claude Sonnet 4.5</option>
+                            <option value={ANTHROPIC_OPUS_MODEL}>Claude Opus 4.1</option>
+                            <option value={ANTHROPIC_HAIKU_MODEL}>Claude Haiku 4.5</option>
+                        </optgroup>
                         <optgroup label="OpenRouter">
                             <option value={OPENROUTER_GPT_4O}>OpenAI GPT-4o</option>
                             <option value={OPENROUTER_GEMINI_FLASH_1_5}>Gemini Flash 1.5</option>
                             <option value={OPENROUTER_CLAUDE_3_HAIKU}>Claude 3 Haiku</option>
                         </optgroup>
+                        {customModelOptions.length > 0 && (
+                            <optgroup label="Custom Endpoint">
+                                {customModelOptions.map(model => (
+                                    <option key={model} value={CUSTOM_OPTION_PREFIX + model}>{model}</option>
+                                ))}
+                            </optgroup>
+                        )}
                     </select>
                 </div>
 
@@ -179,11 +249,11 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                      <label htmlFor={`strategy-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Generation Strategy</label>
                     <select
                         id={`strategy-${config.id}`}
-                        value={config.provider === 'openrouter' ? 'single' : (config as GeminiAgentConfig | OpenAIAgentConfig).settings.generationStrategy}
+                        value={deepConfSettings?.generationStrategy ?? 'single'}
                         onChange={(e) => handleSettingChange({ generationStrategy: e.target.value as GenerationStrategy })}
-                        disabled={disabled || config.provider === 'openrouter'}
+                        disabled={disabled || !deepConfSettings}
                         className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-70"
-                        title={config.provider === 'openrouter' ? "DeepConf is not currently supported for OpenRouter agents." : "Select the generation strategy."}
+                        title={deepConfSettings ? "Select the generation strategy." : "DeepConf is not currently supported for Anthropic agents."}
                     >
                         <option value="single">Single Draft</option>
                         <option value="deepconf-offline">DeepConf Offline</option>
@@ -191,14 +261,14 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                     </select>
                 </div>
                 
-                {config.provider !== 'openrouter' && config.settings.generationStrategy !== 'single' &&
+                {deepConfSettings && deepConfSettings.generationStrategy !== 'single' &&
                     <>
                         <div>
                             <label htmlFor={`traces-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Trace Count</label>
                             <NumericInput
                                 type="number"
                                 id={`traces-${config.id}`}
-                                value={config.settings.traceCount}
+                                value={deepConfSettings.traceCount}
                                 onCommit={(value) => handleSettingChange({ traceCount: value })}
                                 parser={(v) => parseInt(v, 10)}
                                 disabled={disabled}
@@ -211,7 +281,7 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                             <label htmlFor={`eta-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Confidence (Eta)</label>
                             <select
                                 id={`eta-${config.id}`}
-                                value={config.settings.deepConfEta}
+                                value={deepConfSettings.deepConfEta}
                                 onChange={(e) => handleSettingChange({ deepConfEta: parseInt(e.target.value, 10) as (10 | 90) })}
                                 disabled={disabled}
                                 className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
@@ -225,12 +295,16 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                              <label htmlFor={`confidence-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Confidence Source</label>
                             <select
                                 id={`confidence-${config.id}`}
-                                value={config.settings.confidenceSource}
-                                disabled={true}
+                                value={supportsLogprobs ? deepConfSettings.confidenceSource : 'judge'}
+                                onChange={(e) => handleSettingChange({ confidenceSource: e.target.value as ConfidenceSource })}
+                                disabled={disabled || !supportsLogprobs}
                                 className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-70 disabled:cursor-not-allowed"
-                                title="Only 'Judge' is available. The underlying models (Gemini and GPT-5) do not support streaming logprobs required for token-based confidence."
+                                title={supportsLogprobs
+                                    ? "Token Logprobs scores traces by the model's own token confidence and lets online mode stop weak traces early. The model must return logprobs."
+                                    : "Only 'Judge' is available. This provider does not stream the logprobs required for token-based confidence."}
                             >
                                 <option value="judge">Judge Verifier</option>
+                                <option value="logprobs">Token Logprobs</option>
                             </select>
                         </div>
                         <div>
@@ -238,7 +312,7 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                             <NumericInput
                                 type="number"
                                 id={`tau-${config.id}`}
-                                value={config.settings.tau}
+                                value={deepConfSettings.tau}
                                 onCommit={(value) => handleSettingChange({ tau: value })}
                                 parser={(v) => parseFloat(v)}
                                 disabled={disabled}
@@ -252,7 +326,7 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                             <NumericInput
                                 type="number"
                                 id={`groupWindow-${config.id}`}
-                                value={config.settings.groupWindow}
+                                value={deepConfSettings.groupWindow}
                                 onCommit={(value) => handleSettingChange({ groupWindow: value })}
                                 parser={(v) => parseInt(v, 10)}
                                 disabled={disabled}
@@ -261,6 +335,80 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                                 title="Sliding window size (in tokens) for calculating group confidence."
                             />
                         </div>
+                        <div className="col-span-2">
+                            <label htmlFor={`extractor-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Answer Extractor</label>
+                            <select
+                                id={`extractor-${config.id}`}
+                                value={deepConfSettings.answerExtractor.kind}
+                                onChange={(e) => handleSettingChange({ answerExtractor: { ...deepConfSettings.answerExtractor, kind: e.target.value as AnswerExtractorKind } })}
+                                disabled={disabled}
+                                className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                                title="What each trace votes for. Traces only agree when their extracted answers match exactly, so pick the form the prompt asks for."
+                            >
+                                {Object.entries(ANSWER_EXTRACTOR_LABELS).map(([kind, label]) => (
+                                    <option key={kind} value={kind}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {deepConfSettings.answerExtractor.kind === 'regex' &&
+                            <div className="col-span-2">
+                                <label htmlFor={`extractor-pattern-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Answer Pattern</label>
+                                <input
+                                    type="text"
+                                    id={`extractor-pattern-${config.id}`}
+                                    value={deepConfSettings.answerExtractor.pattern ?? ''}
+                                    onChange={(e) => handleSettingChange({ answerExtractor: { ...deepConfSettings.answerExtractor, pattern: e.target.value } })}
+                                    disabled={disabled}
+                                    placeholder="Final answer:\s*(.+)"
+                                    className="w-full p-1.5 text-sm font-mono bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                                    title="JavaScript regular expression. The first capture group of the last match is the answer, or the whole match if there are no groups."
+                                />
+                            </div>
+                        }
+                        {deepConfSettings.answerExtractor.kind === 'json-path' &&
+                            <div className="col-span-2">
+                                <label htmlFor={`extractor-path-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">JSON Field Path</label>
+                                <input
+                                    type="text"
+                                    id={`extractor-path-${config.id}`}
+                                    value={deepConfSettings.answerExtractor.path ?? ''}
+                                    onChange={(e) => handleSettingChange({ answerExtractor: { ...deepConfSettings.answerExtractor, path: e.target.value } })}
+                                    disabled={disabled}
+                                    placeholder="result.answer"
+                                    className="w-full p-1.5 text-sm font-mono bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                                    title="Dot path into the JSON in each trace, e.g. result.answer or items[0].id. Leave empty to compare whole documents."
+                                />
+                            </div>
+                        }
+                        <div>
+                            <label htmlFor={`vote-mode-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Vote Mode</label>
+                            <select
+                                id={`vote-mode-${config.id}`}
+                                value={deepConfSettings.voteMode}
+                                onChange={(e) => handleSettingChange({ voteMode: e.target.value as VoteMode })}
+                                disabled={disabled}
+                                className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"
+                                title="Exact counts only identical answers together. Semantic clusters similar answers and weights each cluster by confidence, for open-ended prompts."
+                            >
+                                <option value="exact">Exact Match</option>
+                                <option value="semantic">Semantic Clusters</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor={`vote-similarity-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Similarity</label>
+                            <select
+                                id={`vote-similarity-${config.id}`}
+                                value={deepConfSettings.voteSimilarity}
+                                onChange={(e) => handleSettingChange({ voteSimilarity: e.target.value as VoteSimilarity })}
+                                disabled={disabled || deepConfSettings.voteMode !== 'semantic'}
+                                className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-70 disabled:cursor-not-allowed"
+                                title="How semantic voting compares answers. Word Overlap runs locally; embeddings use the provider's API key and fall back to word overlap if they fail."
+                            >
+                                <option value="lexical">Word Overlap</option>
+                                <option value="gemini">Gemini Embeddings</option>
+                                <option value="openai">OpenAI Embeddings</option>
+                            </select>
+                        </div>
                     </>
                 }
 
@@ -315,6 +463,36 @@ const AgentConfigCard: React.FC<AgentConfigCardProps> = ({ config, onUpdate, onR
                             </select>
                         </div>
                     </div>
+                ) : config.provider === 'anthropic' ? (
+                    <div className="col-span-2 grid grid-cols-3 gap-3">
+                        <div>
+                            <label htmlFor={`anthropic-thinking-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Thinking Budget</label>
+                            <NumericInput type="number" id={`anthropic-thinking-${config.id}`} value={config.settings.thinkingBudget} onCommit={(value) => handleSettingChange({ thinkingBudget: value > 0 ? Math.max(value, MIN_ANTHROPIC_THINKING_BUDGET) : 0 })} parser={(v) => parseInt(v, 10)} disabled={disabled} min="0" step="1024" className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]" title={`Extended thinking tokens. 0 turns thinking off; otherwise at least ${MIN_ANTHROPIC_THINKING_BUDGET}.`}/>
+                        </div>
+                        <div>
+                            <label htmlFor={`anthropic-max-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Max Tokens</label>
+                            <NumericInput type="number" id={`anthropic-max-${config.id}`} value={config.settings.maxTokens} onCommit={(value) => handleSettingChange({ maxTokens: Math.max(value, 1) })} parser={(v) => parseInt(v, 10)} disabled={disabled} min="1" step="256" className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]" title="Answer tokens, not counting the thinking budget."/>
+                        </div>
+                        <div>
+                            <label htmlFor={`anthropic-temp-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Temperature</label>
+                            <NumericInput type="number" id={`anthropic-temp-${config.id}`} value={config.settings.temperature} onCommit={(value) => handleSettingChange({ temperature: value })} parser={(v) => parseFloat(v)} disabled={disabled || config.settings.thinkingBudget > 0} min="0" max="1" step="0.1" className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-70" title={config.settings.thinkingBudget > 0 ? "Temperature cannot be changed while extended thinking is on." : "Sampling temperature."}/>
+                        </div>
+                    </div>
+                ) : config.provider === 'custom' ? (
+                    <div className="col-span-2 grid grid-cols-3 gap-3">
+                        <div>
+                            <label htmlFor={`custom-temp-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Temperature</label>
+                            <NumericInput type="number" id={`custom-temp-${config.id}`} value={config.settings.temperature} onCommit={(value) => handleSettingChange({ temperature: value })} parser={(v) => parseFloat(v)} disabled={disabled} min="0" max="2" step="0.1" className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"/>
+                        </div>
+                        <div>
+                            <label htmlFor={`custom-topp-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Top P</label>
+                            <NumericInput type="number" id={`custom-topp-${config.id}`} value={config.settings.topP} onCommit={(value) => handleSettingChange({ topP: value })} parser={(v) => parseFloat(v)} disabled={disabled} min="0" max="1" step="0.05" className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]"/>
+                        </div>
+                        <div>
+                            <label htmlFor={`custom-max-${config.id}`} className="block text-sm font-medium text-[var(--text-muted)] mb-1">Max Tokens</label>
+                            <NumericInput type="number" id={`custom-max-${config.id}`} value={config.settings.maxTokens ?? 0} onCommit={(value) => handleSettingChange({ maxTokens: value > 0 ? value : undefined })} parser={(v) => parseInt(v, 10)} disabled={disabled} min="0" step="64" className="w-full p-1.5 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-md focus:ring-2 focus:ring-[var(--accent)]" title="0 leaves the limit to the server."/>
+                        </div>
+                    </div>
                 ) : ( // OpenRouter Settings
                      <div className="col-span-2 grid grid-cols-2 gap-3">
                         <div>
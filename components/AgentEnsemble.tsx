@@ -13,13 +13,14 @@ interface AgentEnsembleProps {
     setAgentConfigs: React.Dispatch<React.SetStateAction<AgentConfig[]>>;
     onDuplicateAgent: (id: string) => void;
     disabled: boolean;
+    customModels: string[];
 }
 
 export interface AgentEnsembleHandles {
     openModal: () => void;
 }
 
-const AgentEnsemble = forwardRef<AgentEnsembleHandles, AgentEnsembleProps>(({ agentConfigs, setAgentConfigs, onDuplicateAgent, disabled }, ref) => {
+const AgentEnsemble = forwardRef<AgentEnsembleHandles, AgentEnsembleProps>(({ agentConfigs, setAgentConfigs, onDuplicateAgent, disabled, customModels }, ref) => {
     const [isModalOpen, setIsModalOpen] = useState(false);
 
     useImperativeHandle(ref, () => ({
@@ -41,6 +42,9 @@ const AgentEnsemble = forwardRef<AgentEnsembleHandles, AgentEnsembleProps>(({ ag
                 deepConfEta: 90,
                 tau: 0.95,
                 groupWindow: 2048,
+                answerExtractor: { kind: 'full-text' },
+                voteMode: 'exact',
+                voteSimilarity: 'lexical',
             },
         };
         setAgentConfigs(prev => [...prev, newAgent]);
@@ -83,6 +87,7 @@ const AgentEnsemble = forwardRef<AgentEnsembleHandles, AgentEnsembleProps>(({ ag
                             onDuplicate={onDuplicateAgent}
                             disabled={disabled}
                             displayId={idx + 1}
+                            customModels={customModels}
                         />
                     ))
                 ) : (
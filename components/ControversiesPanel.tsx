@@ -0,0 +1,40 @@
+import React from 'react';
+import { Controversy } from '@/types';
+import CollapsibleSection from './CollapsibleSection';
+
+interface ControversiesPanelProps {
+  controversies: Controversy[];
+  /** Agent number shown on each agent card, keyed by agent id. */
+  agentDisplayIds: Record<string, number>;
+}
+
+const ControversiesPanel: React.FC<ControversiesPanelProps> = ({ controversies, agentDisplayIds }) => {
+  const agentNames = (agentIds: string[]) =>
+    agentIds.map(id => (agentDisplayIds[id] ? `Agent ${agentDisplayIds[id]}` : id)).join(', ') || 'Unknown agents';
+
+  return (
+    <CollapsibleSection title={`Controversies (${controversies.length})`}>
+      <ul className="px-4 pb-4 space-y-4">
+        {controversies.map((controversy, i) => (
+          <li key={i} className="bg-[var(--surface-2)] border border-[var(--line)] rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold text-sm text-[var(--text)]">{controversy.topic}</h3>
+            <ul className="space-y-2">
+              {controversy.positions.map((position, j) => (
+                <li key={j} className="text-sm text-[var(--text)]">
+                  <span className="text-xs font-bold text-[var(--accent)] mr-2">{agentNames(position.agentIds)}</span>
+                  {position.stance}
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-[var(--text-muted)]">
+              <span className="font-semibold">Resolution: </span>
+              {controversy.resolution}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </CollapsibleSection>
+  );
+};
+
+export default ControversiesPanel;
@@ -1,13 +1,57 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { SparklesIcon } from './icons';
+import { AttributionSources } from '@/types';
+import { parseAttributedAnswer } from '@/moe/attribution';
+import JsonTreeView from './JsonTreeView';
 
 interface FinalAnswerCardProps extends React.HTMLAttributes<HTMLDivElement> {
   answer: string;
   title?: string;
   isStreaming?: boolean;
+  /** When set, `[A]`-style markers in the answer render as chips citing these drafts. */
+  attributionSources?: AttributionSources | null;
+  /** Agent number shown on each agent card, keyed by agent id. */
+  agentDisplayIds?: Record<string, number>;
+  /** Called with the cited agent ids while a chip is hovered or focused, and with [] afterwards. */
+  onHighlightAgents?: (agentIds: string[]) => void;
+  /** Renders a finished answer that parses as JSON as a tree. */
+  structured?: boolean;
 }
 
-const FinalAnswerCard: React.FC<FinalAnswerCardProps> = ({ answer, title = "Arbiter's Final Answer", isStreaming = false, className, ...rest }) => {
+const AttributionChip: React.FC<{
+  label: string;
+  agentIds: string[];
+  agentDisplayIds: Record<string, number>;
+  onHighlightAgents?: (agentIds: string[]) => void;
+}> = ({ label, agentIds, agentDisplayIds, onHighlightAgents }) => {
+  const agentNames = agentIds.map(id => (agentDisplayIds[id] ? `Agent ${agentDisplayIds[id]}` : id)).join(', ');
+  return (
+    <button
+      type="button"
+      className="mx-0.5 px-1.5 py-0.5 rounded-full text-xs font-sans font-bold align-middle bg-[var(--surface-1)] text-[var(--accent)] border border-[var(--line)] hover:bg-[var(--surface-active)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+      title={`From ${agentNames}`}
+      aria-label={`Draft ${label}, from ${agentNames}`}
+      onMouseEnter={() => onHighlightAgents?.(agentIds)}
+      onMouseLeave={() => onHighlightAgents?.([])}
+      onFocus={() => onHighlightAgents?.(agentIds)}
+      onBlur={() => onHighlightAgents?.([])}
+    >
+      {label}
+    </button>
+  );
+};
+
+const FinalAnswerCard: React.FC<FinalAnswerCardProps> = ({
+  answer,
+  title = "Arbiter's Final Answer",
+  isStreaming = false,
+  attributionSources,
+  agentDisplayIds = {},
+  onHighlightAgents,
+  structured = false,
+  className,
+  ...rest
+}) => {
   const [displayedAnswer, setDisplayedAnswer] = useState('');
   const animationIntervalRef = useRef<number | null>(null);
 
@@ -61,6 +105,20 @@ const FinalAnswerCard: React.FC<FinalAnswerCardProps> = ({ answer, title = "Arbi
 
   }, [answer, isStreaming]);
 
+  const segments = useMemo(
+    () => (attributionSources ? parseAttributedAnswer(displayedAnswer, attributionSources) : null),
+    [displayedAnswer, attributionSources]
+  );
+
+  const structuredValue = useMemo(() => {
+    if (!structured || isStreaming || !displayedAnswer) return undefined;
+    try {
+      return JSON.parse(displayedAnswer) as unknown;
+    } catch {
+      return undefined;
+    }
+  }, [structured, isStreaming, displayedAnswer]);
+
   const hasContent = displayedAnswer || isStreaming;
   const showCursor = isStreaming && (!animationIntervalRef.current || displayedAnswer.length === answer.length);
 
@@ -76,9 +134,26 @@ const FinalAnswerCard: React.FC<FinalAnswerCardProps> = ({ answer, title = "Arbi
         </div>
         {/* Content */}
         <div className="p-4 flex-grow min-h-0 overflow-y-auto max-h-[70vh]">
-            {hasContent ? (
+            {structuredValue !== undefined ? (
+                <JsonTreeView value={structuredValue} />
+            ) : hasContent ? (
                 <p className="text-[var(--text)] whitespace-pre-wrap font-serif leading-relaxed">
-                    {displayedAnswer}
+                    {segments
+                        ? segments.map((segment, i) => (
+                            <React.Fragment key={i}>
+                                {segment.text}
+                                {segment.labels.map(label => (
+                                    <AttributionChip
+                                        key={label}
+                                        label={label}
+                                        agentIds={attributionSources![label]}
+                                        agentDisplayIds={agentDisplayIds}
+                                        onHighlightAgents={onHighlightAgents}
+                                    />
+                                ))}
+                            </React.Fragment>
+                        ))
+                        : displayedAnswer}
                     {showCursor && <span className="inline-block w-2 h-5 bg-[var(--accent)] animate-pulse ml-1" />}
                 </p>
             ) : (
@@ -0,0 +1,41 @@
+import React from 'react';
+
+interface JsonTreeViewProps {
+  value: unknown;
+  /** Property name or array index shown before the value. */
+  name?: string;
+}
+
+const renderPrimitive = (value: unknown) => {
+  if (typeof value === 'string') return <span className="text-[var(--text)]">"{value}"</span>;
+  return <span className="text-[var(--accent)]">{value === null ? 'null' : String(value)}</span>;
+};
+
+/** Collapsible view of a parsed JSON value; objects and arrays start expanded. */
+const JsonTreeView: React.FC<JsonTreeViewProps> = ({ value, name }) => {
+  const label = name !== undefined && <span className="text-[var(--text-muted)]">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return <div className="font-mono text-sm py-0.5">{label}{renderPrimitive(value)}</div>;
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, i) => [String(i), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <details open className="font-mono text-sm">
+      <summary className="cursor-pointer py-0.5 select-none">
+        {label}<span className="text-[var(--text-muted)]">{summary}</span>
+      </summary>
+      <div className="pl-4 border-l border-[var(--line)] ml-1">
+        {entries.map(([key, item]) => (
+          <JsonTreeView key={key} name={key} value={item} />
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default JsonTreeView;
@@ -9,14 +9,21 @@ import {
     ClockIcon,
     DocumentDuplicateIcon,
     XMarkIcon,
-    SlidersHorizontalIcon
+    SlidersHorizontalIcon,
+    SparklesIcon,
+    CogIcon,
+    LoadingSpinner
 } from './icons';
 import SegmentedControl from './SegmentedControl';
+import NumericInput from './NumericInput';
 import { useTheme, ThemeName } from '@/lib/ThemeContext';
+import { RateLimit, SchedulerConfig } from '@/services/scheduler';
+import { ApiProvider, ArbiterTemplate, CustomEndpointSettings } from '@/types';
+import { ARBITER_TEMPLATE_PLACEHOLDERS, ARBITER_TEMPLATE_PRESETS } from '@/moe/arbiterTemplates';
 
 // --- SECTION DEFINITIONS ---
 
-type SectionId = 'api-keys' | 'session' | 'appearance' | 'history';
+type SectionId = 'api-keys' | 'custom-endpoint' | 'rate-limits' | 'arbiter-templates' | 'session' | 'appearance' | 'history';
 
 interface Section {
     id: SectionId;
@@ -32,6 +39,24 @@ const sections: Section[] = [
         icon: KeyIcon,
         description: "Manage your API keys. They're stored in your browser and never sent to our servers." 
     },
+    {
+        id: 'custom-endpoint',
+        label: 'Custom Endpoint',
+        icon: CogIcon,
+        description: 'Point agents at any OpenAI-compatible server, such as llama.cpp, vLLM, Ollama or LM Studio. Discovered models appear in the agent and arbiter model lists.'
+    },
+    {
+        id: 'rate-limits',
+        label: 'Rate Limits',
+        icon: SlidersHorizontalIcon,
+        description: 'Cap concurrent requests, requests per minute and tokens per minute for each provider. Agents, DeepConf judges and the arbiter share these limits. Use 0 for unlimited.'
+    },
+    {
+        id: 'arbiter-templates',
+        label: 'Arbiter Templates',
+        icon: SparklesIcon,
+        description: 'Edit the persona and prompt the arbiter uses to synthesize the final answer. Pick a template under Arbiter Settings; templates are saved with your session.'
+    },
     {
         id: 'session',
         label: 'Session Management',
@@ -63,6 +88,17 @@ interface SettingsViewProps {
     currentGeminiApiKey: string;
     onSaveOpenRouterApiKey: (apiKey: string) => void;
     currentOpenRouterApiKey: string;
+    onSaveAnthropicApiKey: (apiKey: string) => void;
+    currentAnthropicApiKey: string;
+    currentCustomEndpoint: CustomEndpointSettings;
+    onSaveCustomEndpoint: (endpoint: CustomEndpointSettings) => void;
+    customModels: string[];
+    /** Re-lists the saved endpoint's models; rejects with the endpoint's error. */
+    onDiscoverCustomModels: () => Promise<void>;
+    schedulerConfig: SchedulerConfig;
+    onSaveSchedulerConfig: (config: SchedulerConfig) => void;
+    arbiterTemplates: ArbiterTemplate[];
+    onSaveArbiterTemplates: (templates: ArbiterTemplate[]) => void;
     onSaveSession: () => void;
     onLoadSession: (file: File) => void;
     queryHistory: string[];
@@ -71,29 +107,35 @@ interface SettingsViewProps {
 
 // --- SECTION CONTENT COMPONENTS ---
 
-const ApiKeySection: React.FC<Pick<SettingsViewProps, 'currentOpenAIApiKey' | 'onSaveOpenAIApiKey' | 'currentGeminiApiKey' | 'onSaveGeminiApiKey' | 'currentOpenRouterApiKey' | 'onSaveOpenRouterApiKey'>> = ({ 
+const ApiKeySection: React.FC<Pick<SettingsViewProps, 'currentOpenAIApiKey' | 'onSaveOpenAIApiKey' | 'currentGeminiApiKey' | 'onSaveGeminiApiKey' | 'currentOpenRouterApiKey' | 'onSaveOpenRouterApiKey' | 'currentAnthropicApiKey' | 'onSaveAnthropicApiKey'>> = ({ 
     currentOpenAIApiKey, 
     onSaveOpenAIApiKey,
     currentGeminiApiKey,
     onSaveGeminiApiKey,
     currentOpenRouterApiKey,
-    onSaveOpenRouterApiKey
+    onSaveOpenRouterApiKey,
+    currentAnthropicApiKey,
+    onSaveAnthropicApiKey
 }) => {
     const [openAIKey, setOpenAIKey] = useState(currentOpenAIApiKey);
     const [geminiKey, setGeminiKey] = useState(currentGeminiApiKey);
     const [openRouterKey, setOpenRouterKey] = useState(currentOpenRouterApiKey);
+    const [anthropicKey, setAnthropicKey] = useState(currentAnthropicApiKey);
 
     const openAIId = useId();
     const geminiId = useId();
     const openRouterId = useId();
+    const anthropicId = useId();
 
     useEffect(() => { setOpenAIKey(currentOpenAIApiKey); }, [currentOpenAIApiKey]);
     useEffect(() => { setGeminiKey(currentGeminiApiKey); }, [currentGeminiApiKey]);
     useEffect(() => { setOpenRouterKey(currentOpenRouterApiKey); }, [currentOpenRouterApiKey]);
+    useEffect(() => { setAnthropicKey(currentAnthropicApiKey); }, [currentAnthropicApiKey]);
 
     const handleSaveOpenAI = () => onSaveOpenAIApiKey(openAIKey);
     const handleSaveGemini = () => onSaveGeminiApiKey(geminiKey);
     const handleSaveOpenRouter = () => onSaveOpenRouterApiKey(openRouterKey);
+    const handleSaveAnthropic = () => onSaveAnthropicApiKey(anthropicKey);
 
     return (
         <div className="space-y-6">
@@ -168,6 +210,391 @@ const ApiKeySection: React.FC<Pick<SettingsViewProps, 'currentOpenAIApiKey' | 'o
                     </button>
                 </div>
             </div>
+
+            <div>
+                <label htmlFor={anthropicId} className="block text-sm font-medium text-[var(--text)] mb-2">
+                    Anthropic API Key
+                </label>
+                <div className="flex gap-2">
+                    <input
+                        id={anthropicId}
+                        type="password"
+                        value={anthropicKey}
+                        onChange={(e) => setAnthropicKey(e.target.value)}
+                        placeholder="sk-ant-..."
+                        className="flex-grow p-2 bg-[var(--surface-1)] border border-[var(--line)] rounded-lg focus:ring-2 focus:ring-[var(--accent)] focus:border-[var(--accent)] transition"
+                    />
+                    <button
+                        onClick={handleSaveAnthropic}
+                        type="button"
+                        className="px-4 py-2 bg-[var(--accent)] text-[#0D1411] font-semibold rounded-lg shadow-md hover:brightness-110 disabled:bg-[var(--surface-1)] disabled:text-[var(--text-muted)] transition-colors"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const CustomEndpointSection: React.FC<Pick<SettingsViewProps, 'currentCustomEndpoint' | 'onSaveCustomEndpoint' | 'customModels' | 'onDiscoverCustomModels'>> = ({
+    currentCustomEndpoint,
+    onSaveCustomEndpoint,
+    customModels,
+    onDiscoverCustomModels
+}) => {
+    const [baseUrl, setBaseUrl] = useState(currentCustomEndpoint.baseUrl);
+    const [apiKey, setApiKey] = useState(currentCustomEndpoint.apiKey);
+    const [isDiscovering, setIsDiscovering] = useState(false);
+    const [discoveryError, setDiscoveryError] = useState<string | null>(null);
+
+    const baseUrlId = useId();
+    const apiKeyId = useId();
+
+    useEffect(() => { setBaseUrl(currentCustomEndpoint.baseUrl); }, [currentCustomEndpoint.baseUrl]);
+    useEffect(() => { setApiKey(currentCustomEndpoint.apiKey); }, [currentCustomEndpoint.apiKey]);
+
+    const handleDiscover = async () => {
+        setIsDiscovering(true);
+        setDiscoveryError(null);
+        try {
+            await onDiscoverCustomModels();
+        } catch (error) {
+            setDiscoveryError(error instanceof Error ? error.message : 'Model discovery failed.');
+        } finally {
+            setIsDiscovering(false);
+        }
+    };
+
+    const handleSave = () => {
+        onSaveCustomEndpoint({ baseUrl, apiKey });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <label htmlFor={baseUrlId} className="block text-sm font-medium text-[var(--text)] mb-2">
+                    Base URL
+                </label>
+                <input
+                    id={baseUrlId}
+                    type="url"
+                    value={baseUrl}
+                    onChange={(e) => setBaseUrl(e.target.value)}
+                    placeholder="http://localhost:8080/v1"
+                    className="w-full p-2 bg-[var(--surface-1)] border border-[var(--line)] rounded-lg focus:ring-2 focus:ring-[var(--accent)] focus:border-[var(--accent)] transition"
+                />
+                <p className="text-xs text-[var(--text-muted)] mt-2">
+                    Include the version prefix; requests go to <code>/chat/completions</code> and <code>/models</code> under it. The server must allow CORS from this page.
+                </p>
+            </div>
+
+            <div>
+                <label htmlFor={apiKeyId} className="block text-sm font-medium text-[var(--text)] mb-2">
+                    API Key (optional)
+                </label>
+                <input
+                    id={apiKeyId}
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder="Leave blank if the server has no auth"
+                    className="w-full p-2 bg-[var(--surface-1)] border border-[var(--line)] rounded-lg focus:ring-2 focus:ring-[var(--accent)] focus:border-[var(--accent)] transition"
+                />
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={handleSave}
+                    type="button"
+                    className="px-4 py-2 bg-[var(--accent)] text-[#0D1411] font-semibold rounded-lg shadow-md hover:brightness-110 disabled:bg-[var(--surface-1)] disabled:text-[var(--text-muted)] transition-colors"
+                >
+                    Save
+                </button>
+                <button
+                    onClick={handleDiscover}
+                    type="button"
+                    disabled={isDiscovering || !currentCustomEndpoint.baseUrl}
+                    className="flex items-center gap-2 px-4 py-2 bg-[var(--surface-2)] text-[var(--text)] font-semibold rounded-lg shadow-md hover:bg-[var(--surface-active)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    {isDiscovering && <LoadingSpinner className="w-4 h-4" />}
+                    Discover Models
+                </button>
+            </div>
+
+            {discoveryError && (
+                <p role="alert" className="text-sm text-danger">{discoveryError}</p>
+            )}
+
+            <div>
+                <h4 className="mb-2">Available Models</h4>
+                {customModels.length > 0 ? (
+                    <ul className="space-y-1 max-h-48 overflow-y-auto">
+                        {customModels.map(model => (
+                            <li key={model} className="px-3 py-1.5 text-sm font-mono bg-[var(--surface-1)] border border-[var(--line)] rounded-md">{model}</li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-[var(--text-muted)]">No models discovered yet. Save a base URL, then discover its models.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const RATE_LIMIT_PROVIDERS: { provider: ApiProvider; label: string }[] = [
+    { provider: 'gemini', label: 'Google Gemini' },
+    { provider: 'openai', label: 'OpenAI' },
+    { provider: 'openrouter', label: 'OpenRouter' },
+    { provider: 'anthropic', label: 'Anthropic' },
+    { provider: 'custom', label: 'Custom Endpoint' },
+];
+
+const RATE_LIMIT_FIELDS: { key: keyof RateLimit; label: string }[] = [
+    { key: 'maxConcurrency', label: 'Concurrency' },
+    { key: 'requestsPerMinute', label: 'Requests / min' },
+    { key: 'tokensPerMinute', label: 'Tokens / min' },
+];
+
+const RateLimitFields: React.FC<{ idPrefix: string; limit: RateLimit | undefined; onCommit: (key: keyof RateLimit, value: number) => void }> = ({ idPrefix, limit, onCommit }) => (
+    <div className="grid grid-cols-3 gap-2">
+        {RATE_LIMIT_FIELDS.map(({ key, label }) => {
+            const inputId = `${idPrefix}-${key}`;
+            return (
+                <div key={key}>
+                    <label htmlFor={inputId} className="block text-xs font-medium text-[var(--text-muted)] mb-1">
+                        {label}
+                    </label>
+                    <NumericInput
+                        id={inputId}
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={limit?.[key] ?? 0}
+                        parser={(v) => parseInt(v, 10)}
+                        onCommit={(value) => onCommit(key, value)}
+                        className="w-full p-2 bg-[var(--surface-1)] border border-[var(--line)] rounded-lg focus:ring-2 focus:ring-[var(--accent)] focus:border-[var(--accent)] transition"
+                    />
+                </div>
+            );
+        })}
+    </div>
+);
+
+const RateLimitsSection: React.FC<Pick<SettingsViewProps, 'schedulerConfig' | 'onSaveSchedulerConfig'>> = ({ schedulerConfig, onSaveSchedulerConfig }) => {
+    const baseId = useId();
+    const [newModel, setNewModel] = useState('');
+    const trimmedNewModel = newModel.trim();
+
+    // A zero clears the limit.
+    const withLimit = (limit: RateLimit | undefined, key: keyof RateLimit, value: number): RateLimit =>
+        ({ ...limit, [key]: value > 0 ? value : undefined });
+
+    const handleCommit = (provider: ApiProvider, key: keyof RateLimit, value: number) => {
+        onSaveSchedulerConfig({
+            ...schedulerConfig,
+            providers: {
+                ...schedulerConfig.providers,
+                [provider]: withLimit(schedulerConfig.providers[provider], key, value),
+            },
+        });
+    };
+
+    const handleModelCommit = (model: string, key: keyof RateLimit, value: number) => {
+        onSaveSchedulerConfig({
+            ...schedulerConfig,
+            models: { ...schedulerConfig.models, [model]: withLimit(schedulerConfig.models[model], key, value) },
+        });
+    };
+
+    const handleAddModel = () => {
+        if (!trimmedNewModel || trimmedNewModel in schedulerConfig.models) return;
+        onSaveSchedulerConfig({ ...schedulerConfig, models: { ...schedulerConfig.models, [trimmedNewModel]: {} } });
+        setNewModel('');
+    };
+
+    const handleRemoveModel = (model: string) => {
+        const models = Object.fromEntries(Object.entries(schedulerConfig.models).filter(([id]) => id !== model));
+        onSaveSchedulerConfig({ ...schedulerConfig, models });
+    };
+
+    return (
+        <div className="space-y-6">
+            {RATE_LIMIT_PROVIDERS.map(({ provider, label }) => (
+                <div key={provider}>
+                    <h4 className="mb-2">{label}</h4>
+                    <RateLimitFields
+                        idPrefix={`${baseId}-${provider}`}
+                        limit={schedulerConfig.providers[provider]}
+                        onCommit={(key, value) => handleCommit(provider, key, value)}
+                    />
+                </div>
+            ))}
+
+            <div className="space-y-4">
+                <div>
+                    <h4 className="mb-1">Per-Model Overrides</h4>
+                    <p className="text-sm text-[var(--text-muted)]">Requests to these models must also fit their own limits, on top of their provider's.</p>
+                </div>
+                {Object.entries(schedulerConfig.models).map(([model, limit], index) => (
+                    <div key={model}>
+                        <div className="flex items-center justify-between gap-2 mb-2">
+                            <span className="text-sm font-mono truncate">{model}</span>
+                            <button
+                                onClick={() => handleRemoveModel(model)}
+                                type="button"
+                                aria-label={`Remove override for ${model}`}
+                                className="p-1 text-[var(--text-muted)] hover:text-[var(--text)] rounded-md transition-colors"
+                            >
+                                <XMarkIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <RateLimitFields
+                            idPrefix={`${baseId}-model-${index}`}
+                            limit={limit}
+                            onCommit={(key, value) => handleModelCommit(model, key, value)}
+                        />
+                    </div>
+                ))}
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        aria-label="Model id"
+                        value={newModel}
+                        onChange={(e) => setNewModel(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAddModel(); }}
+                        placeholder="Model id, e.g. gpt-5-mini"
+                        className="flex-grow p-2 text-sm font-mono bg-[var(--surface-1)] border border-[var(--line)] rounded-lg focus:ring-2 focus:ring-[var(--accent)] focus:border-[var(--accent)] transition"
+                    />
+                    <button
+                        onClick={handleAddModel}
+                        type="button"
+                        disabled={!trimmedNewModel || trimmedNewModel in schedulerConfig.models}
+                        className="px-3 py-2 text-sm bg-[var(--surface-1)] text-[var(--text)] font-semibold rounded-lg hover:bg-[var(--surface-active)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Add Override
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ArbiterTemplatesSection: React.FC<Pick<SettingsViewProps, 'arbiterTemplates' | 'onSaveArbiterTemplates'>> = ({ arbiterTemplates, onSaveArbiterTemplates }) => {
+    const [selectedId, setSelectedId] = useState(arbiterTemplates[0]?.id ?? '');
+    const selected = arbiterTemplates.find(t => t.id === selectedId) ?? arbiterTemplates[0];
+    const [draft, setDraft] = useState<ArbiterTemplate | undefined>(selected);
+    const baseId = useId();
+
+    useEffect(() => { setDraft(selected); }, [selected]);
+
+    const isDirty = !!draft && !!selected && JSON.stringify(draft) !== JSON.stringify(selected);
+    const fieldClassName = "w-full p-2 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-lg focus:ring-2 focus:ring-[var(--accent)] focus:border-[var(--accent)] transition";
+
+    const handleSave = () => {
+        if (draft) onSaveArbiterTemplates(arbiterTemplates.map(t => (t.id === draft.id ? draft : t)));
+    };
+
+    const handleDuplicate = () => {
+        if (!draft) return;
+        const copy = { ...draft, id: `custom-${Date.now()}`, name: `${draft.name} (copy)` };
+        onSaveArbiterTemplates([...arbiterTemplates, copy]);
+        setSelectedId(copy.id);
+    };
+
+    const handleDelete = () => {
+        if (!selected || arbiterTemplates.length < 2) return;
+        const remaining = arbiterTemplates.filter(t => t.id !== selected.id);
+        onSaveArbiterTemplates(remaining);
+        setSelectedId(remaining[0].id);
+    };
+
+    // Puts the built-in presets back as shipped; custom templates are kept.
+    const handleRestorePresets = () => {
+        const presetIds = new Set(ARBITER_TEMPLATE_PRESETS.map(t => t.id));
+        onSaveArbiterTemplates([...ARBITER_TEMPLATE_PRESETS, ...arbiterTemplates.filter(t => !presetIds.has(t.id))]);
+    };
+
+    const fields: { key: 'persona' | 'highEffortModifier' | 'userPrompt'; label: string; rows: number }[] = [
+        { key: 'persona', label: 'Persona (system prompt)', rows: 6 },
+        { key: 'highEffortModifier', label: 'High reasoning effort addendum (OpenAI models)', rows: 3 },
+        { key: 'userPrompt', label: 'User prompt', rows: 6 },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+                <select
+                    aria-label="Template to edit"
+                    value={selected?.id ?? ''}
+                    onChange={(e) => setSelectedId(e.target.value)}
+                    className="flex-grow p-2 text-sm bg-[var(--surface-1)] border border-[var(--line)] rounded-lg focus:ring-2 focus:ring-[var(--accent)]"
+                >
+                    {arbiterTemplates.map(t => <option key={t.id} value={t.id}>{t.name || t.id}</option>)}
+                </select>
+                <button onClick={handleDuplicate} type="button" className="px-3 py-2 text-sm bg-[var(--surface-1)] text-[var(--text)] font-semibold rounded-lg hover:bg-[var(--surface-active)] transition-colors">
+                    Duplicate
+                </button>
+                <button onClick={handleDelete} type="button" disabled={arbiterTemplates.length < 2} className="px-3 py-2 text-sm bg-[var(--surface-1)] text-[var(--text)] font-semibold rounded-lg hover:bg-[var(--surface-active)] disabled:text-[var(--text-muted)] transition-colors">
+                    Delete
+                </button>
+                <button onClick={handleRestorePresets} type="button" className="px-3 py-2 text-sm bg-[var(--surface-1)] text-[var(--text)] font-semibold rounded-lg hover:bg-[var(--surface-active)] transition-colors">
+                    Restore Presets
+                </button>
+            </div>
+
+            {draft && (
+                <>
+                    <div>
+                        <label htmlFor={`${baseId}-name`} className="block text-sm font-medium text-[var(--text)] mb-2">Name</label>
+                        <input
+                            id={`${baseId}-name`}
+                            type="text"
+                            value={draft.name}
+                            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            className={fieldClassName}
+                        />
+                    </div>
+                    {fields.map(({ key, label, rows }) => (
+                        <div key={key}>
+                            <label htmlFor={`${baseId}-${key}`} className="block text-sm font-medium text-[var(--text)] mb-2">{label}</label>
+                            <textarea
+                                id={`${baseId}-${key}`}
+                                rows={rows}
+                                value={draft[key]}
+                                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                                className={`${fieldClassName} font-mono`}
+                            />
+                        </div>
+                    ))}
+                    <div className="text-xs text-[var(--text-muted)]">
+                        <p className="mb-1">Placeholders for the user prompt:</p>
+                        <ul className="space-y-0.5">
+                            {Object.entries(ARBITER_TEMPLATE_PLACEHOLDERS).map(([name, description]) => (
+                                <li key={name}><code>{`{{${name}}}`}</code> {description}</li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleSave}
+                            type="button"
+                            disabled={!isDirty}
+                            className="px-4 py-2 bg-[var(--accent)] text-[#0D1411] font-semibold rounded-lg shadow-md hover:brightness-110 disabled:bg-[var(--surface-1)] disabled:text-[var(--text-muted)] transition-colors"
+                        >
+                            Save
+                        </button>
+                        <button
+                            onClick={() => setDraft(selected)}
+                            type="button"
+                            disabled={!isDirty}
+                            className="px-4 py-2 bg-[var(--surface-1)] text-[var(--text)] font-semibold rounded-lg hover:bg-[var(--surface-active)] disabled:text-[var(--text-muted)] transition-colors"
+                        >
+                            Discard
+                        </button>
+                    </div>
+                </>
+            )}
         </div>
     );
 };
@@ -327,6 +754,9 @@ const SettingsView: React.FC<SettingsViewProps> = (props) => {
     const renderSectionContent = (sectionId: SectionId) => {
         switch(sectionId) {
             case 'api-keys': return <ApiKeySection {...props} />;
+            case 'custom-endpoint': return <CustomEndpointSection {...props} />;
+            case 'rate-limits': return <RateLimitsSection {...props} />;
+            case 'arbiter-templates': return <ArbiterTemplatesSection {...props} />;
             case 'session': return <SessionSection {...props} />;
             case 'appearance': return <AppearanceSection />;
             case 'history': return <HistorySection {...props} />;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { VerifierPass } from '@/types';
+import CollapsibleSection from './CollapsibleSection';
+
+interface VerifierPanelProps {
+  passes: VerifierPass[];
+  threshold: number;
+}
+
+const VerifierPanel: React.FC<VerifierPanelProps> = ({ passes, threshold }) => {
+  const revisions = passes.length - 1;
+
+  return (
+    <CollapsibleSection title={`Verifier (${revisions} ${revisions === 1 ? 'revision' : 'revisions'})`}>
+      <ol className="px-4 pb-4 space-y-4">
+        {passes.map((pass, i) => (
+          <li key={i} className="bg-[var(--surface-2)] border border-[var(--line)] rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="font-semibold text-sm text-[var(--text)]">{i === 0 ? 'Initial answer' : `Revision ${i}`}</h3>
+              <span className={`text-xs font-bold ${pass.score >= threshold ? 'text-[var(--accent)]' : 'text-danger'}`}>
+                Score {pass.score.toFixed(2)}
+              </span>
+            </div>
+            {pass.reasons.length > 0 && (
+              <ul className="list-disc pl-5 space-y-1 text-sm text-[var(--text-muted)]">
+                {pass.reasons.map((reason, j) => <li key={j}>{reason}</li>)}
+              </ul>
+            )}
+            {i < passes.length - 1 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-[var(--text-muted)]">Show this answer</summary>
+                <p className="mt-2 text-[var(--text)] whitespace-pre-wrap">{pass.answer}</p>
+              </details>
+            )}
+          </li>
+        ))}
+      </ol>
+    </CollapsibleSection>
+  );
+};
+
+export default VerifierPanel;
@@ -22,10 +22,30 @@ export const OPENAI_GPT5_MINI_MODEL = "gpt-5-mini";
 export const OPENAI_ARBITER_MODEL = "gpt-5";
 export const OPENAI_JUDGE_MODEL = OPENAI_GPT5_MINI_MODEL; // For DeepConf judge and mini agents.
 
+// Anthropic Models
+export const ANTHROPIC_SONNET_MODEL = "claude-sonnet-4-5";
+export const ANTHROPIC_OPUS_MODEL = "claude-opus-4-1";
+export const ANTHROPIC_HAIKU_MODEL = "claude-haiku-4-5";
+export const ANTHROPIC_JUDGE_MODEL = ANTHROPIC_HAIKU_MODEL;
+
+// Embedding models used by the semantic router
+export const GEMINI_EMBEDDING_MODEL = "gemini-embedding-001";
+export const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
 // OpenRouter Models - Using popular models as examples
 export const OPENROUTER_GPT_4O = "openai/gpt-4o";
 export const OPENROUTER_GEMINI_FLASH_1_5 = "google/gemini-flash-1.5";
 export const OPENROUTER_CLAUDE_3_HAIKU = "anthropic/claude-3-haiku-20240307";
+// OpenRouter models known to accept image input.
+export const OPENROUTER_VISION_MODELS: readonly string[] = [OPENROUTER_GPT_4O, OPENROUTER_GEMINI_FLASH_1_5, OPENROUTER_CLAUDE_3_HAIKU];
+
+export const ARBITER_SELECT_BEST_PERSONA = `You are an impartial judge. Compare the candidate drafts against the original question and decide which single draft is the most accurate, complete and directly responsive. Do not rewrite or combine drafts. Reply with only the number of the best draft.`;
+
+export const ARBITER_CONTROVERSY_PERSONA = `You are an impartial analyst reviewing expert drafts and the final answer an arbiter produced from them. Identify every substantive point on which the drafts contradict each other; ignore differences in style, length or emphasis. Reply with only JSON of the form {"controversies": [{"topic": string, "positions": [{"stance": string, "drafts": number[]}], "resolution": string}]}, where "drafts" lists the draft numbers holding each stance and "resolution" explains how the final answer settled the point. Reply {"controversies": []} if the drafts agree.`;
+
+export const ARBITER_STRUCTURED_PERSONA = `You are a world-class arbiter. Merge the expert drafts, each a JSON value, into a single JSON value that matches the required schema. Prefer values that are well supported across drafts, resolve contradictions with your best judgment and fill every required field. Reply with only the JSON.`;
+
+export const ARBITER_REVISION_PERSONA = `You are a world-class arbiter and editor revising your own answer after review. Fix every problem the reviewer raised while keeping everything that was already correct. Do not mention the review or the previous version. Your output should only be the revised answer itself.`;
 
 // Prompt engineering for reasoning
 export const OPENAI_REASONING_PROMPT_PREFIX = "You are a world-class expert. Reason step-by-step before providing your answer. ";
@@ -2,9 +2,10 @@ import { Expert } from '@/types';
 
 /**
  * Normalize various shapes to a consistent Expert object.
- * Accepts keys like id|key|slug|uuid and name|title|label.
+ * Accepts keys like id|key|slug|uuid and name|title|label, plus the optional
+ * routing fields keywords, patterns, priority and alwaysInclude.
  */
-function normalizeExpert(raw: unknown): Expert | null {
+export function normalizeExpert(raw: unknown): Expert | null {
   if (typeof raw !== 'object' || raw === null) return null;
   
   const rawObj = raw as Record<string, unknown>;
@@ -30,7 +31,42 @@ function normalizeExpert(raw: unknown): Expert | null {
     return null;
   }
 
-  return { id, name, persona };
+  const expert: Expert = { id, name, persona };
+
+  const keywords = normalizeStringList(rawObj.keywords);
+  if (keywords.length > 0) expert.keywords = keywords;
+
+  const patterns = normalizeStringList(rawObj.patterns).filter(pattern => {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      console.warn(`Ignoring invalid routing pattern for expert "${id}":`, pattern);
+      return false;
+    }
+  });
+  if (patterns.length > 0) expert.patterns = patterns;
+
+  if (typeof rawObj.priority === 'number' && Number.isFinite(rawObj.priority)) {
+    expert.priority = rawObj.priority;
+  }
+  if (rawObj.alwaysInclude === true) {
+    expert.alwaysInclude = true;
+  }
+
+  return expert;
+}
+
+/**
+ * Accepts either an array of strings or a single comma-separated string,
+ * trimming entries and dropping empties.
+ */
+function normalizeStringList(raw: unknown): string[] {
+  const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  return items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
 }
 
 
@@ -3,6 +3,11 @@ import {
     GeminiAgentConfig,
     OpenAIAgentConfig,
     OpenRouterAgentConfig,
+    CustomAgentConfig,
+    CustomAgentSettings,
+    AnthropicAgentConfig,
+    AnthropicAgentSettings,
+    AnthropicModel,
     GeminiAgentSettings,
     OpenAIAgentSettings,
     OpenRouterAgentSettings,
@@ -12,9 +17,13 @@ import {
     OpenAIReasoningEffort,
     OpenAIVerbosity,
     GenerationStrategy,
+    AnswerExtractor,
+    AnswerExtractorKind,
+    VoteSimilarity,
     Expert,
     GeminiModel,
     OpenAIModel,
+    MIN_ANTHROPIC_THINKING_BUDGET,
 } from '@/types';
 import {
     GEMINI_FLASH_MODEL,
@@ -22,6 +31,9 @@ import {
     OPENAI_AGENT_MODEL,
     OPENAI_GPT5_MINI_MODEL,
     OPENROUTER_GPT_4O,
+    ANTHROPIC_SONNET_MODEL,
+    ANTHROPIC_OPUS_MODEL,
+    ANTHROPIC_HAIKU_MODEL,
 } from '@/constants';
 
 const GEMINI_MODELS: readonly GeminiModel[] = [
@@ -34,12 +46,31 @@ const OPENAI_MODELS: readonly OpenAIModel[] = [
     OPENAI_GPT5_MINI_MODEL,
 ];
 
+const ANTHROPIC_MODELS: readonly AnthropicModel[] = [
+    ANTHROPIC_SONNET_MODEL,
+    ANTHROPIC_OPUS_MODEL,
+    ANTHROPIC_HAIKU_MODEL,
+];
+
 const VALID_GENERATION_STRATEGIES: GenerationStrategy[] = [
     'single',
     'deepconf-offline',
     'deepconf-online',
 ];
 
+const VALID_ANSWER_EXTRACTORS: AnswerExtractorKind[] = [
+    'full-text',
+    'numeric',
+    'last-line',
+    'boxed',
+    'regex',
+    'code-block',
+    'multiple-choice',
+    'json-path',
+];
+
+const VALID_VOTE_SIMILARITIES: VoteSimilarity[] = ['lexical', 'gemini', 'openai'];
+
 const GEMINI_EFFORT_VALUES: readonly GeminiThinkingEffort[] = [
     'dynamic',
     'high',
@@ -80,20 +111,54 @@ const migrateOpenRouterSettings = (
     repetitionPenalty:
         typeof partial.repetitionPenalty === 'number' ? partial.repetitionPenalty : 1,
     maxTokens: typeof partial.maxTokens === 'number' ? partial.maxTokens : undefined,
+    ...migrateCommonSettings(partial),
 });
 
+const migrateCustomSettings = (
+    partial: Partial<CustomAgentSettings>,
+): CustomAgentSettings => ({
+    temperature: typeof partial.temperature === 'number' ? partial.temperature : 0.7,
+    topP: typeof partial.topP === 'number' ? partial.topP : 1,
+    maxTokens: typeof partial.maxTokens === 'number' ? partial.maxTokens : undefined,
+    ...migrateCommonSettings(partial),
+});
+
+const migrateAnthropicSettings = (
+    partial: Partial<AnthropicAgentSettings>,
+): AnthropicAgentSettings => ({
+    thinkingBudget:
+        typeof partial.thinkingBudget === 'number' &&
+        (partial.thinkingBudget === 0 || partial.thinkingBudget >= MIN_ANTHROPIC_THINKING_BUDGET)
+            ? partial.thinkingBudget
+            : 0,
+    maxTokens: typeof partial.maxTokens === 'number' && partial.maxTokens > 0 ? partial.maxTokens : 8192,
+    temperature: typeof partial.temperature === 'number' ? partial.temperature : 1,
+});
+
+// Sessions from before answer extractors voted on the whole trace text.
+const migrateAnswerExtractor = (extractor: Partial<AnswerExtractor> | undefined): AnswerExtractor => {
+    if (!extractor || !VALID_ANSWER_EXTRACTORS.includes(extractor.kind as AnswerExtractorKind)) {
+        return { kind: 'full-text' };
+    }
+    return {
+        kind: extractor.kind as AnswerExtractorKind,
+        ...(typeof extractor.pattern === 'string' && { pattern: extractor.pattern }),
+        ...(typeof extractor.path === 'string' && { path: extractor.path }),
+    };
+};
+
 const migrateCommonSettings = (
-    partial: Partial<GeminiAgentSettings | OpenAIAgentSettings>,
+    partial: Partial<GeminiAgentSettings | OpenAIAgentSettings | OpenRouterAgentSettings | CustomAgentSettings>,
 ): Pick<
     GeminiAgentSettings,
-    'generationStrategy' | 'confidenceSource' | 'traceCount' | 'deepConfEta' | 'tau' | 'groupWindow'
+    'generationStrategy' | 'confidenceSource' | 'traceCount' | 'deepConfEta' | 'tau' | 'groupWindow' | 'answerExtractor' | 'voteMode' | 'voteSimilarity'
 > => ({
     generationStrategy: VALID_GENERATION_STRATEGIES.includes(
         partial.generationStrategy as GenerationStrategy,
     )
         ? (partial.generationStrategy as GenerationStrategy)
         : 'single',
-    confidenceSource: 'judge',
+    confidenceSource: partial.confidenceSource === 'logprobs' ? 'logprobs' : 'judge',
     traceCount:
         typeof partial.traceCount === 'number' ? partial.traceCount : 8,
     deepConfEta:
@@ -101,6 +166,11 @@ const migrateCommonSettings = (
     tau: typeof partial.tau === 'number' ? partial.tau : 0.95,
     groupWindow:
         typeof partial.groupWindow === 'number' ? partial.groupWindow : 2048,
+    answerExtractor: migrateAnswerExtractor(partial.answerExtractor),
+    voteMode: partial.voteMode === 'semantic' ? 'semantic' : 'exact',
+    voteSimilarity: VALID_VOTE_SIMILARITIES.includes(partial.voteSimilarity as VoteSimilarity)
+        ? (partial.voteSimilarity as VoteSimilarity)
+        : 'lexical',
 });
 
 export const migrateAgentConfig = (
@@ -196,6 +266,34 @@ export const migrateAgentConfig = (
             } as OpenRouterAgentConfig;
         }
 
+        case 'custom': {
+            // Custom models are whatever the endpoint serves, so a missing model cannot be defaulted.
+            if (typeof savedConfig.model !== 'string' || savedConfig.model.trim() === '') {
+                console.warn(`Custom endpoint agent for expert "${savedConfig.expertId}" has no model. Skipping.`);
+                return null;
+            }
+            return {
+                ...baseConfig,
+                model: savedConfig.model,
+                provider: 'custom',
+                settings: migrateCustomSettings(rawSettings as Partial<CustomAgentSettings>),
+            } as CustomAgentConfig;
+        }
+
+        case 'anthropic': {
+            const model: AnthropicModel =
+                typeof savedConfig.model === 'string' &&
+                (ANTHROPIC_MODELS as readonly string[]).includes(savedConfig.model)
+                    ? (savedConfig.model as AnthropicModel)
+                    : ANTHROPIC_SONNET_MODEL;
+            return {
+                ...baseConfig,
+                model,
+                provider: 'anthropic',
+                settings: migrateAnthropicSettings(rawSettings as Partial<AnthropicAgentSettings>),
+            } as AnthropicAgentConfig;
+        }
+
         default:
             console.warn(
                 `Unknown provider "${provider}" for expert "${savedConfig.expertId}". Skipping.`,
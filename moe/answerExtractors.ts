@@ -0,0 +1,116 @@
+import type { AnswerExtractor, AnswerExtractorKind } from '@/types';
+
+/** Returns the answer a trace votes for, or null when the trace has none in the expected form. */
+export type ExtractAnswer = (text: string) => string | null;
+
+export const ANSWER_EXTRACTOR_LABELS: Record<AnswerExtractorKind, string> = {
+    'full-text': 'Full Text',
+    'numeric': 'Final Number',
+    'last-line': 'Last Line',
+    'boxed': '\\boxed{…}',
+    'regex': 'Regex Capture',
+    'code-block': 'Last Code Block',
+    'multiple-choice': 'Multiple-Choice Letter',
+    'json-path': 'JSON Field',
+};
+
+// Answers are compared verbatim, so whitespace differences must not split the vote.
+const normalize = (answer: string | null | undefined): string | null => {
+    const collapsed = answer?.replace(/\s+/g, ' ').trim();
+    return collapsed ? collapsed : null;
+};
+
+const lastMatch = (text: string, regex: RegExp): RegExpMatchArray | undefined => [...text.matchAll(regex)].pop();
+
+const lastNonEmptyLine = (text: string): string | null =>
+    text.split('\n').map(line => line.trim()).filter(Boolean).pop() ?? null;
+
+// "1,000", "1000" and "1000.0" are the same answer.
+const extractNumber = (text: string): string | null => {
+    const match = lastMatch(text, /-?\d+(?:,\d{3})*(?:\.\d+)?(?:e[+-]?\d+)?/gi);
+    if (!match) return null;
+    const value = Number(match[0].replace(/,/g, ''));
+    return Number.isFinite(value) ? String(value) : null;
+};
+
+// Braces inside the box are balanced, e.g. \boxed{\frac{1}{2}}.
+const extractBoxed = (text: string): string | null => {
+    const start = text.lastIndexOf('\\boxed{');
+    if (start === -1) return null;
+    let depth = 0;
+    for (let i = start + '\\boxed'.length; i < text.length; i++) {
+        if (text[i] === '{') depth++;
+        else if (text[i] === '}' && --depth === 0) return normalize(text.slice(start + '\\boxed{'.length, i));
+    }
+    return null;
+};
+
+const extractCodeBlock = (text: string): string | null =>
+    lastMatch(text, /```[^\n`]*\n([\s\S]*?)```/g)?.[1].trim() || null;
+
+// An explicit "Answer: B" wins; otherwise a final line holding only the letter, e.g. "**(C)**".
+// The letter must stand alone, so "Answer: Because" does not vote for "B", and a pronoun "I"
+// starting a sentence is skipped, so "Answer: I think it's B" does not vote for "I".
+const extractChoice = (text: string): string | null =>
+    lastMatch(text, /[Aa]nswer(?:\s+is\b|\s*[:(-])\s*\**\s*\(?(?!I\s+[a-z])([A-J])(?=[).,;*]|\s|$)/gm)?.[1]
+        ?? lastNonEmptyLine(text)?.match(/^\**\(?([A-J])\)?\.?\**$/)?.[1]
+        ?? null;
+
+const compileAnswerPattern = (pattern: string | undefined): RegExp => {
+    if (!pattern) throw new Error('The regex answer extractor needs a pattern.');
+    try {
+        return new RegExp(pattern, 'gm');
+    } catch (error) {
+        throw new Error(`Invalid answer pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+const parseJson = (text: string): unknown => {
+    const candidates = [
+        extractCodeBlock(text),
+        text.trim(),
+        text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1),
+    ];
+    for (const candidate of candidates) {
+        if (!candidate) continue;
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Try the next candidate.
+        }
+    }
+    return undefined;
+};
+
+const extractJsonField = (text: string, path: string): string | null => {
+    let value = parseJson(text);
+    for (const key of path.match(/[^.[\]]+/g) ?? []) {
+        if (value === null || typeof value !== 'object') return null;
+        value = (value as Record<string, unknown>)[key];
+    }
+    if (value === undefined) return null;
+    return normalize(typeof value === 'string' ? value : JSON.stringify(value));
+};
+
+/**
+ * Builds the function DeepConf uses to turn a trace into its vote. Throws for
+ * a regex extractor whose pattern is missing or invalid.
+ */
+export const createAnswerExtractor = ({ kind, pattern, path = '' }: AnswerExtractor): ExtractAnswer => {
+    switch (kind) {
+        case 'full-text': return text => text.trim() || null;
+        case 'numeric': return extractNumber;
+        case 'last-line': return text => normalize(lastNonEmptyLine(text));
+        case 'boxed': return extractBoxed;
+        case 'regex': {
+            const regex = compileAnswerPattern(pattern);
+            return text => {
+                const match = lastMatch(text, regex);
+                return match ? normalize(match.length > 1 ? match[1] : match[0]) : null;
+            };
+        }
+        case 'code-block': return extractCodeBlock;
+        case 'multiple-choice': return extractChoice;
+        case 'json-path': return text => extractJsonField(text, path);
+    }
+};
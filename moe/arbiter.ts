@@ -1,67 +1,195 @@
+import { z } from 'zod';
 import { Draft } from './types';
-import { getGeminiClient, getOpenAIClient, getOpenRouterApiKey, fetchWithRetry, callWithRetry } from '@/services/llmService';
-import { getAppUrl, getGeminiResponseText, combineAbortSignals } from '@/lib/utils';
 import {
-    ARBITER_PERSONA,
-    ARBITER_HIGH_REASONING_PROMPT_MODIFIER,
-    GEMINI_PRO_MODEL,
-    GEMINI_FLASH_MODEL,
-    OPENAI_REASONING_PROMPT_PREFIX,
+    ARBITER_SELECT_BEST_PERSONA,
+    ARBITER_CONTROVERSY_PERSONA,
+    ARBITER_REVISION_PERSONA,
+    ARBITER_STRUCTURED_PERSONA,
 } from '@/constants';
-import { GeminiThinkingEffort, OpenAIReasoningEffort } from '@/types';
-import { callWithGeminiRetry, handleGeminiError } from '@/services/geminiUtils';
-
-const GEMINI_PRO_BUDGETS: Record<GeminiThinkingEffort, number> = {
-    none: 0,
-    low: 8192,
-    medium: 24576,
-    high: 32768,
-    dynamic: -1,
-};
+import { ArbiterMode, ArbiterTemplate, Controversy, GeminiThinkingEffort, ImageState, OpenAIReasoningEffort } from '@/types';
+import { getProvider, providerForModel, type JudgeResult } from '@/services/providers';
+import { judgeAnswer, weightedVote } from '@/services/deepconf';
+import { clusterDrafts, DraftCluster } from './draftClustering';
+import { attributionLabel } from './attribution';
+import { buildRevisionPrompt } from './verifier';
+import { buildSchemaInstruction, buildSchemaRetryPrompt, parseStructuredReply, StructuredOutput, STRUCTURED_OUTPUT_RETRIES } from './structuredOutput';
+import { DEFAULT_ARBITER_TEMPLATE, DEFAULT_ARBITER_USER_PROMPT, renderArbiterTemplate } from './arbiterTemplates';
 
-const GEMINI_FLASH_BUDGETS: Record<GeminiThinkingEffort, number> = {
-    none: 0,
-    low: 4096,
-    medium: 12288,
-    high: 24576,
-    dynamic: -1,
-};
+/** A single arbiter model call; the provider is resolved from the model name through the registry. */
+interface ArbiterModelRequest {
+    arbiterModel: string;
+    systemPersona: string;
+    /** Appended to the persona for OpenAI models at high reasoning effort. */
+    highEffortModifier?: string;
+    /** Appended to the persona for OpenAI models, which accept verbosity guidance. */
+    verbosityInstruction?: string;
+    userPrompt: string;
+    openAIArbiterEffort: OpenAIReasoningEffort;
+    geminiArbiterEffort: GeminiThinkingEffort;
+    abortSignal?: AbortSignal;
+    /** Requests the provider's native JSON schema output. */
+    structuredOutput?: StructuredOutput | null;
+    /** The run's images; only sent to models that accept them. */
+    images?: ImageState[];
+}
 
-async function* openRouterStreamer(stream: ReadableStream<Uint8Array>): AsyncGenerator<{ text: string }> {
-    const reader = stream.getReader();
-    const decoder = new TextDecoder("utf-8");
-
-    try {
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split("\n\n");
-
-            for (const line of lines) {
-                if (line.startsWith("data: ")) {
-                    const data = line.substring(6);
-                    if (data.trim() === "[DONE]") {
-                        return;
-                    }
-                    try {
-                        const parsed = JSON.parse(data);
-                        const text = parsed.choices[0]?.delta?.content || "";
-                        if (text) {
-                            yield { text };
-                        }
-                    } catch (error) {
-                        console.error("Error parsing OpenRouter stream chunk:", error, "Chunk:", data);
-                    }
-                }
-            }
-        }
-    } finally {
-        reader.releaseLock();
+/** Whether the arbiter model accepts image input, per its provider's capabilities. */
+export const arbiterSupportsVision = (arbiterModel: string): boolean =>
+    providerForModel(arbiterModel).capabilities(arbiterModel).vision;
+
+const streamArbiterModel = async ({
+    arbiterModel,
+    systemPersona,
+    highEffortModifier,
+    verbosityInstruction,
+    userPrompt,
+    openAIArbiterEffort,
+    geminiArbiterEffort,
+    abortSignal,
+    structuredOutput,
+    images: requestImages = [],
+}: ArbiterModelRequest): Promise<AsyncGenerator<{ text: string }>> => {
+    const images = arbiterSupportsVision(arbiterModel) ? requestImages : [];
+    if (images.length > 0) {
+        userPrompt += `\n\nThe user's ${images.length === 1 ? 'image is' : `${images.length} images are`} attached. Check the drafts' descriptions of them against the images themselves.`;
     }
+
+    return providerForModel(arbiterModel).stream({
+        model: arbiterModel,
+        systemPersona,
+        highEffortModifier,
+        verbosityInstruction,
+        userPrompt,
+        openAIEffort: openAIArbiterEffort,
+        geminiEffort: geminiArbiterEffort,
+        abortSignal,
+        structuredOutput,
+        images,
+    });
+};
+
+/** Streams a finished answer as one chunk. */
+export async function* singleChunk(text: string): AsyncGenerator<{ text: string }> {
+    yield { text };
 }
 
+const throwIfAborted = (abortSignal?: AbortSignal) => {
+    if (abortSignal?.aborted) {
+        const error = new Error('Aborted');
+        error.name = 'AbortError';
+        throw error;
+    }
+};
+
+/** Canonical form used to compare answers for voting: case, whitespace and trailing punctuation are ignored. */
+export const normalizeAnswer = (text: string): string =>
+    text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?。]+$/, '');
+
+/**
+ * Picks the draft whose normalized answer most agents share, with one vote per
+ * draft. Ties go to the earliest draft. Returns the winning draft verbatim.
+ */
+export const voteOnDrafts = (drafts: Draft[]): { draft: Draft; consensus: number } => {
+    const answers = drafts.map(d => normalizeAnswer(d.content));
+    const { answer, consensus } = weightedVote(answers, answers.map(() => 1));
+    return { draft: drafts[answers.indexOf(answer)] ?? drafts[0], consensus };
+};
+
+const bestJudgedDraft = async (
+    drafts: Draft[],
+    judge: (draft: Draft) => Promise<JudgeResult>,
+    abortSignal?: AbortSignal
+): Promise<{ draft: Draft; score: number }> => {
+    const results = await Promise.all(drafts.map(judge));
+    throwIfAborted(abortSignal);
+    let bestIndex = 0;
+    results.forEach((result, i) => {
+        if (result.score > results[bestIndex].score) bestIndex = i;
+    });
+    return { draft: drafts[bestIndex], score: results[bestIndex].score };
+};
+
+/** Scores every draft with the judge model and returns the highest-scoring one verbatim. */
+export const rerankDrafts = (
+    prompt: string,
+    drafts: Draft[],
+    arbiterModel: string,
+    abortSignal?: AbortSignal
+): Promise<{ draft: Draft; score: number }> =>
+    bestJudgedDraft(drafts, d => judgeAnswer(prompt, d.content, arbiterModel, abortSignal), abortSignal);
+
+/**
+ * Last-resort answer when every arbiter model failed: the draft the judge scores
+ * highest, judged by the first draft's own provider and model since that provider worked.
+ * Falls back to the majority vote when the judge could not score any draft.
+ */
+export const selectFallbackDraft = async (
+    prompt: string,
+    drafts: Draft[],
+    abortSignal?: AbortSignal
+): Promise<{ draft: Draft; score: number | null }> => {
+    const { provider, model } = drafts[0].expert;
+    const adapter = getProvider(provider);
+    const { draft, score } = await bestJudgedDraft(drafts, d => adapter.judge(prompt, d.content, model, abortSignal), abortSignal);
+    return score > 0 ? { draft, score } : { draft: voteOnDrafts(drafts).draft, score: null };
+};
+
+/** Parses the arbiter's "best draft" reply into a zero-based index, or null when unusable. */
+export const parseSelectedDraftIndex = (reply: string, draftCount: number): number | null => {
+    const match = reply.match(/\d+/);
+    if (!match) return null;
+    const index = parseInt(match[0], 10) - 1;
+    return index >= 0 && index < draftCount ? index : null;
+};
+
+const ARBITER_INSTRUCTIONS = {
+    synthesize: 'Please synthesize them into the best possible single answer.',
+    'select-best': 'Reply with only the number of the best draft.',
+    controversies: 'List the points on which these drafts contradict each other.',
+    structured: 'Merge them into a single JSON value that keeps the best-supported content of each draft.',
+    attributed: 'Please synthesize them into the best possible single answer. End every paragraph or distinct claim with the letter markers of the drafts it is based on, e.g. [A][C]. Use only the draft letters given below.',
+};
+
+/**
+ * Builds the user prompt for arbiter modes that send drafts to a model by
+ * filling in `userPromptTemplate`. Near-duplicate drafts are collapsed into one
+ * numbered entry annotated with how many agents agreed; the returned clusters
+ * follow that numbering.
+ */
+export const buildArbiterPrompt = (
+    prompt: string,
+    successfulDrafts: Draft[],
+    mode: keyof typeof ARBITER_INSTRUCTIONS,
+    userPromptTemplate = DEFAULT_ARBITER_USER_PROMPT
+): { text: string; clusters: DraftCluster[] } => {
+    const clusters = clusterDrafts(successfulDrafts);
+    const agentNumber = (draft: Draft) => successfulDrafts.indexOf(draft) + 1;
+
+    const entries = clusters.map(({ representative: d, members }, i) => {
+        const agreement = members.length > 1
+            ? `\n_${members.length} agents agreed (Agents ${members.map(agentNumber).join(', ')})._`
+            : '';
+        const label = mode === 'attributed' ? attributionLabel(i) : String(i + 1);
+        return `### Draft ${label} from Agent ${agentNumber(d)} (Provider: ${d.expert.provider}, Persona: ${d.expert.name})${agreement}\n${d.content}`;
+    });
+    const mergeNote = clusters.length < successfulDrafts.length
+        ? ' Near-duplicate answers have been merged; agreement between agents is a consensus signal, not proof of correctness.'
+        : '';
+
+    const agents = successfulDrafts.map(d => `- Agent ${agentNumber(d)}: ${d.expert.name} (${d.expert.provider}, ${d.expert.model})`);
+
+    const text = renderArbiterTemplate(userPromptTemplate, {
+        question: prompt,
+        drafts: entries.join("\n\n---\n\n"),
+        agents: agents.join('\n'),
+        draftCount: String(clusters.length),
+        agentCount: String(successfulDrafts.length),
+        mergeNote,
+        instructions: ARBITER_INSTRUCTIONS[mode],
+    });
+    return { text, clusters };
+};
+
 export const arbitrateStream = async (
     arbiterModel: string,
     prompt: string,
@@ -69,128 +197,179 @@ export const arbitrateStream = async (
     arbiterVerbosity: 'low' | 'medium' | 'high',
     openAIArbiterEffort: OpenAIReasoningEffort,
     geminiArbiterEffort: GeminiThinkingEffort,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    arbiterMode: ArbiterMode = 'synthesize',
+    template: ArbiterTemplate = DEFAULT_ARBITER_TEMPLATE,
+    images: ImageState[] = []
 ): Promise<AsyncGenerator<{ text: string }>> => {
     const successfulDrafts = drafts.filter(d => d.status === 'COMPLETED');
 
     if (successfulDrafts.length === 0) {
         throw new Error("All agents failed to produce a draft. Cannot generate a final answer.");
     }
-    
-    const arbiterPrompt = `The original user question is:\n"${prompt}"\n\nHere are ${successfulDrafts.length} candidate answers from different expert agents. Please synthesize them into the best possible single answer.\n\n${successfulDrafts
-        .map((d, i) => `### Draft from Agent ${i + 1} (Provider: ${d.expert.provider}, Persona: ${d.expert.name})\n${d.content}`)
-        .join("\n\n---\n\n")}`;
-    
-    // OpenRouter Logic
-    if (arbiterModel.includes('/')) {
-        const openRouterKey = getOpenRouterApiKey();
-        if (!openRouterKey) throw new Error("OpenRouter API Key not set.");
-        
-        const headers = {
-            'Authorization': `Bearer ${openRouterKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': getAppUrl(),
-            'X-Title': 'HeavyOrc',
-        };
-        const messages = [
-            { role: 'system', content: ARBITER_PERSONA },
-            { role: 'user', content: arbiterPrompt },
-        ];
-        const body = { model: arbiterModel, messages, stream: true };
-
-        const response = await fetchWithRetry(
-            'https://openrouter.ai/api/v1/chat/completions',
-            {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(body),
-                signal: abortSignal,
-            }
-        );
-
-        if (!response.ok || !response.body) {
-            const errorData = await response.json().catch(() => ({}));
-            throw new Error(`OpenRouter API Error: ${errorData.error?.message || response.statusText}`);
-        }
-
-        return openRouterStreamer(response.body);
-    }
 
-    // OpenAI Logic
-    if (arbiterModel.startsWith('gpt-5')) {
-        const openaiAI = getOpenAIClient();
+    const modelSettings = { arbiterModel, openAIArbiterEffort, geminiArbiterEffort, abortSignal, images };
 
-        let systemPersona = ARBITER_PERSONA;
-        if (openAIArbiterEffort === 'high') {
-            systemPersona = OPENAI_REASONING_PROMPT_PREFIX + systemPersona + ARBITER_HIGH_REASONING_PROMPT_MODIFIER;
+    switch (arbiterMode) {
+        case 'vote':
+            return singleChunk(voteOnDrafts(successfulDrafts).draft.content);
+        case 'rerank': {
+            const { draft } = await rerankDrafts(prompt, successfulDrafts, arbiterModel, abortSignal);
+            return singleChunk(draft.content);
         }
-        systemPersona += `\nYour final synthesized response should have a verbosity level of: ${arbiterVerbosity}.`;
-
-        try {
-            const stream = await callWithRetry(
-                () =>
-                    openaiAI.responses.stream(
-                        {
-                            model: arbiterModel,
-                            reasoning: { effort: openAIArbiterEffort },
-                            input: [
-                                { role: 'system', content: systemPersona },
-                                { role: 'user', content: arbiterPrompt },
-                            ],
-                        },
-                        { signal: abortSignal }
-                    ),
-                'OpenAI'
-            );
-
-            async function* transformStream(): AsyncGenerator<{ text: string }> {
-                for await (const event of stream) {
-                    if (event.type === 'response.output_text.delta') {
-                        yield { text: event.delta };
-                    }
-                }
+        case 'select-best': {
+            const { text: selectionPrompt, clusters } = buildArbiterPrompt(prompt, successfulDrafts, 'select-best');
+            const replyStream = await streamArbiterModel({
+                ...modelSettings,
+                systemPersona: ARBITER_SELECT_BEST_PERSONA,
+                userPrompt: selectionPrompt,
+            });
+            let reply = '';
+            for await (const chunk of replyStream) reply += chunk.text;
+            const index = parseSelectedDraftIndex(reply, clusters.length);
+            if (index === null) {
+                console.warn('Arbiter did not return a valid draft number; using the first draft.', { reply });
             }
-
-            return transformStream();
-        } catch (error) {
-            console.error('Error calling the OpenAI API for arbiter:', error);
-            throw error;
+            return singleChunk(clusters[index ?? 0].representative.content);
+        }
+        case 'synthesize':
+        case 'attributed':
+        default: {
+            const promptMode = arbiterMode === 'attributed' ? 'attributed' : 'synthesize';
+            const { text: arbiterPrompt } = buildArbiterPrompt(prompt, successfulDrafts, promptMode, template.userPrompt);
+            return streamArbiterModel({
+                ...modelSettings,
+                systemPersona: template.persona,
+                highEffortModifier: template.highEffortModifier,
+                verbosityInstruction: `\nYour final synthesized response should have a verbosity level of: ${arbiterVerbosity}.`,
+                userPrompt: arbiterPrompt,
+            });
         }
     }
+};
+
+/**
+ * Merges the drafts into one value matching `structuredOutput`, retrying with the
+ * validation errors before giving up. Resolves with pretty-printed JSON.
+ */
+export const arbitrateStructured = async (
+    arbiterModel: string,
+    prompt: string,
+    drafts: Draft[],
+    structuredOutput: StructuredOutput,
+    openAIArbiterEffort: OpenAIReasoningEffort,
+    geminiArbiterEffort: GeminiThinkingEffort,
+    abortSignal?: AbortSignal,
+    images: ImageState[] = []
+): Promise<string> => {
+    const successfulDrafts = drafts.filter(d => d.status === 'COMPLETED');
+    if (successfulDrafts.length === 0) {
+        throw new Error("All agents failed to produce a draft. Cannot generate a final answer.");
+    }
 
-    // Gemini Logic for the arbiter.
-    const model = arbiterModel === GEMINI_FLASH_MODEL ? GEMINI_FLASH_MODEL : GEMINI_PRO_MODEL;
-    const budgets = model === GEMINI_FLASH_MODEL ? GEMINI_FLASH_BUDGETS : GEMINI_PRO_BUDGETS;
-    const effortKey: keyof typeof budgets =
-        model === GEMINI_PRO_MODEL && geminiArbiterEffort === 'none'
-            ? 'dynamic'
-            : geminiArbiterEffort;
-    const budget = budgets[effortKey];
-
-    const geminiAI = getGeminiClient();
-    try {
-        const stream = await callWithGeminiRetry((signal) => {
-            const { signal: finalSignal, cleanup } = combineAbortSignals(signal, abortSignal);
-            return geminiAI
-                .models.generateContentStream({
-                    model,
-                    contents: { parts: [{ text: arbiterPrompt }] },
-                    config: {
-                        systemInstruction: ARBITER_PERSONA,
-                        thinkingConfig: { thinkingBudget: budget },
-                        abortSignal: finalSignal,
-                    }
-                })
-                .finally(cleanup);
+    const { text } = buildArbiterPrompt(prompt, successfulDrafts, 'structured');
+    const basePrompt = `${text}\n\n---\n\n${buildSchemaInstruction(structuredOutput)}`;
+    let userPrompt = basePrompt;
+    for (let attempt = 0; ; attempt++) {
+        const replyStream = await streamArbiterModel({
+            arbiterModel,
+            systemPersona: ARBITER_STRUCTURED_PERSONA,
+            userPrompt,
+            openAIArbiterEffort,
+            geminiArbiterEffort,
+            abortSignal,
+            structuredOutput,
+            images,
         });
+        let reply = '';
+        for await (const chunk of replyStream) reply += chunk.text;
 
-        async function* transformGeminiStream(): AsyncGenerator<{ text: string }> {
-            for await (const chunk of stream) {
-                yield { text: getGeminiResponseText(chunk) };
-            }
+        const result = parseStructuredReply(reply, structuredOutput);
+        if (result.success) return JSON.stringify(result.value, null, 2);
+        if (attempt >= STRUCTURED_OUTPUT_RETRIES) {
+            throw new Error(`The arbiter's answer does not match the output schema: ${result.errors.join('; ')}`);
         }
-        return transformGeminiStream();
-    } catch (error) {
-        return handleGeminiError(error, 'arbiter', 'arbitration');
+        userPrompt = buildSchemaRetryPrompt(basePrompt, result.errors);
     }
 };
+
+/** Streams the arbiter's revision of `answer` that addresses the verifier's `reasons`. */
+export const reviseAnswerStream = (
+    arbiterModel: string,
+    prompt: string,
+    answer: string,
+    reasons: string[],
+    arbiterVerbosity: 'low' | 'medium' | 'high',
+    openAIArbiterEffort: OpenAIReasoningEffort,
+    geminiArbiterEffort: GeminiThinkingEffort,
+    abortSignal?: AbortSignal,
+    arbiterMode: ArbiterMode = 'synthesize'
+): Promise<AsyncGenerator<{ text: string }>> =>
+    streamArbiterModel({
+        arbiterModel,
+        systemPersona: ARBITER_REVISION_PERSONA,
+        verbosityInstruction: `\nYour revised response should have a verbosity level of: ${arbiterVerbosity}.`,
+        userPrompt: buildRevisionPrompt(prompt, answer, reasons, arbiterMode),
+        openAIArbiterEffort,
+        geminiArbiterEffort,
+        abortSignal,
+    });
+
+const ControversyReplySchema = z.object({
+    controversies: z.array(z.object({
+        topic: z.string(),
+        positions: z.array(z.object({
+            stance: z.string(),
+            drafts: z.array(z.number()),
+        })),
+        resolution: z.string(),
+    })),
+});
+
+/** Parses the model's JSON disagreement report, mapping draft numbers back to agent ids. */
+export const parseControversyReply = (reply: string, clusters: DraftCluster[]): Controversy[] => {
+    const json = reply.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+        throw new Error('The arbiter did not return a disagreement report.');
+    }
+    const { controversies } = ControversyReplySchema.parse(JSON.parse(json));
+    return controversies.map(({ topic, positions, resolution }) => ({
+        topic,
+        resolution,
+        positions: positions.map(({ stance, drafts }) => ({
+            stance,
+            agentIds: [...new Set(drafts.flatMap(n => clusters[n - 1]?.members.map(d => d.agentId) ?? []))],
+        })),
+    }));
+};
+
+/**
+ * Asks the arbiter model where the drafts contradicted each other and how
+ * `finalAnswer` resolved each point. Returns no controversies without a call
+ * when the drafts collapse to a single distinct answer.
+ */
+export const reportControversies = async (
+    arbiterModel: string,
+    prompt: string,
+    drafts: Draft[],
+    finalAnswer: string,
+    openAIArbiterEffort: OpenAIReasoningEffort,
+    geminiArbiterEffort: GeminiThinkingEffort,
+    abortSignal?: AbortSignal
+): Promise<Controversy[]> => {
+    const successfulDrafts = drafts.filter(d => d.status === 'COMPLETED');
+    const { text, clusters } = buildArbiterPrompt(prompt, successfulDrafts, 'controversies');
+    if (clusters.length < 2) return [];
+
+    const replyStream = await streamArbiterModel({
+        arbiterModel,
+        systemPersona: ARBITER_CONTROVERSY_PERSONA,
+        userPrompt: `${text}\n\n---\n\nThe arbiter's final answer was:\n${finalAnswer}`,
+        openAIArbiterEffort,
+        geminiArbiterEffort,
+        abortSignal,
+    });
+    let reply = '';
+    for await (const chunk of replyStream) reply += chunk.text;
+    return parseControversyReply(reply, clusters);
+};
@@ -0,0 +1,64 @@
+import { ARBITER_HIGH_REASONING_PROMPT_MODIFIER, ARBITER_PERSONA } from '@/constants';
+import { ArbiterTemplate } from '@/types';
+
+/** Placeholders a template's user prompt can use, with what each expands to. */
+export const ARBITER_TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+    question: 'The user question.',
+    drafts: 'The numbered drafts, each headed with its agent, provider and persona.',
+    agents: 'One line per agent with its number, persona, provider and model.',
+    draftCount: 'Number of distinct drafts after merging near-duplicates.',
+    agentCount: 'Number of agents that produced a draft.',
+    mergeNote: 'A note on merged near-duplicates, or nothing.',
+    instructions: 'What the arbiter mode asks for, e.g. attribution markers.',
+};
+
+/** The arbiter prompt used before templates existed. */
+export const DEFAULT_ARBITER_USER_PROMPT = 'The original user question is:\n"{{question}}"\n\nHere are {{draftCount}} distinct candidate answers from {{agentCount}} expert agents.{{mergeNote}} {{instructions}}\n\n{{drafts}}';
+
+const shapedPersona = (shape: string) =>
+    `You are a world-class arbiter and editor. Synthesize the expert drafts into a single answer that is more accurate than any one of them. Where drafts contradict, use your judgment to decide what is most likely correct. ${shape} Begin the response directly, without headings like "Final Answer".`;
+
+export const DEFAULT_ARBITER_TEMPLATE: ArbiterTemplate = {
+    id: 'default',
+    name: 'Comprehensive answer',
+    persona: ARBITER_PERSONA,
+    highEffortModifier: ARBITER_HIGH_REASONING_PROMPT_MODIFIER,
+    userPrompt: DEFAULT_ARBITER_USER_PROMPT,
+};
+
+export const ARBITER_TEMPLATE_PRESETS: ArbiterTemplate[] = [
+    DEFAULT_ARBITER_TEMPLATE,
+    {
+        id: 'concise-answer',
+        name: 'Concise answer',
+        persona: shapedPersona('Answer in as few sentences as the question allows; give the answer first and leave out background the user did not ask for.'),
+        highEffortModifier: '',
+        userPrompt: DEFAULT_ARBITER_USER_PROMPT,
+    },
+    {
+        id: 'comparison-table',
+        name: 'Comparison table',
+        persona: shapedPersona('Present the result as a Markdown table comparing the options or positions the drafts cover, one row per option, followed by a one-paragraph recommendation.'),
+        highEffortModifier: '',
+        userPrompt: DEFAULT_ARBITER_USER_PROMPT,
+    },
+    {
+        id: 'executive-summary',
+        name: 'Executive summary',
+        persona: shapedPersona('Write for a busy decision maker: a one-sentence bottom line, then at most five bullet points with the key facts, risks and next steps.'),
+        highEffortModifier: '',
+        userPrompt: DEFAULT_ARBITER_USER_PROMPT,
+    },
+    {
+        id: 'code-review-merge',
+        name: 'Code review merge',
+        persona: shapedPersona('The drafts are code reviews or code changes. Merge them into one review: list each distinct issue once with its severity and location, drop findings that other drafts show to be wrong, and finish with the corrected code where the drafts propose changes.'),
+        highEffortModifier: '',
+        userPrompt: 'Review request:\n"{{question}}"\n\nReviewers:\n{{agents}}\n\nThere are {{draftCount}} distinct reviews.{{mergeNote}} {{instructions}}\n\n{{drafts}}',
+    },
+];
+
+/** Replaces `{{name}}` placeholders; unknown placeholders are left as written. */
+export const renderArbiterTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
@@ -0,0 +1,44 @@
+import { Draft } from './types';
+import { clusterDrafts } from './draftClustering';
+import { AttributionSources } from '@/types';
+
+/** A run of answer text and the draft labels cited at its end. */
+export interface AttributedSegment {
+    text: string;
+    /** Empty when the text carries no (known) citation. */
+    labels: string[];
+}
+
+const MARKER_GROUP = /(?:\s*\[[A-Z]{1,2}\])+/g;
+const MARKER = /\[([A-Z]{1,2})\]/g;
+
+/** Spreadsheet-style draft labels: A..Z, then AA, AB, ... */
+export const attributionLabel = (index: number): string =>
+    index < 26
+        ? String.fromCharCode(65 + index)
+        : attributionLabel(Math.floor(index / 26) - 1) + String.fromCharCode(65 + (index % 26));
+
+/**
+ * Labels the drafts the arbiter sees in attributed mode. Near-duplicates share
+ * one label, so a label can stand for several agents.
+ */
+export const getAttributionSources = (successfulDrafts: Draft[]): AttributionSources =>
+    Object.fromEntries(
+        clusterDrafts(successfulDrafts).map(({ members }, i) => [attributionLabel(i), members.map(d => d.agentId)])
+    );
+
+/** Splits an attributed answer at its `[A][C]` markers; unknown labels are ignored. */
+export const parseAttributedAnswer = (answer: string, sources: AttributionSources): AttributedSegment[] => {
+    const segments: AttributedSegment[] = [];
+    let start = 0;
+    for (const group of answer.matchAll(MARKER_GROUP)) {
+        const labels = [...new Set([...group[0].matchAll(MARKER)].map(m => m[1]))].filter(l => l in sources);
+        if (labels.length === 0) continue;
+        segments.push({ text: answer.slice(start, group.index), labels });
+        start = group.index! + group[0].length;
+    }
+    if (start < answer.length) {
+        segments.push({ text: answer.slice(start), labels: [] });
+    }
+    return segments;
+};
@@ -0,0 +1,29 @@
+import { Draft } from './types';
+import { DebateSettings } from '@/types';
+
+export const MAX_DEBATE_ROUNDS = 5;
+
+export const DEFAULT_DEBATE_SETTINGS: DebateSettings = {
+    strategy: 'parallel',
+    rounds: 1,
+};
+
+/** Prompt for one agent's critique-and-revise turn: the question, its own last draft and its peers' drafts. */
+export const buildDebatePrompt = (question: string, own: Draft, peers: Draft[]): string =>
+    `${question}
+
+---
+
+You previously answered this question as follows:
+
+${own.content}
+
+---
+
+Other experts answered:
+
+${peers.map((d, i) => `### Expert ${i + 1} (${d.expert.name})\n${d.content}`).join('\n\n')}
+
+---
+
+Critique the other answers and your own: point out errors, gaps and unsupported claims. Then give your revised, complete answer to the original question. Keep what was right and fix what was wrong; do not defer to the majority without reason.`;
@@ -1,266 +1,29 @@
-import { GenerateContentParameters, Part } from "@google/genai";
 import { Draft, ExpertDispatch } from './types';
-import { getGeminiClient, getOpenAIClient, getOpenRouterApiKey, callWithRetry, fetchWithRetry } from '@/services/llmService';
-import { getAppUrl, getGeminiResponseText, combineAbortSignals } from '@/lib/utils';
-import { callWithGeminiRetry, handleGeminiError, isAbortError } from '@/services/geminiUtils';
-import { GEMINI_PRO_MODEL, GEMINI_FLASH_MODEL, OPENAI_REASONING_PROMPT_PREFIX } from '@/constants';
-import { AgentConfig, GeminiAgentConfig, ImageState, OpenAIAgentConfig, GeminiThinkingEffort, OpenRouterAgentConfig, MAX_GEMINI_TIMEOUT_MS, MIN_GEMINI_TIMEOUT_MS } from '@/types';
+import { combineAbortSignals } from '@/lib/utils';
+import { AgentConfig, AgentStatus, ImageState } from '@/types';
+import { getProvider, GenerateHooks, GenerateResult, ProviderAdapter } from '@/services/providers';
+import { createAnswerExtractor } from './answerExtractors';
+import { createAnswerClusterer } from './traceClustering';
+import { buildSchemaInstruction, buildSchemaRetryPrompt, parseStructuredReply, StructuredOutput, STRUCTURED_OUTPUT_RETRIES } from './structuredOutput';
 import {
     Trace,
     DEFAULTS,
+    deepConfOffline,
+    deepConfOnline,
     deepConfOnlineWithJudge,
     deepConfOfflineWithJudge,
+    DeepConfResult,
+    Provider,
     TraceProvider
 } from '@/services/deepconf';
 
-interface OpenRouterContentPart {
-    type: 'text' | 'image_url';
-    text?: string;
-    image_url?: { url: string };
-}
-
-interface OpenRouterMessage {
-    role: 'system' | 'user';
-    content: string | OpenRouterContentPart[];
-}
-
-const GEMINI_PRO_BUDGETS: Record<Extract<GeminiThinkingEffort, 'low' | 'medium' | 'high' | 'dynamic'>, number> = {
-    low: 8192,
-    medium: 24576,
-    high: 32768,
-    dynamic: -1,
-};
-
-const GEMINI_FLASH_BUDGETS: Record<Extract<GeminiThinkingEffort, 'none' | 'low' | 'medium' | 'high' | 'dynamic'>, number> = {
-    none: 0,
-    low: 4096,
-    medium: 12288,
-    high: 24576,
-    dynamic: -1,
-};
-
-const parseEnvInt = (value: string | undefined, fallback: number) => {
-    const parsed = parseInt(value ?? '', 10);
-    return Number.isNaN(parsed) ? fallback : parsed;
-};
-
-const GEMINI_RETRY_COUNT = parseEnvInt(process.env.GEMINI_RETRY_COUNT, 2);
-const GEMINI_BACKOFF_MS = parseEnvInt(process.env.GEMINI_BACKOFF_MS, 2000);
-
-/**
- * Validates and normalizes a Gemini timeout against minimum and maximum bounds.
- * Falls back to the provided default when out of range and logs contextual information.
- *
- * @param timeoutMs - Timeout in milliseconds to validate.
- * @param defaultTimeoutMs - Fallback timeout if the provided value is invalid.
- * @param context - Optional metadata for logging, such as expert name or value source.
- * @returns A timeout guaranteed to be within allowed bounds.
- */
-const normalizeGeminiTimeout = (
-    timeoutMs: number,
-    defaultTimeoutMs: number,
-    context: { expertName?: string; source?: string } = {}
-) => {
-    if (timeoutMs < MIN_GEMINI_TIMEOUT_MS || timeoutMs > MAX_GEMINI_TIMEOUT_MS) {
-        console.warn({
-            message: 'Invalid Gemini timeout; falling back to default',
-            ...context,
-            originalTimeout: timeoutMs,
-            newTimeout: defaultTimeoutMs,
-            minTimeoutMs: MIN_GEMINI_TIMEOUT_MS,
-            maxTimeoutMs: MAX_GEMINI_TIMEOUT_MS,
-        });
-        return defaultTimeoutMs;
-    }
-    if (context.expertName && timeoutMs !== defaultTimeoutMs) {
-        console.debug({
-            message: 'Using custom Gemini timeout',
-            expertName: context.expertName,
-            timeoutMs,
-            defaultTimeoutMs,
-        });
-    }
-    return timeoutMs;
-};
-// Default timeout for Gemini requests; individual experts can override this via config.
-const DEFAULT_GEMINI_TIMEOUT_MS = ((fallback: number) =>
-    normalizeGeminiTimeout(
-        parseEnvInt(process.env.GEMINI_TIMEOUT_MS, fallback),
-        fallback,
-        { source: 'env' }
-    )
-)(30000);
-
-const formatTimeoutError = (expertName: string, model: string, timeoutMs: number, elapsed: number) =>
-    `Expert "${expertName}" using model "${model}" exceeded the configured timeout of ${Math.round(timeoutMs / 1000)} seconds after ${Math.round(elapsed / 1000)} seconds.`;
-
-interface ExpertResult {
-    content: string;
-    isPartial: boolean;
-    error?: Error;
-}
-
-const processGeminiStream = async (
-    stream: AsyncGenerator<any, void, unknown>,
-    expert: ExpertDispatch,
-    model: string,
-    timeoutController: AbortController,
-    start: number,
-    timeoutMs: number
-): Promise<ExpertResult> => {
-    const ensureWithinTimeout = (): void => {
-        if (timeoutController.signal.aborted) {
-            const elapsed = performance.now() - start;
-            throw new Error(formatTimeoutError(expert.name, model, timeoutMs, elapsed));
-        }
-    };
-
-    let result = '';
-    try {
-        for await (const chunk of stream) {
-            ensureWithinTimeout();
-            const text = getGeminiResponseText(chunk);
-            if (text) {
-                console.debug({ message: 'Gemini stream chunk', expertName: expert.name, text });
-                result += text;
-            }
-        }
-        return { content: result, isPartial: false };
-    } catch (streamError) {
-        console.error({ message: 'Error processing stream chunk', error: streamError });
-        ensureWithinTimeout();
-        if (isAbortError(streamError)) {
-            throw streamError as Error;
-        }
-        if (result) {
-            console.warn('Returning partial result due to streaming error');
-            return {
-                content: result,
-                isPartial: true,
-                error: streamError instanceof Error ? streamError : new Error(String(streamError)),
-            };
-        }
-        throw streamError;
-    }
-};
-
-const runExpertGeminiSingle = async (
-    expert: ExpertDispatch,
-    prompt: string,
-    images: ImageState[],
-    config: GeminiAgentConfig,
-    abortSignal?: AbortSignal
-): Promise<ExpertResult> => {
-    const parts: Part[] = [{ text: prompt }];
-    images.forEach(img => {
-        parts.push({
-            inlineData: {
-                mimeType: img.file.type,
-                data: img.base64,
-            },
-        });
-    });
-
-    const generateContentParams: GenerateContentParameters = {
-        model: expert.model,
-        contents: { parts },
-        config: {
-            systemInstruction: expert.persona,
-            temperature: 0.5 + Math.random() * 0.2, // Add some randomness
-        }
-    };
-
-    // Apply thinking config for both Flash and Pro models based on the agent's settings.
-    if (config.model === GEMINI_FLASH_MODEL) {
-        const budget = GEMINI_FLASH_BUDGETS[config.settings.effort];
-        if (generateContentParams.config) generateContentParams.config.thinkingConfig = { thinkingBudget: budget };
-    } else if (config.model === GEMINI_PRO_MODEL) {
-        // 'none' is not a valid effort for Pro, so we map it to 'dynamic' as a safe default.
-        const effortForPro = config.settings.effort === 'none' 
-            ? 'dynamic' 
-            : config.settings.effort;
-        const budget = GEMINI_PRO_BUDGETS[effortForPro];
-        if (generateContentParams.config) generateContentParams.config.thinkingConfig = { thinkingBudget: budget };
-    }
-
-    // Validate API key before making the call
-    let geminiAI;
-    try {
-        geminiAI = getGeminiClient();
-    } catch (error) {
-        throw new Error(`Gemini API key is missing or invalid. Please check your API key in settings.`);
-    }
-    const timeoutMs = normalizeGeminiTimeout(
-        config.settings.timeoutMs ?? DEFAULT_GEMINI_TIMEOUT_MS,
-        DEFAULT_GEMINI_TIMEOUT_MS,
-        { expertName: expert.name }
-    );
-    const start = performance.now();
-    const timeoutController = new AbortController();
-    const timeoutHandle = setTimeout(() => timeoutController.abort(), timeoutMs);
-    let cleanup: (() => void) | undefined;
-    try {
-        const stream = await callWithGeminiRetry(
-            (signal) => {
-                cleanup?.();
-                if (timeoutController.signal.aborted) {
-                    const elapsed = performance.now() - start;
-                    return Promise.reject(new Error(formatTimeoutError(expert.name, config.model, timeoutMs, elapsed)));
-                }
-                if (abortSignal?.aborted) {
-                    const abortErr = new Error('Aborted');
-                    abortErr.name = 'AbortError';
-                    return Promise.reject(abortErr);
-                }
-                const combined = combineAbortSignals(signal, abortSignal, timeoutController.signal);
-                cleanup = combined.cleanup;
-                if (generateContentParams.config) {
-                    generateContentParams.config.abortSignal = combined.signal;
-                }
-                try {
-                    return geminiAI.models.generateContentStream(generateContentParams);
-                } catch (error) {
-                    if (timeoutController.signal.aborted) {
-                        const elapsed = performance.now() - start;
-                        throw new Error(formatTimeoutError(expert.name, config.model, timeoutMs, elapsed));
-                    }
-                    throw error;
-                }
-            },
-            { retries: GEMINI_RETRY_COUNT, baseDelayMs: GEMINI_BACKOFF_MS, timeoutMs }
-        );
-        return await processGeminiStream(stream, expert, config.model, timeoutController, start, timeoutMs);
-    } catch (error) {
-        if (isAbortError(error)) {
-            throw error as Error;
-        }
-        if (error instanceof Error) {
-            if (error.message.startsWith(`Expert "${expert.name}" exceeded the configured timeout`)) {
-                throw error;
-            } else if (error.message.startsWith('Gemini request timed out')) {
-                const elapsed = performance.now() - start;
-                throw new Error(formatTimeoutError(expert.name, config.model, timeoutMs, elapsed));
-            }
-        }
-        return handleGeminiError(error, 'dispatcher', 'dispatch');
-    } finally {
-        clearTimeout(timeoutHandle);
-        cleanup?.();
-    }
-}
-
-const createDeepConfTraceProvider = <C extends AgentConfig>(
-    runFn: (
-        expert: ExpertDispatch,
-        prompt: string,
-        images: ImageState[],
-        config: C,
-        abortSignal?: AbortSignal
-    ) => Promise<ExpertResult>,
+const createDeepConfTraceProvider = (
+    adapter: ProviderAdapter,
     expert: ExpertDispatch,
     images: ImageState[],
-    config: C,
-    orchestrationAbortSignal?: AbortSignal
+    config: AgentConfig,
+    orchestrationAbortSignal?: AbortSignal,
+    hooks?: GenerateHooks
 ): TraceProvider => {
     const segmenter = globalThis.Intl?.Segmenter
         ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
@@ -269,7 +32,9 @@ const createDeepConfTraceProvider = <C extends AgentConfig>(
         generate: async (p, signal) => {
             const { signal: finalSignal, cleanup } = combineAbortSignals(signal, orchestrationAbortSignal);
             try {
-                const { content: text } = await runFn(expert, p, images, config, finalSignal);
+                // Individual traces are not streamed to the UI; only the selected answer is shown.
+                const traceHooks = hooks && { onQueued: hooks.onQueued, onStart: hooks.onStart };
+                const { content: text } = await adapter.generate(expert, p, images, config, { abortSignal: finalSignal, hooks: traceHooks });
                 const tokens = segmenter
                     ? Array.from(segmenter.segment(text), ({ segment }) => segment)
                     // Array.from on a string iterates by code point; complex grapheme clusters may split
@@ -286,206 +51,101 @@ const createDeepConfTraceProvider = <C extends AgentConfig>(
     };
 };
 
-const runExpertGeminiDeepConf = async (
-    expert: ExpertDispatch,
-    prompt: string,
-    images: ImageState[],
-    config: GeminiAgentConfig,
-    abortSignal?: AbortSignal
-): Promise<string> => {
-    const { generationStrategy, traceCount, deepConfEta, tau, groupWindow } = config.settings;
-
-    const provider = createDeepConfTraceProvider(runExpertGeminiSingle, expert, images, config, abortSignal);
-
-    const extractAnswer = (trace: Trace) => trace.text.trim();
-
-    const opts = {
-        etaPercent: deepConfEta,
-        maxBudget: traceCount,
-        warmupTraces: Math.min(traceCount, DEFAULTS.warmupTraces),
-        tau,
-        groupWindow,
-    };
-
-    if (generationStrategy === 'deepconf-online') {
-        const { content } = await deepConfOnlineWithJudge(provider, prompt, extractAnswer, config.model, opts);
-        return content;
-    } else { // deepconf-offline
-        const { content } = await deepConfOfflineWithJudge(provider, prompt, extractAnswer, config.model, opts);
-        return content;
-    }
-}
-
-const runExpertOpenAISingle = async (
+/** Streams logprob traces for the token-confidence DeepConf variants. */
+const createDeepConfStepProvider = (
+    adapter: ProviderAdapter,
     expert: ExpertDispatch,
     prompt: string,
     images: ImageState[],
-    config: OpenAIAgentConfig,
-    abortSignal?: AbortSignal
-): Promise<string> => {
-    const openaiAI = getOpenAIClient();
-
-    let systemMessage = expert.persona;
-    systemMessage += `\nYour response verbosity should be ${config.settings.verbosity}.`;
-    if (config.settings.effort === 'high') {
-        systemMessage = OPENAI_REASONING_PROMPT_PREFIX + systemMessage;
-    }
+    config: AgentConfig,
+    orchestrationAbortSignal?: AbortSignal,
+    hooks?: GenerateHooks
+): Provider => ({
+    stream: async (onDelta, abort) => {
+        if (!adapter.generateTrace) throw new Error(`${adapter.id} does not support logprob traces.`);
+        const { signal, cleanup } = combineAbortSignals(abort, orchestrationAbortSignal);
+        try {
+            const traceHooks = hooks && { onQueued: hooks.onQueued, onStart: hooks.onStart };
+            return await adapter.generateTrace(expert, prompt, images, config, {
+                abortSignal: signal,
+                hooks: traceHooks,
+                topLogprobs: DEFAULTS.kTop,
+                onStep: onDelta,
+            });
+        } finally {
+            cleanup();
+        }
+    },
+});
 
-    const userContent: any = images.length > 0
-        ? [
-            { type: 'input_text', text: prompt },
-            ...images.map(img => ({
-                type: 'input_image',
-                image_url: { url: `data:${img.file.type};base64,${img.base64}` },
-            }))
-        ]
-        : prompt;
+type DeepConfAgentConfig = Extract<AgentConfig, { settings: { generationStrategy: unknown } }>;
 
-    const response = await callWithRetry(
-        () =>
-            openaiAI.responses.create(
-                {
-                    model: expert.model,
-                    reasoning: { effort: config.settings.effort },
-                    input: [
-                        { role: 'system', content: systemMessage },
-                        { role: 'user', content: userContent },
-                    ],
-                },
-                { signal: abortSignal }
-            ),
-        'OpenAI'
-    );
-    return response.output_text || 'No content received.';
-}
+/** Whether the agent samples several traces with DeepConf instead of answering once. */
+const usesDeepConf = (config: AgentConfig): config is DeepConfAgentConfig =>
+    'generationStrategy' in config.settings && config.settings.generationStrategy !== 'single';
 
-const runExpertOpenAIDeepConf = async (
+/**
+ * Samples DeepConf traces with the agent's provider. Traces are scored by token
+ * logprobs when the agent asks for them and the provider returns them, and by
+ * the provider's judge otherwise.
+ */
+const runExpertDeepConf = async (
+    adapter: ProviderAdapter,
     expert: ExpertDispatch,
     prompt: string,
     images: ImageState[],
-    config: OpenAIAgentConfig,
-    abortSignal?: AbortSignal
-): Promise<string> => {
-    const { generationStrategy, traceCount, deepConfEta, tau, groupWindow } = config.settings;
+    config: DeepConfAgentConfig,
+    abortSignal?: AbortSignal,
+    hooks?: GenerateHooks
+): Promise<DeepConfResult> => {
+    const { generationStrategy, confidenceSource, traceCount, deepConfEta, tau, groupWindow, answerExtractor, voteMode, voteSimilarity } = config.settings;
 
-    const provider = createDeepConfTraceProvider(
-        async (e, p, i, c, s) => ({ content: await runExpertOpenAISingle(e, p, i, c, s), isPartial: false }),
-        expert,
-        images,
-        config,
-        abortSignal
-    );
+    // A trace without an answer in the expected form votes with its whole text, which rarely wins.
+    const extract = createAnswerExtractor(answerExtractor);
+    const extractAnswer = (trace: Trace) => extract(trace.text) ?? trace.text.trim();
 
-    const extractAnswer = (trace: Trace) => trace.text.trim();
-    
     const opts = {
         etaPercent: deepConfEta,
         maxBudget: traceCount,
         warmupTraces: Math.min(traceCount, DEFAULTS.warmupTraces),
         tau,
         groupWindow,
+        // Semantic votes merge similar answers, so free-form traces can reach consensus and stop online sampling early.
+        ...(voteMode === 'semantic' && { clusterAnswers: createAnswerClusterer(voteSimilarity, abortSignal) }),
     };
 
-    // Use judge-based DeepConf for OpenAI, similar to Gemini, as logprobs are not available.
-    if (generationStrategy === 'deepconf-online') {
-        const { content } = await deepConfOnlineWithJudge(provider, prompt, extractAnswer, config.model, opts);
-        return content;
-    } else { // deepconf-offline
-        const { content } = await deepConfOfflineWithJudge(provider, prompt, extractAnswer, config.model, opts);
-        return content;
-    }
-};
-
-const runExpertOpenRouterSingle = async (
-    expert: ExpertDispatch,
-    prompt: string,
-    images: ImageState[],
-    config: OpenRouterAgentConfig,
-    abortSignal?: AbortSignal
-): Promise<string> => {
-    const openRouterKey = getOpenRouterApiKey();
-    if (!openRouterKey) throw new Error("OpenRouter API Key not set.");
-
-    const headers = {
-        'Authorization': `Bearer ${openRouterKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': getAppUrl(),
-        'X-Title': 'HeavyOrc',
-    };
-
-    const messages: OpenRouterMessage[] = [{ role: 'system', content: expert.persona }];
-    if (images.length > 0) {
-        const userContent: OpenRouterContentPart[] = [{ type: 'text', text: prompt }];
-        images.forEach(img => {
-            userContent.push({
-                type: 'image_url',
-                image_url: { url: `data:${img.file.type};base64,${img.base64}` },
-            });
-        });
-        messages.push({ role: 'user', content: userContent });
-    } else {
-        messages.push({ role: 'user', content: prompt });
+    if (confidenceSource === 'logprobs' && adapter.generateTrace && adapter.capabilities(config.model).logprobs) {
+        const provider = createDeepConfStepProvider(adapter, expert, prompt, images, config, abortSignal, hooks);
+        return generationStrategy === 'deepconf-online'
+            ? deepConfOnline(provider, extractAnswer, opts)
+            // Bottom-10% group confidence was among the strongest offline metrics in the DeepConf paper.
+            : deepConfOffline(provider, extractAnswer, 'bottom10', opts);
     }
 
-    const body = {
-        model: expert.model,
-        messages,
-        ...config.settings
-    };
-
-    const response = await fetchWithRetry(
-        'https://openrouter.ai/api/v1/chat/completions',
-        {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(body),
-            signal: abortSignal,
-        }
-    );
-
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenRouter API Error: ${errorData.error?.message || response.statusText}`);
+    const provider = createDeepConfTraceProvider(adapter, expert, images, config, abortSignal, hooks);
+    if (generationStrategy === 'deepconf-online') {
+        return deepConfOnlineWithJudge(provider, prompt, extractAnswer, adapter, config.model, opts, abortSignal);
+    } else { // deepconf-offline
+        return deepConfOfflineWithJudge(provider, prompt, extractAnswer, adapter, config.model, opts, abortSignal);
     }
-
-    const data = await response.json();
-    return data.choices[0].message.content || 'No content received.';
 };
 
-
 const runExpert = async (
     expert: ExpertDispatch,
     prompt: string,
     images: ImageState[],
     config: AgentConfig,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    hooks?: GenerateHooks,
+    structuredOutput?: StructuredOutput | null
 ): Promise<Draft> => {
     try {
-        let result: ExpertResult;
-
-        if (config.provider === 'gemini') {
-            const geminiConfig = config as GeminiAgentConfig;
-            if (geminiConfig.settings.generationStrategy === 'single') {
-                result = await runExpertGeminiSingle(expert, prompt, images, geminiConfig, abortSignal);
-            } else {
-                const content = await runExpertGeminiDeepConf(expert, prompt, images, geminiConfig, abortSignal);
-                result = { content, isPartial: false };
-            }
-        } else if (config.provider === 'openai') {
-            const openaiConfig = config as OpenAIAgentConfig;
-            if (openaiConfig.settings.generationStrategy === 'single') {
-                const content = await runExpertOpenAISingle(expert, prompt, images, openaiConfig, abortSignal);
-                result = { content, isPartial: false };
-            } else {
-                const content = await runExpertOpenAIDeepConf(expert, prompt, images, openaiConfig, abortSignal);
-                result = { content, isPartial: false };
-            }
-        } else { // openrouter
-             const openRouterConfig = config as OpenRouterAgentConfig;
-             // DeepConf is not implemented for OpenRouter in this example, falls back to single
-             const content = await runExpertOpenRouterSingle(expert, prompt, images, openRouterConfig, abortSignal);
-             result = { content, isPartial: false };
+        const adapter = getProvider(config.provider);
+        if (usesDeepConf(config)) {
+            const { content, vote } = await runExpertDeepConf(adapter, expert, prompt, images, config, abortSignal, hooks);
+            return { agentId: expert.agentId, expert, content, status: 'COMPLETED', isPartial: false, vote };
         }
+        const result: GenerateResult = await adapter.generate(expert, prompt, images, config, { abortSignal, hooks, structuredOutput });
 
         return {
             agentId: expert.agentId,
@@ -518,7 +178,83 @@ const runExpert = async (
     }
 };
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Runs an expert in structured-output mode: the schema is added to the prompt
+ * (DeepConf traces have no native response format), and a draft that does not
+ * validate is retried with the errors before it is marked failed. Valid drafts
+ * are stored as pretty-printed JSON.
+ */
+const runStructuredExpert = async (
+    expert: ExpertDispatch,
+    prompt: string,
+    images: ImageState[],
+    config: AgentConfig,
+    structuredOutput: StructuredOutput,
+    abortSignal?: AbortSignal,
+    hooks?: GenerateHooks
+): Promise<Draft> => {
+    const basePrompt = `${prompt}\n\n${buildSchemaInstruction(structuredOutput)}`;
+    let attemptPrompt = basePrompt;
+    for (let attempt = 0; ; attempt++) {
+        const draft = await runExpert(expert, attemptPrompt, images, config, abortSignal, hooks, structuredOutput);
+        if (draft.status !== 'COMPLETED') return draft;
+
+        const result = parseStructuredReply(draft.content, structuredOutput);
+        if (result.success) return { ...draft, content: JSON.stringify(result.value, null, 2) };
+        if (attempt >= STRUCTURED_OUTPUT_RETRIES) {
+            return { ...draft, status: 'FAILED', error: `Draft does not match the output schema: ${result.errors.join('; ')}` };
+        }
+        attemptPrompt = buildSchemaRetryPrompt(basePrompt, result.errors);
+    }
+};
+
+/**
+ * Builds per-agent hooks that report the agent as QUEUED while it waits for its
+ * first scheduler slot and RUNNING once any of its requests starts, and forward
+ * streamed text. Later requests from the same agent (e.g. DeepConf traces) do
+ * not flip it back to QUEUED.
+ */
+const createAgentHooks = (
+    agentId: string,
+    onAgentStatusChange?: (agentId: string, status: AgentStatus) => void,
+    onDraftDelta?: (agentId: string, text: string) => void
+): GenerateHooks => {
+    let started = false;
+    return {
+        onDelta: onDraftDelta && ((text) => onDraftDelta(agentId, text)),
+        onQueued: () => {
+            if (!started) onAgentStatusChange?.(agentId, 'QUEUED');
+        },
+        onStart: () => {
+            if (!started) {
+                started = true;
+                onAgentStatusChange?.(agentId, 'RUNNING');
+            }
+        },
+    };
+};
+
+export interface DispatchOptions {
+    onAgentStatusChange?: (agentId: string, status: AgentStatus) => void;
+    onDraftDelta?: (agentId: string, text: string) => void;
+    /** Per-agent signals; aborting one cancels only that agent and yields a failed draft. */
+    agentAbortSignals?: Record<string, AbortSignal>;
+    /** Per-agent prompts used instead of the shared prompt, e.g. for debate rounds. */
+    agentPrompts?: Record<string, string>;
+    /** Requires every draft to be JSON matching this schema. */
+    structuredOutput?: StructuredOutput | null;
+}
+
+export const AGENT_CANCELLED_MESSAGE = 'Cancelled by user.';
+
+const createCancelledDraft = (expert: ExpertDispatch): Draft => ({
+    agentId: expert.agentId,
+    expert,
+    content: 'This agent was cancelled before it finished.',
+    status: 'FAILED',
+    isPartial: false,
+    error: AGENT_CANCELLED_MESSAGE,
+});
 
 export const dispatch = async (
     dispatchedExperts: ExpertDispatch[],
@@ -526,50 +262,41 @@ export const dispatch = async (
     images: ImageState[],
     agentConfigs: AgentConfig[],
     onDraftComplete: (draft: Draft) => void,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    options: DispatchOptions = {}
 ): Promise<Draft[]> => {
-    const OPENAI_REQUEST_DELAY_MS = 250;
-
+    const { onAgentStatusChange, onDraftDelta, agentAbortSignals, agentPrompts, structuredOutput } = options;
     const expertsWithConfigs = dispatchedExperts.map((expert) => ({ 
         expert, 
         config: agentConfigs.find(c => c.id === expert.agentId)
     })).filter((item): item is { expert: ExpertDispatch, config: AgentConfig } => item.config !== undefined);
 
-    const geminiExperts = expertsWithConfigs.filter(
-        (e): e is { expert: ExpertDispatch; config: GeminiAgentConfig } => e.config.provider === 'gemini'
-    );
-    const openAIExperts = expertsWithConfigs.filter(
-        (e): e is { expert: ExpertDispatch; config: OpenAIAgentConfig } => e.config.provider === 'openai'
-    );
-    const openRouterExperts = expertsWithConfigs.filter(
-        (e): e is { expert: ExpertDispatch; config: OpenRouterAgentConfig } => e.config.provider === 'openrouter'
-    );
-
-    const draftPromises: Promise<Draft>[] = [];
-
-    // Start all Gemini and OpenRouter experts in parallel
-    const parallelExperts = [...geminiExperts, ...openRouterExperts];
-    parallelExperts.forEach(({ expert, config }) => {
-        const promise = runExpert(expert, prompt, images, config, abortSignal).then(draft => {
+    // All experts start together; the shared scheduler enforces per-provider and
+    // per-model concurrency and rate limits, queueing requests as needed.
+    const draftPromises: Promise<Draft>[] = expertsWithConfigs.map(({ expert, config }) => {
+        const agentSignal = agentAbortSignals?.[expert.agentId];
+        const { signal, cleanup } = combineAbortSignals(abortSignal, agentSignal);
+        const wasCancelled = () => !!agentSignal?.aborted && !abortSignal?.aborted;
+
+        const agentPrompt = agentPrompts?.[expert.agentId] ?? prompt;
+        const hooks = createAgentHooks(expert.agentId, onAgentStatusChange, onDraftDelta);
+        const run = structuredOutput
+            ? runStructuredExpert(expert, agentPrompt, images, config, structuredOutput, signal, hooks)
+            : runExpert(expert, agentPrompt, images, config, signal, hooks);
+
+        return run.then(
+            draft => (draft.status !== 'COMPLETED' && wasCancelled() ? createCancelledDraft(expert) : draft),
+            error => {
+                if (wasCancelled()) return createCancelledDraft(expert);
+                throw error;
+            }
+        ).then(draft => {
             onDraftComplete(draft);
             return draft;
-        });
-        draftPromises.push(promise);
+        }).finally(cleanup);
     });
 
     try {
-        // Run all OpenAI experts sequentially with a delay to avoid rate limits
-        for (const { expert, config } of openAIExperts) {
-            const promise = runExpert(expert, prompt, images, config, abortSignal).then(draft => {
-                onDraftComplete(draft);
-                return draft;
-            });
-            draftPromises.push(promise);
-            await promise;
-            if (config.settings.generationStrategy === 'single') {
-                await delay(OPENAI_REQUEST_DELAY_MS);
-            }
-        }
         return await Promise.all(draftPromises);
     } finally {
         // Ensure all expert promises settle to avoid unhandled rejections when dispatch is aborted
@@ -0,0 +1,56 @@
+import { Draft } from './types';
+
+/** Word n-gram length used for shingling. */
+const SHINGLE_SIZE = 3;
+
+/** Minimum Jaccard similarity between shingle sets for two drafts to count as near-duplicates. */
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+/** Near-duplicate drafts collapsed into one representative. */
+export interface DraftCluster {
+    /** The first draft of the cluster; its text is what the arbiter sees. */
+    representative: Draft;
+    /** Every draft in the cluster, including the representative, in input order. */
+    members: Draft[];
+}
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}\s]+/gu, ' ').split(/\s+/).filter(Boolean);
+
+/** Word shingles of a text; texts shorter than a shingle become a single shingle. */
+export const shingle = (text: string, size = SHINGLE_SIZE): Set<string> => {
+    const words = tokenize(text);
+    if (words.length <= size) return new Set([words.join(' ')]);
+    const shingles = new Set<string>();
+    for (let i = 0; i + size <= words.length; i++) {
+        shingles.add(words.slice(i, i + size).join(' '));
+    }
+    return shingles;
+};
+
+export const jaccard = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 && b.size === 0) return 1;
+    let intersection = 0;
+    for (const item of a) {
+        if (b.has(item)) intersection++;
+    }
+    return intersection / (a.size + b.size - intersection);
+};
+
+/**
+ * Greedily groups drafts whose shingle similarity to a cluster's representative
+ * meets `threshold`. Clusters keep the order in which they were first seen.
+ */
+export const clusterDrafts = (drafts: Draft[], threshold = NEAR_DUPLICATE_THRESHOLD): DraftCluster[] => {
+    const clusters: (DraftCluster & { shingles: Set<string> })[] = [];
+    for (const draft of drafts) {
+        const shingles = shingle(draft.content);
+        const match = clusters.find(c => jaccard(c.shingles, shingles) >= threshold);
+        if (match) {
+            match.members.push(draft);
+        } else {
+            clusters.push({ representative: draft, members: [draft], shingles });
+        }
+    }
+    return clusters.map(({ representative, members }) => ({ representative, members }));
+};
@@ -2,28 +2,62 @@
 
 
 import { dispatch } from './dispatcher';
-import { arbitrateStream } from './arbiter';
-import { Draft, ExpertDispatch } from './types';
-import { GEMINI_PRO_MODEL } from '@/constants';
-import { AgentConfig, GeminiThinkingEffort, ImageState, OpenAIReasoningEffort } from '@/types';
+import { arbitrateStream, arbitrateStructured, buildArbiterPrompt, reportControversies, reviseAnswerStream, selectFallbackDraft, singleChunk } from './arbiter';
+import { getAttributionSources } from './attribution';
+import { buildDebatePrompt, MAX_DEBATE_ROUNDS } from './debate';
+import { bestPass, MAX_VERIFIER_ITERATIONS, writesNewAnswer } from './verifier';
+import { resolveStructuredOutput, StructuredOutput } from './structuredOutput';
+import { passThroughRouter, resolveRoute, Router } from './router';
+import { Draft, ExpertDispatch, RouterDecision } from './types';
+import { AgentConfig, AgentState, AgentStatus, ArbiterMode, ArbiterModel, ArbiterSettingsSnapshot, ArbiterTemplate, AttributionSources, Controversy, DebateSettings, GeminiThinkingEffort, ImageState, OpenAIReasoningEffort, RunRecord, VerifierPass, VerifierSettings } from '@/types';
+import { judgeAnswer } from '@/services/deepconf';
+import { providerForModel } from '@/services/providers';
 import type { Tiktoken } from '@dqbd/tiktoken/lite/init';
 import wasm from '@dqbd/tiktoken/lite/tiktoken_bg.wasm?url';
 import model from '@dqbd/tiktoken/encoders/cl100k_base.json';
 import { wasmSupportsSimd, wasmSupportsThreads } from '@/lib/wasmFeatures';
 
-export interface OrchestrationParams {
+export interface ArbitrationParams {
     prompt: string;
-    images: ImageState[];
-    agentConfigs: AgentConfig[];
     arbiterModel: string;
     openAIArbiterVerbosity: 'low' | 'medium' | 'high';
     openAIArbiterEffort: OpenAIReasoningEffort;
     geminiArbiterEffort: GeminiThinkingEffort;
+    /** Defaults to `synthesize`. */
+    arbiterMode?: ArbiterMode;
+    /** Shapes the final synthesis; map-reduce batches always use the default. Defaults to `DEFAULT_ARBITER_TEMPLATE`. */
+    arbiterTemplate?: ArbiterTemplate;
+    /** Tried in order when the arbiter fails; the best single draft is the last resort. */
+    arbiterFallbackModels?: ArbiterModel[];
+    /** Images of the run; the arbiter only sees them with `sendImagesToArbiter`. */
+    images?: ImageState[];
+    /** Sends `images` to arbiter models that accept them. Defaults to true. */
+    sendImagesToArbiter?: boolean;
+    /** Makes the agents and arbiter answer with JSON matching this schema. */
+    structuredOutput?: StructuredOutput | null;
+}
+
+export interface OrchestrationParams extends ArbitrationParams {
+    images: ImageState[];
+    agentConfigs: AgentConfig[];
+    /** Selects the subset of `agentConfigs` to dispatch. Defaults to all agents. */
+    router?: Router;
+    /** Defaults to a single parallel round. */
+    debateSettings?: DebateSettings;
 }
 
 export interface OrchestrationCallbacks {
+    onRouterDecision?: (decision: RouterDecision) => void;
     onInitialAgents: (dispatchedExperts: ExpertDispatch[]) => void;
     onDraftComplete: (draft: Draft) => void;
+    /** Receives an agent's output text as it streams in, before `onDraftComplete`. */
+    onDraftDelta?: (agentId: string, text: string) => void;
+    /** Reports agents waiting on the shared scheduler (QUEUED) and when they start (RUNNING). */
+    onAgentStatusChange?: (agentId: string, status: AgentStatus) => void;
+    /** Called before each debate round (2 is the first revision) with the agents taking part. */
+    onDebateRound?: (round: number, agentIds: string[]) => void;
+    /** Called when an agent's revision in `round` fails, before `onDraftComplete` re-delivers its previous draft. */
+    onDebateRevisionFailed?: (round: number, agentId: string) => void;
 }
 
 // More accurate token estimator using tiktoken's cl100k_base encoding
@@ -60,97 +94,587 @@ const estimateTokens = async (text: string): Promise<number> => {
     }
     return encoder.encode(text).length;
 };
-// Lowered from 300k to 28k to stay under the observed 30k TPM limit for the gpt-5 model.
-const ARBITER_TOKEN_THRESHOLD = 28_000;
+interface ArbitrationResult {
+    stream: ReadableStream<string>;
+    /** Batches the drafts were split into for map-reduce arbitration; 0 when they fit in one arbiter call. */
+    mapReduceBatches: number;
+    /** Drafts cut short to fit the arbiter model's context window; 0 when none were. */
+    truncatedDrafts: number;
+    /** Draft labels cited in the answer; only set in `attributed` mode. */
+    attributionSources: AttributionSources | null;
+    /** Explains which arbiter failed and what produced the answer instead; null when the chosen arbiter answered. */
+    arbiterFallbackWarning: string | null;
+}
 
-interface OrchestrationPromiseResult {
+/** Notices for the answer: map-reduce, truncated drafts and arbiter fallbacks; null when the chosen arbiter saw every draft whole. */
+export const arbiterSwitchWarningFor = ({ mapReduceBatches, truncatedDrafts, arbiterFallbackWarning }: Pick<ArbitrationResult, 'mapReduceBatches' | 'truncatedDrafts' | 'arbiterFallbackWarning'>): string | null =>
+    [
+        mapReduceBatches > 0 && `The drafts were too large for a single arbiter call, so they were arbitrated in ${mapReduceBatches} batches first and the intermediate results merged by the selected arbiter.`,
+        truncatedDrafts > 0 && `${truncatedDrafts === 1 ? '1 draft was' : `${truncatedDrafts} drafts were`} too long for the arbiter model's context window and ${truncatedDrafts === 1 ? 'was' : 'were'} truncated.`,
+        arbiterFallbackWarning,
+    ].filter(Boolean).join(' ') || null;
+
+interface ModelArbitration extends Pick<ArbitrationResult, 'mapReduceBatches' | 'truncatedDrafts' | 'attributionSources'> {
+    generator: AsyncGenerator<{ text: string }>;
+}
+
+interface OrchestrationPromiseResult extends ArbitrationResult {
+    routerDecision: RouterDecision;
     drafts: Draft[];
-    stream: ReadableStream<string>;
-    switchedArbiter: boolean;
 }
 
-export const runOrchestration = (
-    params: OrchestrationParams,
-    callbacks: OrchestrationCallbacks
-) => {
-    const controller = new AbortController();
-    // 1. Map AgentConfigs to ExpertDispatches (routing is now done by the user)
-    const dispatchedExperts: ExpertDispatch[] = params.agentConfigs.map(config => ({
-        agentId: config.id,
-        id: config.expert.id,
-        name: config.expert.name,
-        persona: config.expert.persona,
-        provider: config.provider,
-        model: config.model,
-    }));
-    callbacks.onInitialAgents(dispatchedExperts);
+type PromptedArbiterMode = Extract<ArbiterMode, Parameters<typeof buildArbiterPrompt>[2]>;
 
-    // 2. Dispatch to experts in parallel
-    const dispatchPromise = dispatch(
-        dispatchedExperts,
-        params.prompt,
-        params.images,
-        params.agentConfigs,
-        callbacks.onDraftComplete,
-        controller.signal
-    );
+const toExpertDispatch = (config: AgentConfig): ExpertDispatch => ({
+    agentId: config.id,
+    id: config.expert.id,
+    name: config.expert.name,
+    persona: config.expert.persona,
+    provider: config.provider,
+    model: config.model,
+});
 
-    const promise: Promise<OrchestrationPromiseResult> = (async () => {
-        const drafts = await dispatchPromise;
+const structuredOutputFor = (params: ArbitrationParams, mode: ArbiterMode): StructuredOutput | null =>
+    writesNewAnswer(mode) ? params.structuredOutput ?? null : null;
 
-        // 3. Arbitrate the results
-        let finalArbiterModel = params.arbiterModel;
-        let switchedArbiter = false;
+const arbiterImages = (params: ArbitrationParams): ImageState[] =>
+    (params.sendImagesToArbiter ?? true) ? params.images ?? [] : [];
 
-        const successfulDrafts = drafts.filter(d => d.status === 'COMPLETED');
-        const isGptModel = finalArbiterModel.startsWith('gpt-');
-        const isOpenRouterModel = finalArbiterModel.includes('/');
+/** Allowance for each draft's heading, agreement note, separator and agent list line. */
+const DRAFT_ENTRY_TOKENS = 64;
+const TRUNCATION_NOTE = '\n\n[Truncated to fit the arbiter model\'s context window.]';
 
-        if (successfulDrafts.length > 0 && (isGptModel || isOpenRouterModel)) {
-            const arbiterPrompt = `The original user question is:\n"${params.prompt}"\n\nHere are ${successfulDrafts.length} candidate answers from different expert agents. Please synthesize them into the best possible single answer.\n\n${successfulDrafts
-                .map((d, i) => `### Draft from Agent ${i + 1} (Provider: ${d.expert.provider}, Persona: ${d.expert.name})\n${d.content}`)
-                .join("\n\n---\n\n")}`;
+/** Shortens `draft` to roughly `maxTokens`, given that its content is `tokens` long. */
+const truncateDraft = (draft: Draft, tokens: number, maxTokens: number): Draft => ({
+    ...draft,
+    content: draft.content.slice(0, Math.floor(draft.content.length * Math.max(0, maxTokens) / tokens)) + TRUNCATION_NOTE,
+});
 
-            const estimatedTokens = await estimateTokens(arbiterPrompt);
+/**
+ * Splits drafts into consecutive batches whose arbiter prompt stays under
+ * `maxTokens`. A draft longer than half the room the prompt template leaves is
+ * truncated, so every batch holds at least two drafts and each map pass
+ * shrinks the set; `truncated` counts those drafts.
+ */
+const batchDrafts = async (
+    prompt: string,
+    drafts: Draft[],
+    mode: Parameters<typeof buildArbiterPrompt>[2],
+    maxTokens: number,
+    template?: ArbiterTemplate
+): Promise<{ batches: Draft[][]; truncated: number }> => {
+    const templateTokens = await estimateTokens(buildArbiterPrompt(prompt, [], mode, template?.userPrompt).text);
+    const draftBudget = Math.max(2 * DRAFT_ENTRY_TOKENS, Math.floor((maxTokens - templateTokens) / 2));
+    const contentBudget = draftBudget - DRAFT_ENTRY_TOKENS - await estimateTokens(TRUNCATION_NOTE);
 
-            if (estimatedTokens > ARBITER_TOKEN_THRESHOLD) {
-                finalArbiterModel = GEMINI_PRO_MODEL; // Switch to Gemini Pro
-                switchedArbiter = true;
-            }
+    const batches: Draft[][] = [];
+    let current: Draft[] = [];
+    let currentTokens = templateTokens;
+    let truncated = 0;
+    for (const draft of drafts) {
+        const contentTokens = await estimateTokens(draft.content);
+        const fits = contentTokens + DRAFT_ENTRY_TOKENS <= draftBudget;
+        const entry = fits ? draft : truncateDraft(draft, contentTokens, contentBudget);
+        const entryTokens = fits ? contentTokens + DRAFT_ENTRY_TOKENS : draftBudget;
+        if (!fits) truncated++;
+        if (current.length > 0 && currentTokens + entryTokens > maxTokens) {
+            batches.push(current);
+            current = [];
+            currentTokens = templateTokens;
+        }
+        current.push(entry);
+        currentTokens += entryTokens;
+    }
+    if (current.length > 0) batches.push(current);
+    return { batches, truncated };
+};
+
+/** Map step: arbitrates each batch with the chosen arbiter into one intermediate draft. */
+const mapBatches = (
+    params: ArbitrationParams,
+    batches: Draft[][],
+    mode: PromptedArbiterMode,
+    level: number,
+    abortSignal: AbortSignal
+): Promise<Draft[]> =>
+    Promise.all(batches.map(async (batch, i): Promise<Draft> => {
+        const structuredOutput = structuredOutputFor(params, mode);
+        let content = '';
+        if (structuredOutput) {
+            content = await arbitrateStructured(
+                params.arbiterModel,
+                params.prompt,
+                batch,
+                structuredOutput,
+                params.openAIArbiterEffort,
+                params.geminiArbiterEffort,
+                abortSignal,
+                arbiterImages(params)
+            );
+        } else {
+            const generator = await arbitrateStream(
+                params.arbiterModel,
+                params.prompt,
+                batch,
+                params.openAIArbiterVerbosity,
+                params.openAIArbiterEffort,
+                params.geminiArbiterEffort,
+                abortSignal,
+                mode,
+                undefined,
+                arbiterImages(params)
+            );
+            for await (const chunk of generator) content += chunk.text;
+        }
+
+        // Select-best returns a draft verbatim, so keep its original attribution.
+        const selected = batch.find(d => d.content === content);
+        if (selected) return selected;
+
+        const agentId = `arbiter-batch-${level}-${i + 1}`;
+        return {
+            agentId,
+            expert: {
+                agentId,
+                id: agentId,
+                name: `Batch ${i + 1} synthesis`,
+                persona: `Intermediate synthesis of ${batch.length} drafts.`,
+                provider: providerForModel(params.arbiterModel).id,
+                model: params.arbiterModel,
+            },
+            content,
+            status: 'COMPLETED',
+        };
+    }));
+
+/** Map-reduce (when the drafts are too large) and the final arbiter call, all with `params.arbiterModel`. */
+const arbitrateWithModel = async (
+    params: ArbitrationParams,
+    drafts: Draft[],
+    abortSignal: AbortSignal
+): Promise<ModelArbitration> => {
+    const { arbiterMode = 'synthesize' } = params;
+    const successfulDrafts = drafts.filter(d => d.status === 'COMPLETED');
+    const { contextWindow } = providerForModel(params.arbiterModel).capabilities(params.arbiterModel);
+
+    // Only modes that send every draft to the arbiter model can exceed its context window.
+    const sendsDraftsToModel = arbiterMode !== 'vote' && arbiterMode !== 'rerank';
+
+    let finalDrafts = drafts;
+    let mapReduceBatches = 0;
+    let truncatedDrafts = 0;
+    // Agents behind each intermediate batch draft, for attribution.
+    const origins = new Map<string, string[]>();
+    const originsOf = (draft: Draft) => origins.get(draft.agentId) ?? [draft.agentId];
+
+    if (
+        sendsDraftsToModel &&
+        successfulDrafts.length > 0 &&
+        await estimateTokens(buildArbiterPrompt(params.prompt, successfulDrafts, arbiterMode, params.arbiterTemplate?.userPrompt).text) > contextWindow
+    ) {
+        let { batches: pending, truncated } = await batchDrafts(params.prompt, successfulDrafts, arbiterMode, contextWindow, params.arbiterTemplate);
+        truncatedDrafts += truncated;
+        let reduced = successfulDrafts;
+        if (pending.length > 1) mapReduceBatches = pending.length;
+        // Attribution markers are only requested in the final pass.
+        const mapMode = arbiterMode === 'attributed' ? 'synthesize' : arbiterMode;
+        for (let level = 1; pending.length > 1 && pending.length < reduced.length; level++) {
+            const batches = pending;
+            const mapped = await mapBatches(params, batches, mapMode, level, abortSignal);
+            mapped.forEach((draft, i) => {
+                if (!batches[i].includes(draft)) origins.set(draft.agentId, batches[i].flatMap(originsOf));
+            });
+            reduced = mapped;
+            ({ batches: pending, truncated } = await batchDrafts(params.prompt, reduced, arbiterMode, contextWindow, params.arbiterTemplate));
+            truncatedDrafts += truncated;
         }
+        // A single batch carries any drafts truncated to fit.
+        finalDrafts = pending.length === 1 ? pending[0] : reduced;
+    }
 
-        const arbiterGenerator = await arbitrateStream(
-            finalArbiterModel,
+    // Structured answers are validated as a whole, so they arrive in one chunk.
+    const structuredOutput = structuredOutputFor(params, arbiterMode);
+    const arbiterGenerator = structuredOutput
+        ? singleChunk(await arbitrateStructured(
+            params.arbiterModel,
+            params.prompt,
+            finalDrafts,
+            structuredOutput,
+            params.openAIArbiterEffort,
+            params.geminiArbiterEffort,
+            abortSignal,
+            arbiterImages(params)
+        ))
+        : await arbitrateStream(
+            params.arbiterModel,
             params.prompt,
-            drafts,
+            finalDrafts,
             params.openAIArbiterVerbosity,
             params.openAIArbiterEffort,
             params.geminiArbiterEffort,
-            controller.signal
+            abortSignal,
+            arbiterMode,
+            params.arbiterTemplate,
+            arbiterImages(params)
         );
 
-        const stream = new ReadableStream<string>({
-            async start(ctrl) {
-                try {
-                    for await (const chunk of arbiterGenerator) {
-                        if (controller.signal.aborted) {
-                            ctrl.error(new DOMException('Aborted', 'AbortError'));
-                            return;
-                        }
-                        ctrl.enqueue(chunk.text);
+    const attributionSources = arbiterMode === 'attributed' && !structuredOutput
+        ? Object.fromEntries(
+            Object.entries(getAttributionSources(finalDrafts.filter(d => d.status === 'COMPLETED')))
+                .map(([label, agentIds]) => [label, agentIds.flatMap(id => origins.get(id) ?? [id])])
+        )
+        : null;
+
+    return { generator: arbiterGenerator, mapReduceBatches, truncatedDrafts, attributionSources };
+};
+
+/** Waits for the first chunk so that failures before the answer starts streaming surface here. */
+const startGenerator = async (generator: AsyncGenerator<{ text: string }>): Promise<AsyncGenerator<{ text: string }>> => {
+    const first = await generator.next();
+    return (async function* () {
+        if (first.done) return;
+        yield first.value;
+        yield* generator;
+    })();
+};
+
+/**
+ * Arbitrates with the chosen model, then each fallback model in turn, and finally
+ * returns the best single draft. Only failures before the answer starts
+ * streaming fall back; a stream that breaks later errors as before.
+ */
+const arbitrate = async (
+    params: ArbitrationParams,
+    drafts: Draft[],
+    controller: AbortController
+): Promise<ArbitrationResult> => {
+    const successfulDrafts = drafts.filter(d => d.status === 'COMPLETED');
+    if (successfulDrafts.length === 0) {
+        throw new Error("All agents failed to produce a draft. Cannot generate a final answer.");
+    }
+
+    const models = [params.arbiterModel, ...(params.arbiterFallbackModels ?? []).filter(m => m !== params.arbiterModel)];
+    const failures: string[] = [];
+    let arbitration: ModelArbitration | null = null;
+    for (const arbiterModel of models) {
+        try {
+            const attempt = await arbitrateWithModel({ ...params, arbiterModel }, drafts, controller.signal);
+            arbitration = { ...attempt, generator: await startGenerator(attempt.generator) };
+            break;
+        } catch (e) {
+            if (controller.signal.aborted) throw e;
+            console.warn(`Arbiter ${arbiterModel} failed:`, e);
+            failures.push(`${arbiterModel} (${e instanceof Error ? e.message : String(e)})`);
+        }
+    }
+
+    let arbiterFallbackWarning: string | null = null;
+    if (!arbitration) {
+        const { draft, score } = await selectFallbackDraft(params.prompt, successfulDrafts, controller.signal);
+        arbitration = { generator: singleChunk(draft.content), mapReduceBatches: 0, truncatedDrafts: 0, attributionSources: null };
+        const choice = score === null ? 'the majority draft' : `the highest-scoring draft (judge score ${score.toFixed(2)})`;
+        arbiterFallbackWarning = `Every arbiter failed: ${failures.join('; ')}. Showing ${choice} from ${draft.expert.name} verbatim.`;
+    } else if (failures.length > 0) {
+        arbiterFallbackWarning = `Arbiter failed: ${failures.join('; ')}. The answer is from fallback arbiter ${models[failures.length]}.`;
+    }
+
+    const arbiterGenerator = arbitration.generator;
+    const stream = new ReadableStream<string>({
+        async start(ctrl) {
+            try {
+                for await (const chunk of arbiterGenerator) {
+                    if (controller.signal.aborted) {
+                        ctrl.error(new DOMException('Aborted', 'AbortError'));
+                        return;
                     }
-                    ctrl.close();
-                } catch (err) {
-                    ctrl.error(err as any);
+                    ctrl.enqueue(chunk.text);
                 }
+                ctrl.close();
+            } catch (err) {
+                ctrl.error(err as any);
+            }
+        },
+        cancel() {
+            controller.abort();
+        },
+    });
+
+    return {
+        stream,
+        mapReduceBatches: arbitration.mapReduceBatches,
+        truncatedDrafts: arbitration.truncatedDrafts,
+        attributionSources: arbitration.attributionSources,
+        arbiterFallbackWarning,
+    };
+};
+
+/**
+ * Critique-and-revise rounds over the first-round drafts. Each agent sees its
+ * peers' latest drafts; an agent whose revision fails keeps its previous draft.
+ */
+const debate = async (
+    params: OrchestrationParams,
+    firstRound: Draft[],
+    agentConfigs: AgentConfig[],
+    callbacks: OrchestrationCallbacks,
+    abortSignal: AbortSignal,
+    agentAbortSignals: Record<string, AbortSignal>
+): Promise<Draft[]> => {
+    const rounds = Math.min(params.debateSettings?.rounds ?? 0, MAX_DEBATE_ROUNDS);
+    let drafts = firstRound;
+
+    for (let round = 2; round <= rounds + 1; round++) {
+        const debaters = drafts.filter(d => d.status === 'COMPLETED' && !agentAbortSignals[d.agentId]?.aborted);
+        if (debaters.length < 2) break;
+
+        const previous = new Map(debaters.map(d => [d.agentId, d]));
+        const keepPreviousOnFailure = (draft: Draft): Draft => draft.status === 'COMPLETED' ? draft : {
+            ...previous.get(draft.agentId)!,
+            error: `Round ${round} revision failed (${draft.error ?? 'unknown error'}); keeping the round ${round - 1} draft.`,
+        };
+
+        callbacks.onDebateRound?.(round, debaters.map(d => d.agentId));
+        const revised = await dispatch(
+            debaters.map(d => d.expert),
+            params.prompt,
+            params.images,
+            agentConfigs,
+            draft => {
+                if (draft.status !== 'COMPLETED') callbacks.onDebateRevisionFailed?.(round, draft.agentId);
+                callbacks.onDraftComplete(keepPreviousOnFailure(draft));
             },
-            cancel() {
-                controller.abort();
-            },
-        });
+            abortSignal,
+            {
+                onAgentStatusChange: callbacks.onAgentStatusChange,
+                onDraftDelta: callbacks.onDraftDelta,
+                agentAbortSignals,
+                structuredOutput: params.structuredOutput,
+                agentPrompts: Object.fromEntries(debaters.map(d => [
+                    d.agentId,
+                    buildDebatePrompt(params.prompt, d, debaters.filter(peer => peer !== d)),
+                ])),
+            }
+        );
+
+        const revisedById = new Map(revised.map(d => [d.agentId, keepPreviousOnFailure(d)]));
+        drafts = drafts.map(d => revisedById.get(d.agentId) ?? d);
+    }
+    return drafts;
+};
+
+export const runOrchestration = (
+    params: OrchestrationParams,
+    callbacks: OrchestrationCallbacks
+) => {
+    const controller = new AbortController();
+    const agentControllers = new Map<string, AbortController>();
+
+    const promise: Promise<OrchestrationPromiseResult> = (async () => {
+        // 1. Route the prompt to the relevant subset of configured agents
+        const decision = await resolveRoute(
+            params.router ?? passThroughRouter,
+            { prompt: params.prompt, images: params.images, agentConfigs: params.agentConfigs },
+            controller.signal
+        );
+        callbacks.onRouterDecision?.(decision);
+
+        const selectedIds = new Set(decision.selectedAgentIds);
+        const selectedConfigs = params.agentConfigs.filter(config => selectedIds.has(config.id));
+        const dispatchedExperts = selectedConfigs.map(toExpertDispatch);
+        selectedConfigs.forEach(config => agentControllers.set(config.id, new AbortController()));
+        callbacks.onInitialAgents(dispatchedExperts);
 
-        return { drafts, stream, switchedArbiter };
+        const agentAbortSignals = Object.fromEntries(
+            [...agentControllers].map(([id, agentController]) => [id, agentController.signal])
+        );
+
+        // 2. Dispatch to the selected experts in parallel
+        let drafts = await dispatch(
+            dispatchedExperts,
+            params.prompt,
+            params.images,
+            selectedConfigs,
+            callbacks.onDraftComplete,
+            controller.signal,
+            {
+                onAgentStatusChange: callbacks.onAgentStatusChange,
+                onDraftDelta: callbacks.onDraftDelta,
+                agentAbortSignals,
+                structuredOutput: params.structuredOutput,
+            }
+        );
+
+        // 3. Optionally let the agents critique and revise each other's drafts
+        if (params.debateSettings?.strategy === 'debate') {
+            drafts = await debate(params, drafts, selectedConfigs, callbacks, controller.signal, agentAbortSignals);
+        }
+
+        // 4. Arbitrate the results
+        const arbitration = await arbitrate(params, drafts, controller);
+
+        return { routerDecision: decision, drafts, ...arbitration };
     })();
 
+    return {
+        promise,
+        abort: () => controller.abort(),
+        /** Cancels a single dispatched agent; the run continues with the remaining drafts. */
+        abortAgent: (agentId: string) => agentControllers.get(agentId)?.abort(),
+    };
+};
+
+export interface AgentRunParams {
+    prompt: string;
+    images: ImageState[];
+    agentConfig: AgentConfig;
+    structuredOutput?: StructuredOutput | null;
+}
+
+/**
+ * Re-dispatches a single agent, e.g. to retry one that failed. Aborting yields a
+ * cancelled draft rather than rejecting.
+ */
+export const runAgent = (
+    params: AgentRunParams,
+    callbacks: Pick<OrchestrationCallbacks, 'onAgentStatusChange' | 'onDraftDelta'> = {}
+) => {
+    const controller = new AbortController();
+    const { agentConfig } = params;
+
+    const promise: Promise<Draft> = dispatch(
+        [toExpertDispatch(agentConfig)],
+        params.prompt,
+        params.images,
+        [agentConfig],
+        () => {},
+        undefined,
+        { ...callbacks, agentAbortSignals: { [agentConfig.id]: controller.signal }, structuredOutput: params.structuredOutput }
+    ).then(([draft]) => draft);
+
+    return { promise, abort: () => controller.abort() };
+};
+
+/** Runs only the arbiter over an existing set of drafts. */
+export const runArbitration = (params: ArbitrationParams & { drafts: Draft[] }) => {
+    const controller = new AbortController();
+    const promise = arbitrate(params, params.drafts, controller);
+    return { promise, abort: () => controller.abort() };
+};
+
+/**
+ * Reports drafts that do not fit one arbiter call in batches sized to the
+ * arbiter's context window; disagreements across batches are not reported.
+ */
+const reportControversiesInBatches = async (
+    params: ArbitrationParams & { drafts: Draft[]; finalAnswer: string },
+    abortSignal: AbortSignal
+): Promise<Controversy[]> => {
+    const successfulDrafts = params.drafts.filter(d => d.status === 'COMPLETED');
+    const { contextWindow } = providerForModel(params.arbiterModel).capabilities(params.arbiterModel);
+    // Every batch's prompt also carries the final answer.
+    const budget = contextWindow - await estimateTokens(params.finalAnswer);
+    const { batches } = await batchDrafts(params.prompt, successfulDrafts, 'controversies', budget);
+    const reports = await Promise.all(batches.map(batch => reportControversies(
+        params.arbiterModel,
+        params.prompt,
+        batch,
+        params.finalAnswer,
+        params.openAIArbiterEffort,
+        params.geminiArbiterEffort,
+        abortSignal
+    )));
+    return reports.flat();
+};
+
+/**
+ * Reports where the drafts disagreed and how `finalAnswer` resolved it, using the
+ * arbiter settings. Resolves with null without a call unless the report is
+ * enabled and the arbiter mode wrote a new answer.
+ */
+export const runControversyReport = (params: ArbitrationParams & { drafts: Draft[]; finalAnswer: string; reportControversies?: boolean }) => {
+    const controller = new AbortController();
+    const promise: Promise<Controversy[] | null> = params.reportControversies && writesNewAnswer(params.arbiterMode ?? 'synthesize')
+        ? reportControversiesInBatches(params, controller.signal)
+        : Promise.resolve(null);
     return { promise, abort: () => controller.abort() };
 };
+
+export interface VerificationCallbacks {
+    /** Called after each judge check, including the last. */
+    onPass?: (pass: VerifierPass) => void;
+    /** Receives the full text of the revision being streamed. */
+    onRevisionDelta?: (text: string) => void;
+}
+
+/**
+ * Judges `finalAnswer` and, while it scores below the threshold, has the arbiter
+ * revise it using the judge's reasons. Resolves with every check, oldest first, and
+ * the best-scoring answer, since a revision can score worse than the answer it replaced.
+ */
+export const runVerification = (
+    params: ArbitrationParams & { finalAnswer: string; verifierSettings: VerifierSettings },
+    callbacks: VerificationCallbacks = {}
+) => {
+    const controller = new AbortController();
+    const { threshold, maxIterations } = params.verifierSettings;
+    const iterations = Math.min(maxIterations, MAX_VERIFIER_ITERATIONS);
+
+    const promise: Promise<{ answer: string; passes: VerifierPass[] }> = (async () => {
+        const passes: VerifierPass[] = [];
+        let answer = params.finalAnswer;
+        for (let iteration = 0; ; iteration++) {
+            const { score, reasons } = await judgeAnswer(params.prompt, answer, params.arbiterModel, controller.signal);
+            if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+            const pass = { answer, score, reasons };
+            passes.push(pass);
+            callbacks.onPass?.(pass);
+            if (score >= threshold || iteration >= iterations) return { answer: bestPass(passes)!.answer, passes };
+
+            const revision = await reviseAnswerStream(
+                params.arbiterModel,
+                params.prompt,
+                answer,
+                reasons,
+                params.openAIArbiterVerbosity,
+                params.openAIArbiterEffort,
+                params.geminiArbiterEffort,
+                controller.signal,
+                params.arbiterMode
+            );
+            answer = '';
+            for await (const chunk of revision) {
+                answer += chunk.text;
+                callbacks.onRevisionDelta?.(answer);
+            }
+        }
+    })();
+
+    return { promise, abort: () => controller.abort() };
+};
+
+/** Rebuilds an arbiter-ready draft from an agent's stored UI state. */
+export const agentStateToDraft = (agent: AgentState, agentConfigs: AgentConfig[]): Draft => ({
+    agentId: agent.id,
+    expert: {
+        agentId: agent.id,
+        id: agentConfigs.find(c => c.id === agent.id)?.expert.id ?? agent.id,
+        name: agent.name,
+        persona: agent.persona,
+        provider: agent.provider,
+        model: agent.model,
+    },
+    content: agent.content,
+    status: agent.status,
+    error: agent.error,
+    vote: agent.vote,
+});
+
+/** Re-arbitrates a stored run's drafts with different arbiter settings, without re-dispatching agents. */
+export const rearbitrateRun = (run: RunRecord, settings: ArbiterSettingsSnapshot) =>
+    runArbitration({
+        prompt: run.prompt,
+        drafts: run.agents.map(agent => agentStateToDraft(agent, run.agentConfigs)),
+        images: run.images,
+        structuredOutput: resolveStructuredOutput(run.structuredOutputSettings),
+        ...settings,
+    });
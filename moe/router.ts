@@ -0,0 +1,199 @@
+import { RouterDecision } from './types';
+import { createProviderEmbedFn, createSemanticRouter, SEMANTIC_ROUTER_DEFAULTS } from './semanticRouter';
+import { AgentConfig, Expert, ImageState, RouterSettings } from '@/types';
+
+export interface RouterInput {
+    prompt: string;
+    images: ImageState[];
+    agentConfigs: AgentConfig[];
+}
+
+/**
+ * A routing policy decides which of the configured agents should be dispatched
+ * for a given prompt. Implementations may be synchronous heuristics or make
+ * network calls, so `route` is always async.
+ */
+export interface Router {
+    name: string;
+    route(input: RouterInput, abortSignal?: AbortSignal): Promise<RouterDecision>;
+}
+
+/**
+ * Default router that selects every configured agent. This preserves the
+ * behaviour from before routing existed, where the user's ensemble is the route.
+ */
+export const passThroughRouter: Router = {
+    name: 'pass-through',
+    route: async ({ agentConfigs }) => ({
+        selectedAgentIds: agentConfigs.map(c => c.id),
+        scores: Object.fromEntries(agentConfigs.map(c => [c.id, 1])),
+        reason: 'All configured agents selected.',
+    }),
+};
+
+export interface RulesRouterOptions {
+    /** Maximum number of agents selected on score; always-included agents do not count towards it. */
+    topK?: number;
+    /** Minimum score an agent needs to be selected on score alone. */
+    minScore?: number;
+}
+
+export const RULES_ROUTER_DEFAULTS: Required<RulesRouterOptions> = {
+    topK: 3,
+    minScore: 1,
+};
+
+const KEYWORD_WEIGHT = 1;
+const PATTERN_WEIGHT = 2;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface ExpertRuleScore {
+    score: number;
+    matches: string[];
+}
+
+/**
+ * Scores an expert against a prompt using its routing metadata. Each distinct
+ * keyword that appears as a whole word adds 1 and each matching pattern adds 2.
+ * `priority` is added only when something matched, so it boosts relevant
+ * experts without pulling in unrelated ones.
+ */
+export const scoreExpertRules = (prompt: string, expert: Expert): ExpertRuleScore => {
+    const matches: string[] = [];
+    let score = 0;
+
+    for (const keyword of expert.keywords ?? []) {
+        const regex = new RegExp(`(?<!\\w)${escapeRegExp(keyword)}(?!\\w)`, 'i');
+        if (regex.test(prompt)) {
+            matches.push(keyword);
+            score += KEYWORD_WEIGHT;
+        }
+    }
+
+    for (const pattern of expert.patterns ?? []) {
+        try {
+            if (new RegExp(pattern, 'i').test(prompt)) {
+                matches.push(`/${pattern}/`);
+                score += PATTERN_WEIGHT;
+            }
+        } catch {
+            // Invalid patterns are filtered when experts load; ignore any that slip through.
+        }
+    }
+
+    if (matches.length > 0 && expert.priority) {
+        score += expert.priority;
+    }
+
+    return { score, matches };
+};
+
+/**
+ * Deterministic router driven by the keyword/pattern metadata in experts.json.
+ * Works offline and explains every selection in the decision's `reason`.
+ */
+export const createRulesRouter = (options: RulesRouterOptions = {}): Router => {
+    const { topK, minScore } = { ...RULES_ROUTER_DEFAULTS, ...options };
+
+    return {
+        name: 'rules',
+        route: async ({ prompt, agentConfigs }) => {
+            const scored = agentConfigs.map((config, index) => ({
+                config,
+                index,
+                ...scoreExpertRules(prompt, config.expert),
+            }));
+
+            const always = scored.filter(s => s.config.expert.alwaysInclude);
+            const ranked = scored
+                .filter(s => !s.config.expert.alwaysInclude && s.score >= minScore)
+                .sort((a, b) =>
+                    b.score - a.score ||
+                    (b.config.expert.priority ?? 0) - (a.config.expert.priority ?? 0) ||
+                    a.index - b.index
+                )
+                .slice(0, Math.max(0, topK));
+
+            const selected = [...always, ...ranked].sort((a, b) => a.index - b.index);
+            const explanations = selected.map(s => {
+                const why = s.matches.length > 0 ? `matched ${s.matches.join(', ')}` : 'no matches';
+                return s.config.expert.alwaysInclude
+                    ? `${s.config.expert.name} (always included; ${why})`
+                    : `${s.config.expert.name} (score ${s.score}; ${why})`;
+            });
+
+            return {
+                selectedAgentIds: selected.map(s => s.config.id),
+                scores: Object.fromEntries(scored.map(s => [s.config.id, s.score])),
+                reason: explanations.length > 0
+                    ? `Rules router selected ${explanations.join('; ')}.`
+                    : `No agent scored at least ${minScore}.`,
+            };
+        },
+    };
+};
+
+/**
+ * Runs the router and sanitises its decision against the candidate list.
+ * Unknown ids are dropped and, if nothing valid remains (or the router throws),
+ * every agent is selected so a run never silently dispatches to no one.
+ */
+export const resolveRoute = async (
+    router: Router,
+    input: RouterInput,
+    abortSignal?: AbortSignal
+): Promise<RouterDecision> => {
+    let decision: RouterDecision;
+    try {
+        decision = await router.route(input, abortSignal);
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            throw error;
+        }
+        console.warn(`Router "${router.name}" failed; dispatching to all agents.`, error);
+        const fallback = await passThroughRouter.route(input);
+        const message = error instanceof Error ? error.message : String(error);
+        return { ...fallback, reason: `The ${router.name} router failed (${message}), so all agents were selected.` };
+    }
+
+    const knownIds = new Set(input.agentConfigs.map(c => c.id));
+    const selectedAgentIds = Array.from(new Set(decision.selectedAgentIds)).filter(id => knownIds.has(id));
+
+    if (selectedAgentIds.length === 0) {
+        console.warn(`Router "${router.name}" selected no agents; dispatching to all agents.`);
+        const fallback = await passThroughRouter.route(input);
+        return {
+            ...fallback,
+            scores: { ...fallback.scores, ...decision.scores },
+            reason: `${decision.reason} No agent met the routing criteria, so all agents were selected.`,
+        };
+    }
+
+    return { ...decision, selectedAgentIds };
+};
+
+export const DEFAULT_ROUTER_SETTINGS: RouterSettings = {
+    mode: 'all',
+    ...RULES_ROUTER_DEFAULTS,
+    minSimilarity: SEMANTIC_ROUTER_DEFAULTS.minSimilarity,
+    embeddingProvider: 'gemini',
+};
+
+/** Builds the router described by the user's routing settings. */
+export const createRouter = (settings: RouterSettings): Router => {
+    switch (settings.mode) {
+        case 'rules':
+            return createRulesRouter({ topK: settings.topK, minScore: settings.minScore });
+        case 'semantic':
+            return createSemanticRouter({
+                embed: createProviderEmbedFn(settings.embeddingProvider),
+                embedderId: settings.embeddingProvider,
+                topK: settings.topK,
+                minSimilarity: settings.minSimilarity,
+            });
+        case 'all':
+        default:
+            return passThroughRouter;
+    }
+};
@@ -0,0 +1,106 @@
+import { Router } from './router';
+import { embedTexts } from '@/services/llmService';
+import { EmbeddingProvider } from '@/types';
+
+/** Embeds a batch of texts, returning one vector per input in order. */
+export type EmbedFn = (texts: string[], abortSignal?: AbortSignal) => Promise<number[][]>;
+
+export interface SemanticRouterOptions {
+    /** Embedding function; swap in a local implementation for tests or offline use. */
+    embed: EmbedFn;
+    /** Identifies the embedding space so vectors from different models never mix in the cache. */
+    embedderId: string;
+    /** Maximum number of agents selected on similarity; always-included agents do not count towards it. */
+    topK?: number;
+    /** Minimum cosine similarity an agent needs to be selected. */
+    minSimilarity?: number;
+    /** Persona embedding cache. Defaults to a module-wide cache shared by all semantic routers. */
+    cache?: Map<string, number[]>;
+}
+
+export const SEMANTIC_ROUTER_DEFAULTS = {
+    topK: 3,
+    minSimilarity: 0.3,
+};
+
+const personaEmbeddingCache = new Map<string, number[]>();
+
+/** 32-bit FNV-1a hash, hex encoded. Used to key cached persona embeddings. */
+export const hashText = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    const length = Math.min(a.length, b.length);
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/** Embedding function backed by the provider endpoints in `services/llmService.ts`. */
+export const createProviderEmbedFn = (provider: EmbeddingProvider): EmbedFn =>
+    (texts, abortSignal) => embedTexts(texts, provider, abortSignal);
+
+/**
+ * Router that embeds the prompt and each expert persona and selects the agents
+ * whose persona is most similar to the prompt. Persona embeddings are cached by
+ * persona hash, so only the prompt is embedded on repeat runs.
+ */
+export const createSemanticRouter = (options: SemanticRouterOptions): Router => {
+    const { embed, embedderId, topK, minSimilarity } = { ...SEMANTIC_ROUTER_DEFAULTS, ...options };
+    const cache = options.cache ?? personaEmbeddingCache;
+
+    return {
+        name: 'semantic',
+        route: async ({ prompt, agentConfigs }, abortSignal) => {
+            const cacheKey = (persona: string) => `${embedderId}:${hashText(persona)}`;
+            const uncachedPersonas = Array.from(new Set(
+                agentConfigs
+                    .map(config => config.expert.persona)
+                    .filter(persona => !cache.has(cacheKey(persona)))
+            ));
+
+            // Embed the prompt together with any uncached personas in a single call.
+            const [promptEmbedding, ...personaEmbeddings] = await embed([prompt, ...uncachedPersonas], abortSignal);
+            if (!promptEmbedding || personaEmbeddings.length !== uncachedPersonas.length) {
+                throw new Error('Embedding provider returned an unexpected number of vectors.');
+            }
+            uncachedPersonas.forEach((persona, i) => cache.set(cacheKey(persona), personaEmbeddings[i]));
+
+            const scored = agentConfigs.map((config, index) => ({
+                config,
+                index,
+                similarity: cosineSimilarity(promptEmbedding, cache.get(cacheKey(config.expert.persona)) ?? []),
+            }));
+
+            const always = scored.filter(s => s.config.expert.alwaysInclude);
+            const ranked = scored
+                .filter(s => !s.config.expert.alwaysInclude && s.similarity >= minSimilarity)
+                .sort((a, b) => b.similarity - a.similarity || a.index - b.index)
+                .slice(0, Math.max(0, topK));
+
+            const selected = [...always, ...ranked].sort((a, b) => a.index - b.index);
+            const explanations = selected.map(s =>
+                `${s.config.expert.name} (${s.config.expert.alwaysInclude ? 'always included; ' : ''}similarity ${s.similarity.toFixed(2)})`
+            );
+
+            return {
+                selectedAgentIds: selected.map(s => s.config.id),
+                scores: Object.fromEntries(scored.map(s => [s.config.id, s.similarity])),
+                reason: explanations.length > 0
+                    ? `Semantic router selected ${explanations.join('; ')}.`
+                    : `No agent reached a similarity of ${minSimilarity}.`,
+            };
+        },
+    };
+};
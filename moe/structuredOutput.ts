@@ -0,0 +1,192 @@
+// zod 3 cannot emit JSON Schema, so the output presets are written against the
+// zod 4 API that zod 3.25 ships as `zod/v4`. Everything else imports `zod`.
+import { z } from 'zod/v4';
+import { StructuredOutputSettings } from '@/types';
+
+export type JsonSchema = Record<string, unknown>;
+
+/** A JSON Schema the agents and arbiter must answer in, with the validator drafts are checked against. */
+export interface StructuredOutput {
+    /** Sent as the response format name; letters, digits, `_` and `-` only. */
+    name: string;
+    schema: JsonSchema;
+    /** Returns one message per violation; empty when `value` is valid. */
+    validate: (value: unknown) => string[];
+}
+
+export type StructuredParseResult =
+    | { success: true; value: unknown }
+    | { success: false; errors: string[] };
+
+export const CUSTOM_SCHEMA_PRESET_ID = 'custom';
+
+/** Extra attempts, with the validation errors, when a reply does not match the schema. */
+export const STRUCTURED_OUTPUT_RETRIES = 1;
+
+export const DEFAULT_STRUCTURED_OUTPUT_SETTINGS: StructuredOutputSettings = {
+    enabled: false,
+    presetId: 'answer-with-confidence',
+    customSchema: '',
+};
+
+const PRESET_SCHEMAS = {
+    'answer-with-confidence': {
+        label: 'Answer with confidence',
+        schema: z.object({
+            answer: z.string(),
+            confidence: z.number().min(0).max(1),
+            sources: z.array(z.string()),
+        }),
+    },
+    'entity-list': {
+        label: 'Entity list',
+        schema: z.object({
+            entities: z.array(z.object({
+                name: z.string(),
+                type: z.string(),
+                description: z.string(),
+            })),
+        }),
+    },
+    'options-comparison': {
+        label: 'Options comparison',
+        schema: z.object({
+            options: z.array(z.object({
+                name: z.string(),
+                pros: z.array(z.string()),
+                cons: z.array(z.string()),
+            })),
+            recommendation: z.string(),
+        }),
+    },
+};
+
+export const STRUCTURED_OUTPUT_PRESETS = Object.entries(PRESET_SCHEMAS).map(([id, { label }]) => ({ id, label }));
+
+const typeOf = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const matchesType = (value: unknown, type: string): boolean =>
+    type === 'integer' ? Number.isInteger(value) : type === typeOf(value);
+
+/**
+ * Validates `value` against the commonly used subset of JSON Schema: `type`,
+ * `enum`, `const`, `properties`, `required`, `additionalProperties`, `items`,
+ * `anyOf` and the numeric, string and array bounds. Other keywords, including
+ * `$ref`, are ignored.
+ */
+export const validateJsonSchema = (schema: JsonSchema, value: unknown, path = '$'): string[] => {
+    const errors: string[] = [];
+    const types = schema.type === undefined ? [] : ([] as unknown[]).concat(schema.type);
+    if (types.length > 0 && !types.some(t => matchesType(value, String(t)))) {
+        return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+    if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+    }
+    if (Array.isArray(schema.anyOf) && !schema.anyOf.some(option => validateJsonSchema(option as JsonSchema, value, path).length === 0)) {
+        errors.push(`${path}: does not match any allowed schema`);
+    }
+
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+        if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) errors.push(`${path}: must be at least ${schema.minLength} characters`);
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+        if (schema.items && typeof schema.items === 'object') {
+            value.forEach((item, i) => errors.push(...validateJsonSchema(schema.items as JsonSchema, item, `${path}[${i}]`)));
+        }
+    }
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+        for (const key of Array.isArray(schema.required) ? schema.required as string[] : []) {
+            if (!(key in record)) errors.push(`${path}.${key}: is required`);
+        }
+        for (const [key, item] of Object.entries(record)) {
+            if (key in properties) {
+                errors.push(...validateJsonSchema(properties[key], item, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`);
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJsonSchema(schema.additionalProperties as JsonSchema, item, `${path}.${key}`));
+            }
+        }
+    }
+    return errors;
+};
+
+const formatZodIssues = (issues: z.core.$ZodIssue[]): string[] =>
+    issues.map(issue => `${['$', ...issue.path.map(String)].join('.')}: ${issue.message}`);
+
+/**
+ * Turns the run's output settings into a schema, or null for free text. Throws
+ * when the custom schema is not a JSON object.
+ */
+export const resolveStructuredOutput = (settings: StructuredOutputSettings): StructuredOutput | null => {
+    if (!settings.enabled) return null;
+
+    if (settings.presetId === CUSTOM_SCHEMA_PRESET_ID) {
+        let schema: unknown;
+        try {
+            schema = JSON.parse(settings.customSchema);
+        } catch (e) {
+            throw new Error(`The custom JSON Schema is not valid JSON: ${(e as Error).message}`);
+        }
+        if (typeOf(schema) !== 'object') throw new Error('The custom JSON Schema must be a JSON object.');
+        const jsonSchema = schema as JsonSchema;
+        return {
+            name: CUSTOM_SCHEMA_PRESET_ID,
+            schema: jsonSchema,
+            validate: value => validateJsonSchema(jsonSchema, value),
+        };
+    }
+
+    const preset = PRESET_SCHEMAS[settings.presetId as keyof typeof PRESET_SCHEMAS];
+    if (!preset) throw new Error(`Unknown output schema preset "${settings.presetId}".`);
+    // Providers reject the `$schema` meta keyword.
+    const { $schema: _, ...schema } = z.toJSONSchema(preset.schema) as JsonSchema;
+    return {
+        name: settings.presetId.replace(/[^\w-]/g, '_'),
+        schema,
+        validate: value => {
+            const result = preset.schema.safeParse(value);
+            return result.success ? [] : formatZodIssues(result.error.issues);
+        },
+    };
+};
+
+/** Parses a model reply as JSON, tolerating Markdown code fences and surrounding prose, and validates it. */
+export const parseStructuredReply = (reply: string, output: StructuredOutput): StructuredParseResult => {
+    const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1];
+    const candidate = (fenced ?? reply).trim();
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end < start) return { success: false, errors: ['The reply contains no JSON.'] };
+
+    let value: unknown;
+    try {
+        value = JSON.parse(candidate.slice(start, end + 1));
+    } catch (e) {
+        return { success: false, errors: [`The reply is not valid JSON: ${(e as Error).message}`] };
+    }
+    const errors = output.validate(value);
+    return errors.length === 0 ? { success: true, value } : { success: false, errors };
+};
+
+/** Appended to prompts so models without native structured output still know the shape. */
+export const buildSchemaInstruction = (output: StructuredOutput): string =>
+    `Reply with only a JSON value that matches this JSON Schema, without Markdown fences or commentary:\n${JSON.stringify(output.schema, null, 2)}`;
+
+/** Asks for another attempt after a reply failed validation. */
+export const buildSchemaRetryPrompt = (prompt: string, errors: string[]): string =>
+    `${prompt}\n\nYour previous reply did not match the schema:\n${errors.map(e => `- ${e}`).join('\n')}\nReply again with corrected JSON only.`;
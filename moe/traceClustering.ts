@@ -0,0 +1,67 @@
+import type { AnswerClusterer } from '@/services/deepconf';
+import type { VoteSimilarity } from '@/types';
+import { jaccard, shingle } from './draftClustering';
+import { cosineSimilarity, createProviderEmbedFn, EmbedFn } from './semanticRouter';
+
+/** Minimum word-set Jaccard similarity for two answers to share a cluster. */
+export const LEXICAL_CLUSTER_THRESHOLD = 0.5;
+
+/** Minimum embedding cosine similarity for two answers to share a cluster. */
+export const EMBEDDING_CLUSTER_THRESHOLD = 0.85;
+
+/**
+ * Greedily assigns each answer to the first cluster whose representative it is
+ * similar to; the representative's answer is the cluster key.
+ */
+const assignClusters = (answers: string[], similar: (i: number, j: number) => boolean): string[] => {
+    const representatives: number[] = [];
+    return answers.map((answer, i) => {
+        const rep = representatives.find(r => answers[r] === answer || similar(r, i));
+        if (rep !== undefined) return answers[rep];
+        representatives.push(i);
+        return answer;
+    });
+};
+
+/** Clusters answers by word overlap, without any network calls. */
+export const createLexicalClusterer = (threshold = LEXICAL_CLUSTER_THRESHOLD): AnswerClusterer => async answers => {
+    const words = answers.map(answer => shingle(answer, 1));
+    return assignClusters(answers, (i, j) => jaccard(words[i], words[j]) >= threshold);
+};
+
+/**
+ * Clusters answers by embedding similarity. Embeddings are cached per answer
+ * for the clusterer's lifetime, so online DeepConf only embeds new traces. If
+ * embedding fails, the clusterer falls back to word overlap for the rest of the run.
+ */
+export const createEmbeddingClusterer = (
+    embed: EmbedFn,
+    abortSignal?: AbortSignal,
+    threshold = EMBEDDING_CLUSTER_THRESHOLD
+): AnswerClusterer => {
+    const cache = new Map<string, number[]>();
+    const fallback = createLexicalClusterer();
+    let embeddingFailed = false;
+
+    return async answers => {
+        if (embeddingFailed) return fallback(answers);
+        const missing = Array.from(new Set(answers.filter(answer => !cache.has(answer))));
+        if (missing.length > 0) {
+            try {
+                const vectors = await embed(missing, abortSignal);
+                missing.forEach((answer, i) => cache.set(answer, vectors[i] ?? []));
+            } catch (error) {
+                if (error instanceof Error && error.name === 'AbortError') throw error;
+                console.warn('Embedding DeepConf answers failed; clustering by word overlap instead:', error);
+                embeddingFailed = true;
+                return fallback(answers);
+            }
+        }
+        return assignClusters(answers, (i, j) => cosineSimilarity(cache.get(answers[i])!, cache.get(answers[j])!) >= threshold);
+    };
+};
+
+export const createAnswerClusterer = (similarity: VoteSimilarity, abortSignal?: AbortSignal): AnswerClusterer =>
+    similarity === 'lexical'
+        ? createLexicalClusterer()
+        : createEmbeddingClusterer(createProviderEmbedFn(similarity), abortSignal);
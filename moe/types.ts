@@ -1,5 +1,5 @@
 
-import { ApiProvider, AgentStatus, Expert } from '@/types';
+import { ApiProvider, AgentStatus, DeepConfVote, Expert } from '@/types';
 
 export interface ExpertDispatch extends Expert {
   agentId: string;
@@ -19,4 +19,16 @@ export interface Draft {
    */
   /** Defaults to false; optional for backward compatibility. */
   isPartial?: boolean;
+  /** Set when the draft was chosen by a DeepConf vote. */
+  vote?: DeepConfVote;
+}
+
+/**
+ * Outcome of a routing pass: which configured agents should run for a prompt.
+ * `scores` holds a relevance score for every candidate, selected or not.
+ */
+export interface RouterDecision {
+  selectedAgentIds: string[];
+  scores: Record<string, number>;
+  reason: string;
 }
@@ -0,0 +1,28 @@
+import { ArbiterMode, VerifierPass, VerifierSettings } from '@/types';
+
+export const MAX_VERIFIER_ITERATIONS = 5;
+
+export const DEFAULT_VERIFIER_SETTINGS: VerifierSettings = {
+    enabled: false,
+    threshold: 0.8,
+    maxIterations: 2,
+};
+
+/**
+ * Only the synthesizing modes write a new answer, so only they take structured output
+ * or verifier revisions; the others return an (already valid) draft verbatim.
+ */
+export const writesNewAnswer = (mode: ArbiterMode): boolean => mode === 'synthesize' || mode === 'attributed';
+
+/** The highest-scoring pass; the later one wins a tie since it addressed more feedback. */
+export const bestPass = (passes: VerifierPass[]): VerifierPass | undefined =>
+    passes.reduce<VerifierPass | undefined>((best, pass) => (!best || pass.score >= best.score ? pass : best), undefined);
+
+/** Asks the arbiter to fix what the judge flagged, without the drafts so the prompt stays small. */
+export const buildRevisionPrompt = (question: string, answer: string, reasons: string[], mode: ArbiterMode): string => {
+    const keepMarkers = mode === 'attributed'
+        ? ' Keep the draft letter markers such as [A][C] at the end of every paragraph or claim you keep.'
+        : '';
+    const feedback = reasons.length > 0 ? reasons.map(r => `- ${r}`).join('\n') : '- The answer scored below the acceptance threshold.';
+    return `The original user question is:\n"${question}"\n\nYour previous answer was:\n${answer}\n\n---\n\nA reviewer raised these problems:\n${feedback}\n\nRewrite the answer to fix them.${keepMarkers}`;
+};
@@ -1,14 +1,6 @@
 // services/deepconf.ts
-import { Type } from "@google/genai";
-import { getGeminiClient, getOpenAIClient } from './llmService';
-import { getGeminiResponseText } from '@/lib/utils';
-import { callWithGeminiRetry, isGeminiRateLimitError, GEMINI_QUOTA_MESSAGE } from './geminiUtils';
-import {
-    GEMINI_FLASH_MODEL,
-    GEMINI_PRO_MODEL,
-    OPENAI_JUDGE_MODEL,
-    OPENAI_REASONING_PROMPT_PREFIX
-} from '../constants';
+import type { DeepConfVote } from '@/types';
+import { providerForModel, type JudgeResult, type ProviderAdapter } from './providers';
 
 export type TokenTopK = { token: string; logprob: number }[];
 export type Step = { token: string; topK: TokenTopK };
@@ -24,158 +16,32 @@ export interface DeepConfOpts {
   warmupTraces?: number;  // Ninit
   maxBudget?: number;     // K
   minTokensBeforeStop?: number; // avoid stopping ultra-early
+  clusterAnswers?: AnswerClusterer; // groups answers before voting
 }
 
+/**
+ * Maps each answer to a cluster key, the answer that speaks for its cluster;
+ * answers sharing a key vote together. The default keeps answers as they are.
+ */
+export type AnswerClusterer = (answers: string[]) => Promise<string[]>;
+
 export const DEFAULTS: Required<DeepConfOpts> = {
   kTop: 5, groupWindow: 2048, tailWindow: 2048,
   etaPercent: 90, tau: 0.95, warmupTraces: 8,
   maxBudget: 16, minTokensBeforeStop: 32,
+  clusterAnswers: async answers => answers,
 };
 
-// --- Judge/Verifier for Gemini ---
-const judgeSystem = `You are a strict verifier. Return ONLY JSON with fields: {"score": number, "reasons": string[]}. Score in [0,1].`;
-const judgeUserTemplate = (prompt: string, answer: string) => `
-Task:
-- Question/prompt:
-"""${prompt}"""
-- Model answer:
-"""${answer}"""
-
-Rubric (each ~0.2 points):
-1) Directly answers the asked question.
-2) Uses only information entailed by the prompt/context.
-3) Final answer format matches spec (e.g., number/string/code).
-4) No contradictions or hedging.
-5) Concise and unambiguous.
-
-Return JSON only.`;
-
-export interface JudgeResult {
-    score: number;
-    reasons: string[];
-}
-
-export const judgeAnswer = async (prompt: string, answer: string, agentModel: string): Promise<JudgeResult> => {
-    // OpenAI & OpenRouter Judge Logic
-    if (agentModel.startsWith('gpt-') || agentModel.includes('/')) {
-        try {
-            const openaiAI = getOpenAIClient();
-            // Per user request, use a specific judge model (gpt-5-mini) for OpenAI agents.
-            const systemPrompt = OPENAI_REASONING_PROMPT_PREFIX + judgeSystem;
-            const userPrompt = judgeUserTemplate(prompt, answer);
-
-            const completion = await openaiAI.responses.create({
-                model: OPENAI_JUDGE_MODEL,
-                reasoning: { effort: 'medium' },
-                input: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt }
-                ],
-                temperature: 0,
-            });
-
-            const jsonString = completion.output_text;
-            if (!jsonString) {
-                return { score: 0, reasons: ["Judge model returned an empty response."] };
-            }
-
-            // The model is instructed to return ONLY JSON. We must robustly parse it.
-            const cleanedJsonString = jsonString.trim().match(/\{[\s\S]*\}/)?.[0] ?? '{}';
-            const result = JSON.parse(cleanedJsonString);
-            
-            if (typeof result.score === 'number' && Array.isArray(result.reasons)) {
-                return {
-                    score: Math.max(0, Math.min(1, result.score)), // Clamp score
-                    reasons: result.reasons
-                };
-            }
-
-            console.warn("OpenAI Judge model returned invalid JSON shape:", result);
-            return { score: 0, reasons: ["Invalid JSON response from OpenAI judge model."] };
-
-        } catch (error) {
-            console.error("Error during OpenAI answer judging:", error);
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-            if (error instanceof SyntaxError) {
-                 return { score: 0, reasons: [`Failed to parse JSON response from OpenAI judge: ${errorMessage}`] };
-            }
-            return { score: 0, reasons: [`An error occurred while judging the answer with OpenAI: ${errorMessage}`] };
-        }
-    }
-    
-    // Existing Gemini Logic
-    try {
-        // If the agent model is Pro, use the Pro model for judging for consistency. Otherwise, use the fast Flash model.
-        const judgeModel = agentModel === GEMINI_PRO_MODEL ? GEMINI_PRO_MODEL : GEMINI_FLASH_MODEL;
-        
-        const geminiAI = getGeminiClient();
-        const response = await callWithGeminiRetry((signal) =>
-            geminiAI.models.generateContent({
-                model: judgeModel,
-                contents: { parts: [{ text: judgeUserTemplate(prompt, answer) }] },
-                config: {
-                    systemInstruction: judgeSystem,
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            score: { type: Type.NUMBER },
-                            reasons: {
-                                type: Type.ARRAY,
-                                items: { type: Type.STRING }
-                            }
-                        },
-                        propertyOrdering: ["score", "reasons"],
-                    },
-                    temperature: 0, // deterministic judging
-                    abortSignal: signal,
-                },
-            })
-        );
-
-        const jsonString = getGeminiResponseText(response).trim();
-        if (!jsonString) {
-            console.warn("Judge model returned empty response");
-            return { score: 0, reasons: ["Empty response from judge model."] };
-        }
+// --- Judge/Verifier ---
+export type { JudgeResult } from './providers';
 
-        let parsed: unknown;
-        try {
-            parsed = JSON.parse(jsonString);
-        } catch (error) {
-            console.error("Failed to parse JSON from Gemini judge:", error);
-            const message = error instanceof Error ? error.message : String(error);
-            return { score: 0, reasons: [`Failed to parse JSON response from judge model: ${message}`] };
-        }
-
-        const isJudgePayload = (obj: unknown): obj is { score: number; reasons: string[] } => {
-            if (typeof obj !== 'object' || obj === null) return false;
-            const record = obj as Record<string, unknown>;
-            return (
-                typeof record.score === 'number' &&
-                Array.isArray(record.reasons) &&
-                record.reasons.every(r => typeof r === 'string')
-            );
-        };
-
-        if (isJudgePayload(parsed)) {
-            return {
-                score: Math.max(0, Math.min(1, parsed.score)), // Clamp score between 0 and 1
-                reasons: parsed.reasons
-            };
-        }
-
-        console.warn("Judge model returned invalid JSON shape:", parsed);
-        return { score: 0, reasons: ["Invalid JSON response from judge model."] };
-
-    } catch (error) {
-        console.error("Error during answer judging:", error);
-        if (isGeminiRateLimitError(error)) {
-            return { score: 0, reasons: [GEMINI_QUOTA_MESSAGE] };
-        }
-        return { score: 0, reasons: ["An error occurred while judging the answer."] };
-    }
-};
+/**
+ * Scores an answer with the judge of the provider that owns a bare model id,
+ * such as the arbiter's. Agents judge with their own adapter instead, since a
+ * custom model may not be discovered yet.
+ */
+export const judgeAnswer = (prompt: string, answer: string, agentModel: string, abortSignal?: AbortSignal): Promise<JudgeResult> =>
+    providerForModel(agentModel).judge(prompt, answer, agentModel, abortSignal);
 
 // --- confidence primitives (from the paper) ---
 function tokenConfidence(topK: TokenTopK, k = 5): number {
@@ -243,6 +109,16 @@ export function weightedVote(answers: string[], weights: number[]) {
   return { answer: bestA, weights: tally, consensus: (bestV <= 0 || total <= 0) ? 0 : bestV / total };
 }
 
+/** Counts the traces behind each answer for display; the winner and consensus come from the weighted vote. */
+function summarizeVote(answer: string, answers: string[], consensus: number): DeepConfVote {
+  const counts = new Map<string, number>();
+  for (const a of answers) counts.set(a, (counts.get(a) ?? 0) + 1);
+  const tally = [...counts].map(([a, count]) => ({ answer: a, count })).sort((x, y) => y.count - x.count);
+  return { answer, tally, consensus };
+}
+
+export type DeepConfResult = { answer: string, content: string, vote: DeepConfVote };
+
 function filterTopEta<T>(xs: T[], scores: number[], etaPercent: number): { items: T[]; keptScores: number[] } {
   if (xs.length === 0) return { items: [], keptScores: [] };
   const idx = [...xs.keys()];
@@ -252,6 +128,34 @@ function filterTopEta<T>(xs: T[], scores: number[], etaPercent: number): { items
   return { items: keptIdx.map(i => xs[i]), keptScores: keptIdx.map(i => scores[i]) };
 }
 
+type VoteOutcome = { answer: string; consensus: number; keys: string[]; winner?: Trace };
+
+// Clusters the answers, then runs the usual filter-and-vote over cluster keys.
+async function voteOnTraces(
+  traces: Trace[],
+  extractAnswer: (t: Trace) => string,
+  scores: number[],
+  etaPercent: number,
+  clusterAnswers: AnswerClusterer
+): Promise<VoteOutcome> {
+  const keys = await clusterAnswers(traces.map(extractAnswer));
+  const { items, keptScores } = filterTopEta(keys, scores, etaPercent);
+  const { answer, consensus } = weightedVote(items, keptScores);
+  // The most confident trace of the winning cluster speaks for it.
+  let winner: Trace | undefined;
+  let bestScore = -Infinity;
+  keys.forEach((key, i) => {
+    if (key === answer && scores[i] > bestScore) { bestScore = scores[i]; winner = traces[i]; }
+  });
+  return { answer, consensus, keys, winner };
+}
+
+const toResult = ({ answer, consensus, keys, winner }: VoteOutcome): DeepConfResult => ({
+  answer,
+  content: winner?.text ?? "Could not determine winning trace.",
+  vote: summarizeVote(answer, keys, consensus),
+});
+
 // Your provider should yield {token, topK} as it streams
 export type Provider = {
   stream(onDelta: (step: Step) => void, abort: AbortSignal): Promise<{ text: string, steps: Step[] }>;
@@ -268,7 +172,7 @@ export async function deepConfOffline(
   extractAnswer: (t: Trace) => string,
   metric: ConfidenceMetric,
   optsIn: DeepConfOpts = {}
-): Promise<{ answer: string, content: string }> {
+): Promise<DeepConfResult> {
     const opts = { ...DEFAULTS, ...optsIn };
     const tracePromises: Promise<Trace>[] = [];
     const traceCount = opts.maxBudget ?? DEFAULTS.maxBudget;
@@ -280,14 +184,8 @@ export async function deepConfOffline(
     const traces = await Promise.all(tracePromises);
     const confs = traces.map(t => t.steps.map(s => tokenConfidence(s.topK, opts.kTop)));
     const C = confs.map(c => traceConfidence(c, metric, opts));
-    const answers = traces.map(extractAnswer);
 
-    const { items: answersF, keptScores: CF } = filterTopEta(answers, C, opts.etaPercent ?? DEFAULTS.etaPercent);
-    const { answer } = weightedVote(answersF, CF);
-
-    // Find the original trace that produced the winning answer
-    const winningTrace = traces.find(t => extractAnswer(t) === answer)
-    return { answer, content: winningTrace?.text ?? "Could not determine winning trace." };
+    return toResult(await voteOnTraces(traces, extractAnswer, C, opts.etaPercent ?? DEFAULTS.etaPercent, opts.clusterAnswers ?? DEFAULTS.clusterAnswers));
 }
 
 // --- DeepConf Online (Algorithm 2, “lowestGroup” for warmup/threshold) ---
@@ -295,7 +193,7 @@ export async function deepConfOnline(
   provider: Provider,
   extractAnswer: (t: Trace) => string,
   optsIn: DeepConfOpts = {}
-): Promise<{ answer: string, content: string }> {
+): Promise<DeepConfResult> {
   const opts = { ...DEFAULTS, ...optsIn };
   const traces: Trace[] = [];
   const warmupCount = opts.warmupTraces ?? DEFAULTS.warmupTraces;
@@ -316,15 +214,17 @@ export async function deepConfOnline(
   const idx = Math.min(sorted.length - 1, Math.max(0, Math.floor((pct / 100) * sorted.length)));
   const s = sorted[idx]; // stopping threshold
 
-  // initialize votes from warmup
+  // initialize votes from warmup (unfiltered)
   traces.push(...warmup);
-  let answers = traces.map(extractAnswer);
-  let weights = warmupConfs.map(c => traceConfidence(c, "lowestGroup", opts)); // use same family for init
-  let { answer: best, consensus } = weightedVote(answers, weights);
+  const weights = warmupConfs.map(c => traceConfidence(c, "lowestGroup", opts)); // use same family for init
+  let vote = await voteOnTraces(traces, extractAnswer, weights, 100, opts.clusterAnswers ?? DEFAULTS.clusterAnswers);
   const maxBudget = opts.maxBudget ?? DEFAULTS.maxBudget;
+  // Early-stopped traces spend budget but never vote.
+  let generated = traces.length;
 
   // 2) Online loop
-  while (consensus < (opts.tau ?? DEFAULTS.tau) && traces.length < maxBudget) {
+  while (vote.consensus < (opts.tau ?? DEFAULTS.tau) && generated < maxBudget) {
+    generated++;
     const abort = new AbortController();
     const confList: number[] = [];
     const steps: Step[] = [];
@@ -351,9 +251,11 @@ export async function deepConfOnline(
     } catch (e) {
         if ((e as Error).name !== 'AbortError') {
             console.error("DeepConf stream error:", e);
+        } else if (!abort.signal.aborted) {
+            throw e; // cancelled by the caller, not stopped for low confidence
         }
     }
-
+    if (abort.signal.aborted) continue;
 
     const trace: Trace = { steps, text };
     traces.push(trace);
@@ -362,21 +264,11 @@ export async function deepConfOnline(
     const Ct = traceConfidence(confs, "lowestGroup", opts);
 
     // (re)compute votes with filtering + weights
-    const allAnswers = traces.map(extractAnswer);
-    const allScores = [
-      ...weights,
-      Ct
-    ];
-    weights.push(Ct); // update weights for next iteration
-
-    const filtered = filterTopEta(allAnswers, allScores, opts.etaPercent ?? DEFAULTS.etaPercent);
-    const voteResult = weightedVote(filtered.items, filtered.keptScores);
-    best = voteResult.answer;
-    consensus = voteResult.consensus;
+    weights.push(Ct);
+    vote = await voteOnTraces(traces, extractAnswer, weights, opts.etaPercent ?? DEFAULTS.etaPercent, opts.clusterAnswers ?? DEFAULTS.clusterAnswers);
   }
-  
-  const winningTrace = traces.find(t => extractAnswer(t) === best);
-  return { answer: best, content: winningTrace?.text ?? "Could not determine winning trace." };
+
+  return toResult(vote);
 }
 
 // --- DeepConf Offline with Judge ---
@@ -384,9 +276,11 @@ export async function deepConfOfflineWithJudge(
   provider: TraceProvider,
   prompt: string,
   extractAnswer: (t: Trace) => string,
+  adapter: Pick<ProviderAdapter, 'judge'>,
   agentModel: string,
-  optsIn: DeepConfOpts = {}
-): Promise<{ answer: string, content: string }> {
+  optsIn: DeepConfOpts = {},
+  abortSignal?: AbortSignal
+): Promise<DeepConfResult> {
     const opts = { ...DEFAULTS, ...optsIn };
     const tracePromises: Promise<Trace>[] = [];
     const traceCount = opts.maxBudget ?? DEFAULTS.maxBudget;
@@ -396,17 +290,12 @@ export async function deepConfOfflineWithJudge(
     }
     
     const traces = await Promise.all(tracePromises);
-    const answers = traces.map(extractAnswer);
 
     // Score each trace using the judge model
-    const scorePromises = traces.map(t => judgeAnswer(prompt, t.text, agentModel));
+    const scorePromises = traces.map(t => adapter.judge(prompt, t.text, agentModel, abortSignal));
     const scores = (await Promise.all(scorePromises)).map(r => r.score);
 
-    const { items: answersF, keptScores: scoresF } = filterTopEta(answers, scores, opts.etaPercent ?? DEFAULTS.etaPercent);
-    const { answer } = weightedVote(answersF, scoresF);
-
-    const winningTrace = traces.find(t => extractAnswer(t) === answer);
-    return { answer, content: winningTrace?.text ?? "Could not determine winning trace." };
+    return toResult(await voteOnTraces(traces, extractAnswer, scores, opts.etaPercent ?? DEFAULTS.etaPercent, opts.clusterAnswers ?? DEFAULTS.clusterAnswers));
 }
 
 // --- DeepConf Online with Judge ---
@@ -414,9 +303,11 @@ export async function deepConfOnlineWithJudge(
   provider: TraceProvider,
   prompt: string,
   extractAnswer: (t: Trace) => string,
+  adapter: Pick<ProviderAdapter, 'judge'>,
   agentModel: string,
-  optsIn: DeepConfOpts = {}
-): Promise<{ answer: string, content: string }> {
+  optsIn: DeepConfOpts = {},
+  abortSignal?: AbortSignal
+): Promise<DeepConfResult> {
     const opts = { ...DEFAULTS, ...optsIn };
     const traces: Trace[] = [];
     const scores: number[] = [];
@@ -430,35 +321,28 @@ export async function deepConfOnlineWithJudge(
     const warmupTraces = await Promise.all(warmupPromises);
     
     // Score warmup traces
-    const warmupScorePromises = warmupTraces.map(t => judgeAnswer(prompt, t.text, agentModel));
+    const warmupScorePromises = warmupTraces.map(t => adapter.judge(prompt, t.text, agentModel, abortSignal));
     const warmupScores = (await Promise.all(warmupScorePromises)).map(r => r.score);
     
     // initialize votes from warmup
     traces.push(...warmupTraces);
     scores.push(...warmupScores);
     
-    let answers = traces.map(extractAnswer);
-    const filteredWarmup = filterTopEta(answers, scores, opts.etaPercent ?? DEFAULTS.etaPercent);
-    let { answer: best, consensus } = weightedVote(filteredWarmup.items, filteredWarmup.keptScores);
+    let vote = await voteOnTraces(traces, extractAnswer, scores, opts.etaPercent ?? DEFAULTS.etaPercent, opts.clusterAnswers ?? DEFAULTS.clusterAnswers);
     
     const maxBudget = opts.maxBudget ?? DEFAULTS.maxBudget;
 
     // 2) Online loop
-    while (consensus < (opts.tau ?? DEFAULTS.tau) && traces.length < maxBudget) {
+    while (vote.consensus < (opts.tau ?? DEFAULTS.tau) && traces.length < maxBudget) {
         const newTrace = await provider.generate(prompt, new AbortController().signal);
-        const { score } = await judgeAnswer(prompt, newTrace.text, agentModel);
+        const { score } = await adapter.judge(prompt, newTrace.text, agentModel, abortSignal);
         
         traces.push(newTrace);
         scores.push(score);
 
         // (re)compute votes with filtering + weights
-        const allAnswers = traces.map(extractAnswer);
-        const filtered = filterTopEta(allAnswers, scores, opts.etaPercent ?? DEFAULTS.etaPercent);
-        const voteResult = weightedVote(filtered.items, filtered.keptScores);
-        best = voteResult.answer;
-        consensus = voteResult.consensus;
+        vote = await voteOnTraces(traces, extractAnswer, scores, opts.etaPercent ?? DEFAULTS.etaPercent, opts.clusterAnswers ?? DEFAULTS.clusterAnswers);
     }
-  
-    const winningTrace = traces.find(t => extractAnswer(t) === best);
-    return { answer: best, content: winningTrace?.text ?? "Could not determine winning trace." };
+
+    return toResult(vote);
 }
@@ -2,6 +2,11 @@
 
 import { GoogleGenAI } from "@google/genai";
 import OpenAI from "openai";
+import { GEMINI_EMBEDDING_MODEL, OPENAI_EMBEDDING_MODEL } from "../constants";
+import { callWithGeminiRetry } from "./geminiUtils";
+import { estimateRequestTokens, getScheduler } from "./scheduler";
+import { combineAbortSignals } from "@/lib/utils";
+import type { CustomEndpointSettings, EmbeddingProvider } from "@/types";
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -145,3 +150,77 @@ export const setOpenRouterApiKey = (key: string) => {
 export const getOpenRouterApiKey = (): string | undefined => {
     return currentOpenRouterApiKey;
 };
+
+let currentAnthropicApiKey: string | undefined;
+
+export const setAnthropicApiKey = (key: string) => {
+    if (key && key !== currentAnthropicApiKey) {
+        currentAnthropicApiKey = key;
+    }
+};
+
+export const getAnthropicApiKey = (): string | undefined => {
+    return currentAnthropicApiKey;
+};
+
+let currentCustomEndpoint: CustomEndpointSettings = { baseUrl: '', apiKey: '' };
+
+export const setCustomEndpoint = (endpoint: CustomEndpointSettings) => {
+    currentCustomEndpoint = { baseUrl: endpoint.baseUrl.trim().replace(/\/+$/, ''), apiKey: endpoint.apiKey.trim() };
+};
+
+/** The custom OpenAI-compatible endpoint, with any trailing slash removed from the base URL. */
+export const getCustomEndpoint = (): CustomEndpointSettings => currentCustomEndpoint;
+
+/**
+ * Embeds a batch of texts with the given provider, returning one vector per input
+ * in the same order. The call is rate limited by the shared scheduler like any other.
+ */
+export const embedTexts = async (
+    texts: string[],
+    provider: EmbeddingProvider,
+    abortSignal?: AbortSignal,
+): Promise<number[][]> => {
+    if (texts.length === 0) return [];
+
+    const tokens = estimateRequestTokens(...texts);
+
+    if (provider === 'openai') {
+        const openaiAI = getOpenAIClient();
+        const response = await getScheduler().run(
+            { provider: 'openai', model: OPENAI_EMBEDDING_MODEL },
+            () => callWithRetry(
+                () => openaiAI.embeddings.create(
+                    { model: OPENAI_EMBEDDING_MODEL, input: texts },
+                    { signal: abortSignal },
+                ),
+                'OpenAI',
+            ),
+            { tokens, abortSignal },
+        );
+        return [...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
+    }
+
+    const geminiAI = getGeminiClient();
+    const response = await getScheduler().run(
+        { provider: 'gemini', model: GEMINI_EMBEDDING_MODEL },
+        () => callWithGeminiRetry((signal) => {
+            const { signal: finalSignal, cleanup } = combineAbortSignals(signal, abortSignal);
+            return geminiAI.models
+                .embedContent({
+                    model: GEMINI_EMBEDDING_MODEL,
+                    contents: texts,
+                    config: { abortSignal: finalSignal },
+                })
+                .finally(cleanup);
+        }),
+        { tokens, abortSignal },
+    );
+    const embeddings = response.embeddings ?? [];
+    if (embeddings.length !== texts.length) {
+        throw new Error(`Gemini returned ${embeddings.length} embeddings for ${texts.length} inputs.`);
+    }
+    return embeddings.map(e => e.values ?? []);
+};
@@ -0,0 +1,184 @@
+import { getAnthropicApiKey, fetchWithRetry } from '@/services/llmService';
+import { estimateRequestTokens, getScheduler, releaseWhenDone } from '@/services/scheduler';
+import { ANTHROPIC_JUDGE_MODEL } from '@/constants';
+import { AnthropicAgentConfig, ImageState } from '@/types';
+import { buildJudgePrompt, clampJudgeScore, isJudgePayload, JUDGE_SYSTEM_PROMPT } from './judge';
+import { collectStream } from './streaming';
+import type { JudgeResult, ProviderAdapter } from './types';
+
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+// Output cap for arbiter calls, which have no per-agent max tokens setting.
+const ANTHROPIC_ARBITER_MAX_TOKENS = 16_000;
+
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+/** Parses a Messages API SSE body into text deltas, skipping thinking blocks. */
+export async function* anthropicStreamer(stream: ReadableStream<Uint8Array>): AsyncGenerator<{ text: string }> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder("utf-8");
+    // Events can be split across network chunks, so keep the trailing partial event.
+    let buffer = "";
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const events = buffer.split("\n\n");
+            buffer = events.pop() ?? "";
+
+            for (const event of events) {
+                const data = event.split("\n").find(line => line.startsWith("data: "))?.substring(6);
+                if (!data) continue;
+
+                let parsed;
+                try {
+                    parsed = JSON.parse(data);
+                } catch (error) {
+                    console.error("Error parsing Anthropic stream event:", error, "Event:", data);
+                    continue;
+                }
+                if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'text_delta' && parsed.delta.text) {
+                    yield { text: parsed.delta.text };
+                } else if (parsed.type === 'message_stop') {
+                    return;
+                } else if (parsed.type === 'error') {
+                    throw new Error(`Anthropic API Error: ${parsed.error?.message ?? 'stream failed'}`);
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+// Images go before the text, as Anthropic recommends.
+const buildUserContent = (prompt: string, images: ImageState[]): string | AnthropicContentBlock[] =>
+    images.length > 0
+        ? [
+            ...images.map((img): AnthropicContentBlock => ({
+                type: 'image',
+                source: { type: 'base64', media_type: img.file.type, data: img.base64 },
+            })),
+            { type: 'text', text: prompt },
+        ]
+        : prompt;
+
+const postMessages = async (body: Record<string, unknown>, abortSignal?: AbortSignal): Promise<Response> => {
+    const apiKey = getAnthropicApiKey();
+    if (!apiKey) throw new Error("Anthropic API Key not set.");
+
+    const response = await fetchWithRetry(ANTHROPIC_MESSAGES_URL, {
+        method: 'POST',
+        headers: {
+            'x-api-key': apiKey,
+            'anthropic-version': ANTHROPIC_API_VERSION,
+            // Required for CORS; keys are entered by the user and stay in their browser.
+            'anthropic-dangerous-direct-browser-access': 'true',
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: abortSignal,
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`Anthropic API Error: ${errorData.error?.message || response.statusText}`);
+    }
+    return response;
+};
+
+const streamMessages = async (body: Record<string, unknown>, abortSignal?: AbortSignal): Promise<ReadableStream<Uint8Array>> => {
+    const response = await postMessages({ ...body, stream: true }, abortSignal);
+    if (!response.body) throw new Error('Anthropic API Error: the response has no body.');
+    return response.body;
+};
+
+export const anthropicProvider: ProviderAdapter<AnthropicAgentConfig> = {
+    id: 'anthropic',
+
+    ownsModel: model => model.startsWith('claude-'),
+
+    capabilities: () => ({ vision: true, logprobs: false, contextWindow: 200_000 }),
+
+    // Structured output relies on the schema instruction the dispatcher appends to the prompt.
+    async generate(expert, prompt, images, config, { abortSignal, hooks }) {
+        if (!getAnthropicApiKey()) throw new Error("Anthropic API Key not set.");
+        const { thinkingBudget, maxTokens, temperature } = config.settings;
+        const body = {
+            model: expert.model,
+            system: expert.persona,
+            messages: [{ role: 'user', content: buildUserContent(prompt, images) }],
+            ...(thinkingBudget > 0
+                ? { max_tokens: maxTokens + thinkingBudget, thinking: { type: 'enabled', budget_tokens: thinkingBudget } }
+                : { max_tokens: maxTokens, temperature }),
+        };
+
+        return getScheduler().run(
+            { provider: 'anthropic', model: expert.model },
+            async () => collectStream(anthropicStreamer(await streamMessages(body, abortSignal)), hooks?.onDelta),
+            { tokens: estimateRequestTokens(expert.persona, prompt), abortSignal, ...hooks }
+        );
+    },
+
+    async stream({ model, systemPersona, userPrompt, abortSignal, images }) {
+        if (!getAnthropicApiKey()) throw new Error("Anthropic API Key not set.");
+        const body = {
+            model,
+            system: systemPersona,
+            messages: [{ role: 'user', content: buildUserContent(userPrompt, images) }],
+            max_tokens: ANTHROPIC_ARBITER_MAX_TOKENS,
+        };
+
+        const release = await getScheduler().acquire(
+            { provider: 'anthropic', model },
+            { tokens: estimateRequestTokens(systemPersona, userPrompt), abortSignal }
+        );
+        try {
+            return releaseWhenDone(anthropicStreamer(await streamMessages(body, abortSignal)), release);
+        } catch (error) {
+            release();
+            throw error;
+        }
+    },
+
+    // Judged by Claude Haiku regardless of the agent's model, mirroring the OpenAI judge.
+    async judge(prompt, answer, _agentModel, abortSignal): Promise<JudgeResult> {
+        try {
+            const userPrompt = buildJudgePrompt(prompt, answer);
+            const response = await getScheduler().run(
+                { provider: 'anthropic', model: ANTHROPIC_JUDGE_MODEL },
+                () => postMessages({
+                    model: ANTHROPIC_JUDGE_MODEL,
+                    system: JUDGE_SYSTEM_PROMPT,
+                    messages: [{ role: 'user', content: userPrompt }],
+                    max_tokens: 1024,
+                    temperature: 0,
+                }, abortSignal),
+                { tokens: estimateRequestTokens(JUDGE_SYSTEM_PROMPT, userPrompt), abortSignal }
+            );
+            const message = await response.json();
+            const jsonString: string = message.content?.find((block: { type: string }) => block.type === 'text')?.text ?? '';
+            if (!jsonString) {
+                return { score: 0, reasons: ["Judge model returned an empty response."] };
+            }
+
+            const result = JSON.parse(jsonString.trim().match(/\{[\s\S]*\}/)?.[0] ?? '{}');
+            if (isJudgePayload(result)) {
+                return clampJudgeScore(result);
+            }
+
+            console.warn("Anthropic judge model returned invalid JSON shape:", result);
+            return { score: 0, reasons: ["Invalid JSON response from Anthropic judge model."] };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') throw error;
+            console.error("Error during Anthropic answer judging:", error);
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            return { score: 0, reasons: [`An error occurred while judging the answer with Anthropic: ${errorMessage}`] };
+        }
+    },
+};
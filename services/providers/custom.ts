@@ -0,0 +1,161 @@
+import { getCustomEndpoint, fetchWithRetry } from '@/services/llmService';
+import { estimateRequestTokens, getScheduler, releaseWhenDone } from '@/services/scheduler';
+import { CustomAgentConfig, ImageState } from '@/types';
+import type { StructuredOutput } from '@/moe/structuredOutput';
+import { buildChatMessages, chatResponseFormat, openRouterStreamer, readTrace } from './openrouter';
+import { buildJudgePrompt, clampJudgeScore, isJudgePayload, JUDGE_SYSTEM_PROMPT } from './judge';
+import { collectStream } from './streaming';
+import type { JudgeResult, ProviderAdapter } from './types';
+
+// Ids from the last successful discovery; bare model ids are only attributed to the endpoint when listed here.
+let discoveredModels: string[] = [];
+
+const endpointUrl = (path: string): string => {
+    const { baseUrl } = getCustomEndpoint();
+    if (!baseUrl) throw new Error("Custom endpoint base URL not set. Add it in Settings → Custom Endpoint.");
+    return `${baseUrl}${path}`;
+};
+
+const endpointHeaders = (): Record<string, string> => {
+    const { apiKey } = getCustomEndpoint();
+    return {
+        'Content-Type': 'application/json',
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+    };
+};
+
+const throwEndpointError = async (response: Response): Promise<never> => {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(`Custom endpoint error: ${errorData.error?.message || response.statusText || response.status}`);
+};
+
+const postCompletion = async (body: Record<string, unknown>, abortSignal?: AbortSignal): Promise<Response> => {
+    const response = await fetchWithRetry(endpointUrl('/chat/completions'), {
+        method: 'POST',
+        headers: endpointHeaders(),
+        body: JSON.stringify(body),
+        signal: abortSignal,
+    });
+    if (!response.ok) await throwEndpointError(response);
+    return response;
+};
+
+const streamCompletion = async (body: Record<string, unknown>, abortSignal?: AbortSignal): Promise<ReadableStream<Uint8Array>> => {
+    const response = await postCompletion({ ...body, stream: true }, abortSignal);
+    if (!response.body) throw new Error('Custom endpoint error: the response has no body.');
+    return response.body;
+};
+
+/** Lists the endpoint's models via `GET {baseUrl}/models` and remembers them for model resolution. */
+export const discoverCustomModels = async (abortSignal?: AbortSignal): Promise<string[]> => {
+    const response = await fetchWithRetry(endpointUrl('/models'), { headers: endpointHeaders(), signal: abortSignal });
+    if (!response.ok) await throwEndpointError(response);
+    const payload = await response.json().catch(() => null);
+    if (!Array.isArray(payload?.data)) {
+        throw new Error('Custom endpoint error: /models did not return a model list.');
+    }
+    discoveredModels = payload.data
+        .map((model: { id?: unknown }) => model.id)
+        .filter((id: unknown): id is string => typeof id === 'string')
+        .sort();
+    return discoveredModels;
+};
+
+const buildRequestBody = (model: string, persona: string, prompt: string, images: ImageState[], config: CustomAgentConfig, structuredOutput?: StructuredOutput | null) => {
+    const { temperature, topP, maxTokens } = config.settings;
+    return {
+        model,
+        messages: buildChatMessages(persona, prompt, images),
+        temperature,
+        top_p: topP,
+        ...(maxTokens && { max_tokens: maxTokens }),
+        ...chatResponseFormat(structuredOutput),
+    };
+};
+
+export const customProvider: ProviderAdapter<CustomAgentConfig> = {
+    id: 'custom',
+
+    ownsModel: model => discoveredModels.includes(model),
+
+    // Local servers rarely advertise vision or their context size, so assume neither.
+    // llama.cpp and vLLM stream logprobs; servers that do not fail the first trace.
+    capabilities: () => ({ vision: false, logprobs: true, contextWindow: 8_192 }),
+
+    async generate(expert, prompt, images, config, { abortSignal, hooks, structuredOutput }) {
+        const body = buildRequestBody(expert.model, expert.persona, prompt, images, config, structuredOutput);
+
+        return getScheduler().run(
+            { provider: 'custom', model: expert.model },
+            async () => collectStream(openRouterStreamer(await streamCompletion(body, abortSignal)), hooks?.onDelta),
+            { tokens: estimateRequestTokens(expert.persona, prompt), abortSignal, ...hooks }
+        );
+    },
+
+    async generateTrace(expert, prompt, images, config, { abortSignal, hooks, topLogprobs, onStep }) {
+        const body = {
+            ...buildRequestBody(expert.model, expert.persona, prompt, images, config),
+            logprobs: true,
+            top_logprobs: topLogprobs,
+        };
+
+        return getScheduler().run(
+            { provider: 'custom', model: expert.model },
+            async () => readTrace(await streamCompletion(body, abortSignal), expert.model, onStep),
+            { tokens: estimateRequestTokens(expert.persona, prompt), abortSignal, ...hooks }
+        );
+    },
+
+    async stream({ model, systemPersona, userPrompt, abortSignal, structuredOutput, images }) {
+        const body = {
+            model,
+            messages: buildChatMessages(systemPersona, userPrompt, images),
+            ...chatResponseFormat(structuredOutput),
+        };
+
+        const release = await getScheduler().acquire(
+            { provider: 'custom', model },
+            { tokens: estimateRequestTokens(systemPersona, userPrompt), abortSignal }
+        );
+        try {
+            return releaseWhenDone(openRouterStreamer(await streamCompletion(body, abortSignal)), release);
+        } catch (error) {
+            release();
+            throw error;
+        }
+    },
+
+    // Judged by the agent's own model so air-gapped setups never call a hosted judge.
+    async judge(prompt, answer, agentModel, abortSignal): Promise<JudgeResult> {
+        try {
+            const userPrompt = buildJudgePrompt(prompt, answer);
+            const response = await getScheduler().run(
+                { provider: 'custom', model: agentModel },
+                () => postCompletion({
+                    model: agentModel,
+                    messages: buildChatMessages(JUDGE_SYSTEM_PROMPT, userPrompt, []),
+                    temperature: 0,
+                }, abortSignal),
+                { tokens: estimateRequestTokens(JUDGE_SYSTEM_PROMPT, userPrompt), abortSignal }
+            );
+            const completion = await response.json();
+            const jsonString: string = completion.choices?.[0]?.message?.content ?? '';
+            if (!jsonString) {
+                return { score: 0, reasons: ["Judge model returned an empty response."] };
+            }
+
+            const result = JSON.parse(jsonString.trim().match(/\{[\s\S]*\}/)?.[0] ?? '{}');
+            if (isJudgePayload(result)) {
+                return clampJudgeScore(result);
+            }
+
+            console.warn("Custom endpoint judge returned invalid JSON shape:", result);
+            return { score: 0, reasons: ["Invalid JSON response from the custom endpoint judge."] };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') throw error;
+            console.error("Error during custom endpoint answer judging:", error);
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            return { score: 0, reasons: [`An error occurred while judging the answer with the custom endpoint: ${errorMessage}`] };
+        }
+    },
+};
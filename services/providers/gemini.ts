@@ -0,0 +1,349 @@
+import { GenerateContentParameters, Part, Type } from "@google/genai";
+import { getGeminiClient } from '@/services/llmService';
+import { getGeminiResponseText, combineAbortSignals } from '@/lib/utils';
+import { callWithGeminiRetry, handleGeminiError, isAbortError, isGeminiRateLimitError, GEMINI_QUOTA_MESSAGE } from '@/services/geminiUtils';
+import { estimateRequestTokens, getScheduler, releaseWhenDone } from '@/services/scheduler';
+import { GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL } from '@/constants';
+import { GeminiAgentConfig, GeminiThinkingEffort, MAX_GEMINI_TIMEOUT_MS, MIN_GEMINI_TIMEOUT_MS } from '@/types';
+import type { ExpertDispatch } from '@/moe/types';
+import { buildJudgePrompt, clampJudgeScore, isJudgePayload, JUDGE_SYSTEM_PROMPT } from './judge';
+import type { GenerateResult, JudgeResult, ProviderAdapter } from './types';
+
+const GEMINI_PRO_BUDGETS: Record<Exclude<GeminiThinkingEffort, 'none'>, number> = {
+    low: 8192,
+    medium: 24576,
+    high: 32768,
+    dynamic: -1,
+};
+
+const GEMINI_FLASH_BUDGETS: Record<GeminiThinkingEffort, number> = {
+    none: 0,
+    low: 4096,
+    medium: 12288,
+    high: 24576,
+    dynamic: -1,
+};
+
+/** Thinking budget for Flash or Pro. 'none' is not a valid effort for Pro, so it maps to 'dynamic'. */
+const thinkingBudget = (model: string, effort: GeminiThinkingEffort): number =>
+    model === GEMINI_FLASH_MODEL
+        ? GEMINI_FLASH_BUDGETS[effort]
+        : GEMINI_PRO_BUDGETS[effort === 'none' ? 'dynamic' : effort];
+
+const parseEnvInt = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+const GEMINI_RETRY_COUNT = parseEnvInt(process.env.GEMINI_RETRY_COUNT, 2);
+const GEMINI_BACKOFF_MS = parseEnvInt(process.env.GEMINI_BACKOFF_MS, 2000);
+
+/**
+ * Validates and normalizes a Gemini timeout against minimum and maximum bounds.
+ * Falls back to the provided default when out of range and logs contextual information.
+ *
+ * @param timeoutMs - Timeout in milliseconds to validate.
+ * @param defaultTimeoutMs - Fallback timeout if the provided value is invalid.
+ * @param context - Optional metadata for logging, such as expert name or value source.
+ * @returns A timeout guaranteed to be within allowed bounds.
+ */
+const normalizeGeminiTimeout = (
+    timeoutMs: number,
+    defaultTimeoutMs: number,
+    context: { expertName?: string; source?: string } = {}
+) => {
+    if (timeoutMs < MIN_GEMINI_TIMEOUT_MS || timeoutMs > MAX_GEMINI_TIMEOUT_MS) {
+        console.warn({
+            message: 'Invalid Gemini timeout; falling back to default',
+            ...context,
+            originalTimeout: timeoutMs,
+            newTimeout: defaultTimeoutMs,
+            minTimeoutMs: MIN_GEMINI_TIMEOUT_MS,
+            maxTimeoutMs: MAX_GEMINI_TIMEOUT_MS,
+        });
+        return defaultTimeoutMs;
+    }
+    if (context.expertName && timeoutMs !== defaultTimeoutMs) {
+        console.debug({
+            message: 'Using custom Gemini timeout',
+            expertName: context.expertName,
+            timeoutMs,
+            defaultTimeoutMs,
+        });
+    }
+    return timeoutMs;
+};
+// Default timeout for Gemini requests; individual experts can override this via config.
+const DEFAULT_GEMINI_TIMEOUT_MS = ((fallback: number) =>
+    normalizeGeminiTimeout(
+        parseEnvInt(process.env.GEMINI_TIMEOUT_MS, fallback),
+        fallback,
+        { source: 'env' }
+    )
+)(30000);
+
+const formatTimeoutError = (expertName: string, model: string, timeoutMs: number, elapsed: number) =>
+    `Expert "${expertName}" using model "${model}" exceeded the configured timeout of ${Math.round(timeoutMs / 1000)} seconds after ${Math.round(elapsed / 1000)} seconds.`;
+
+const processGeminiStream = async (
+    stream: AsyncGenerator<any, void, unknown>,
+    expert: ExpertDispatch,
+    model: string,
+    timeoutController: AbortController,
+    start: number,
+    timeoutMs: number,
+    onDelta?: (text: string) => void
+): Promise<GenerateResult> => {
+    const ensureWithinTimeout = (): void => {
+        if (timeoutController.signal.aborted) {
+            const elapsed = performance.now() - start;
+            throw new Error(formatTimeoutError(expert.name, model, timeoutMs, elapsed));
+        }
+    };
+
+    let result = '';
+    try {
+        for await (const chunk of stream) {
+            ensureWithinTimeout();
+            const text = getGeminiResponseText(chunk);
+            if (text) {
+                console.debug({ message: 'Gemini stream chunk', expertName: expert.name, text });
+                result += text;
+                onDelta?.(text);
+            }
+        }
+        return { content: result, isPartial: false };
+    } catch (streamError) {
+        console.error({ message: 'Error processing stream chunk', error: streamError });
+        ensureWithinTimeout();
+        if (isAbortError(streamError)) {
+            throw streamError as Error;
+        }
+        if (result) {
+            console.warn('Returning partial result due to streaming error');
+            return {
+                content: result,
+                isPartial: true,
+                error: streamError instanceof Error ? streamError : new Error(String(streamError)),
+            };
+        }
+        throw streamError;
+    }
+};
+
+export const geminiProvider: ProviderAdapter<GeminiAgentConfig> = {
+    id: 'gemini',
+
+    ownsModel: model => model.startsWith('gemini-'),
+
+    capabilities: () => ({ vision: true, logprobs: false, contextWindow: 1_000_000 }),
+
+    async generate(expert, prompt, images, config, { abortSignal, hooks, structuredOutput }) {
+        const parts: Part[] = [{ text: prompt }];
+        images.forEach(img => {
+            parts.push({
+                inlineData: {
+                    mimeType: img.file.type,
+                    data: img.base64,
+                },
+            });
+        });
+
+        const generateContentParams: GenerateContentParameters = {
+            model: expert.model,
+            contents: { parts },
+            config: {
+                systemInstruction: expert.persona,
+                temperature: 0.5 + Math.random() * 0.2, // Add some randomness
+                ...(structuredOutput && { responseMimeType: 'application/json', responseJsonSchema: structuredOutput.schema }),
+            }
+        };
+
+        // Apply thinking config for both Flash and Pro models based on the agent's settings.
+        if ((config.model === GEMINI_FLASH_MODEL || config.model === GEMINI_PRO_MODEL) && generateContentParams.config) {
+            generateContentParams.config.thinkingConfig = { thinkingBudget: thinkingBudget(config.model, config.settings.effort) };
+        }
+
+        // Validate API key before making the call
+        let geminiAI;
+        try {
+            geminiAI = getGeminiClient();
+        } catch (error) {
+            throw new Error(`Gemini API key is missing or invalid. Please check your API key in settings.`);
+        }
+        const timeoutMs = normalizeGeminiTimeout(
+            config.settings.timeoutMs ?? DEFAULT_GEMINI_TIMEOUT_MS,
+            DEFAULT_GEMINI_TIMEOUT_MS,
+            { expertName: expert.name }
+        );
+        // Wait for a scheduler slot before starting the timeout so queueing time is not counted.
+        const release = await getScheduler().acquire(
+            { provider: 'gemini', model: config.model },
+            { tokens: estimateRequestTokens(expert.persona, prompt), abortSignal, ...hooks }
+        );
+        const start = performance.now();
+        const timeoutController = new AbortController();
+        const timeoutHandle = setTimeout(() => timeoutController.abort(), timeoutMs);
+        let cleanup: (() => void) | undefined;
+        try {
+            const stream = await callWithGeminiRetry(
+                (signal) => {
+                    cleanup?.();
+                    if (timeoutController.signal.aborted) {
+                        const elapsed = performance.now() - start;
+                        return Promise.reject(new Error(formatTimeoutError(expert.name, config.model, timeoutMs, elapsed)));
+                    }
+                    if (abortSignal?.aborted) {
+                        const abortErr = new Error('Aborted');
+                        abortErr.name = 'AbortError';
+                        return Promise.reject(abortErr);
+                    }
+                    const combined = combineAbortSignals(signal, abortSignal, timeoutController.signal);
+                    cleanup = combined.cleanup;
+                    if (generateContentParams.config) {
+                        generateContentParams.config.abortSignal = combined.signal;
+                    }
+                    try {
+                        return geminiAI.models.generateContentStream(generateContentParams);
+                    } catch (error) {
+                        if (timeoutController.signal.aborted) {
+                            const elapsed = performance.now() - start;
+                            throw new Error(formatTimeoutError(expert.name, config.model, timeoutMs, elapsed));
+                        }
+                        throw error;
+                    }
+                },
+                { retries: GEMINI_RETRY_COUNT, baseDelayMs: GEMINI_BACKOFF_MS, timeoutMs }
+            );
+            return await processGeminiStream(stream, expert, config.model, timeoutController, start, timeoutMs, hooks?.onDelta);
+        } catch (error) {
+            if (isAbortError(error)) {
+                throw error as Error;
+            }
+            if (error instanceof Error) {
+                if (error.message.startsWith(`Expert "${expert.name}" exceeded the configured timeout`)) {
+                    throw error;
+                } else if (error.message.startsWith('Gemini request timed out')) {
+                    const elapsed = performance.now() - start;
+                    throw new Error(formatTimeoutError(expert.name, config.model, timeoutMs, elapsed));
+                }
+            }
+            return handleGeminiError(error, 'dispatcher', 'dispatch');
+        } finally {
+            clearTimeout(timeoutHandle);
+            cleanup?.();
+            release();
+        }
+    },
+
+    async stream({ model: requestedModel, systemPersona, userPrompt, geminiEffort, abortSignal, structuredOutput, images }) {
+        // Unknown Gemini ids fall back to Pro, the default arbiter.
+        const model = requestedModel === GEMINI_FLASH_MODEL ? GEMINI_FLASH_MODEL : GEMINI_PRO_MODEL;
+        const budget = thinkingBudget(model, geminiEffort);
+
+        const geminiAI = getGeminiClient();
+        const release = await getScheduler().acquire(
+            { provider: 'gemini', model },
+            { tokens: estimateRequestTokens(systemPersona, userPrompt), abortSignal }
+        );
+        try {
+            const stream = await callWithGeminiRetry((signal) => {
+                const { signal: finalSignal, cleanup } = combineAbortSignals(signal, abortSignal);
+                return geminiAI
+                    .models.generateContentStream({
+                        model,
+                        contents: {
+                            parts: [
+                                { text: userPrompt },
+                                ...images.map(img => ({ inlineData: { mimeType: img.file.type, data: img.base64 } })),
+                            ],
+                        },
+                        config: {
+                            systemInstruction: systemPersona,
+                            thinkingConfig: { thinkingBudget: budget },
+                            abortSignal: finalSignal,
+                            ...(structuredOutput && { responseMimeType: 'application/json', responseJsonSchema: structuredOutput.schema }),
+                        }
+                    })
+                    .finally(cleanup);
+            });
+
+            async function* transformGeminiStream(): AsyncGenerator<{ text: string }> {
+                for await (const chunk of stream) {
+                    yield { text: getGeminiResponseText(chunk) };
+                }
+            }
+            return releaseWhenDone(transformGeminiStream(), release);
+        } catch (error) {
+            release();
+            return handleGeminiError(error, 'arbiter', 'arbitration');
+        }
+    },
+
+    async judge(prompt, answer, agentModel, abortSignal): Promise<JudgeResult> {
+        try {
+            // If the agent model is Pro, use the Pro model for judging for consistency. Otherwise, use the fast Flash model.
+            const judgeModel = agentModel === GEMINI_PRO_MODEL ? GEMINI_PRO_MODEL : GEMINI_FLASH_MODEL;
+
+            const geminiAI = getGeminiClient();
+            const response = await getScheduler().run(
+                { provider: 'gemini', model: judgeModel },
+                () => callWithGeminiRetry((signal) => {
+                    const { signal: finalSignal, cleanup } = combineAbortSignals(signal, abortSignal);
+                    return geminiAI.models.generateContent({
+                        model: judgeModel,
+                        contents: { parts: [{ text: buildJudgePrompt(prompt, answer) }] },
+                        config: {
+                            systemInstruction: JUDGE_SYSTEM_PROMPT,
+                            responseMimeType: "application/json",
+                            responseSchema: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    score: { type: Type.NUMBER },
+                                    reasons: {
+                                        type: Type.ARRAY,
+                                        items: { type: Type.STRING }
+                                    }
+                                },
+                                propertyOrdering: ["score", "reasons"],
+                            },
+                            temperature: 0, // deterministic judging
+                            abortSignal: finalSignal,
+                        },
+                    }).finally(cleanup);
+                }),
+                { tokens: estimateRequestTokens(JUDGE_SYSTEM_PROMPT, buildJudgePrompt(prompt, answer)), abortSignal }
+            );
+
+            const jsonString = getGeminiResponseText(response).trim();
+            if (!jsonString) {
+                console.warn("Judge model returned empty response");
+                return { score: 0, reasons: ["Empty response from judge model."] };
+            }
+
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(jsonString);
+            } catch (error) {
+                console.error("Failed to parse JSON from Gemini judge:", error);
+                const message = error instanceof Error ? error.message : String(error);
+                return { score: 0, reasons: [`Failed to parse JSON response from judge model: ${message}`] };
+            }
+
+            if (isJudgePayload(parsed)) {
+                return clampJudgeScore(parsed);
+            }
+
+            console.warn("Judge model returned invalid JSON shape:", parsed);
+            return { score: 0, reasons: ["Invalid JSON response from judge model."] };
+
+        } catch (error) {
+            if (abortSignal?.aborted) throw new DOMException('Aborted', 'AbortError');
+            console.error("Error during answer judging:", error);
+            if (isGeminiRateLimitError(error)) {
+                return { score: 0, reasons: [GEMINI_QUOTA_MESSAGE] };
+            }
+            return { score: 0, reasons: ["An error occurred while judging the answer."] };
+        }
+    },
+};
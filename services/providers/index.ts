@@ -0,0 +1,34 @@
+import type { ApiProvider } from '@/types';
+import { anthropicProvider } from './anthropic';
+import { customProvider } from './custom';
+import { geminiProvider } from './gemini';
+import { openAIProvider } from './openai';
+import { openRouterProvider } from './openrouter';
+import type { ProviderAdapter } from './types';
+
+export type { GenerateHooks, GenerateOptions, GenerateResult, JudgeResult, ProviderAdapter, ProviderCapabilities, StreamRequest, TraceOptions } from './types';
+export { openRouterStreamer } from './openrouter';
+export { discoverCustomModels } from './custom';
+
+// Custom comes first: it only claims ids discovered on the endpoint, which may look like any vendor's.
+const registry: Record<ApiProvider, ProviderAdapter> = {
+    custom: customProvider,
+    gemini: geminiProvider,
+    openai: openAIProvider,
+    openrouter: openRouterProvider,
+    anthropic: anthropicProvider,
+};
+
+/** Adds or replaces the adapter for `adapter.id`. */
+export const registerProvider = (adapter: ProviderAdapter): void => {
+    registry[adapter.id] = adapter;
+};
+
+export const getProvider = (id: ApiProvider): ProviderAdapter => registry[id];
+
+/**
+ * Resolves a bare model id, as used for arbiter and judge models. Unknown ids
+ * fall back to Gemini, the default arbiter provider.
+ */
+export const providerForModel = (model: string): ProviderAdapter =>
+    Object.values(registry).find(adapter => adapter.ownsModel(model)) ?? registry.gemini;
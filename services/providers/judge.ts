@@ -0,0 +1,35 @@
+import type { JudgeResult } from './types';
+
+/** Shared verifier prompt, so every provider's judge scores drafts against the same rubric. */
+export const JUDGE_SYSTEM_PROMPT = `You are a strict verifier. Return ONLY JSON with fields: {"score": number, "reasons": string[]}. Score in [0,1].`;
+
+export const buildJudgePrompt = (prompt: string, answer: string) => `
+Task:
+- Question/prompt:
+"""${prompt}"""
+- Model answer:
+"""${answer}"""
+
+Rubric (each ~0.2 points):
+1) Directly answers the asked question.
+2) Uses only information entailed by the prompt/context.
+3) Final answer format matches spec (e.g., number/string/code).
+4) No contradictions or hedging.
+5) Concise and unambiguous.
+
+Return JSON only.`;
+
+export const isJudgePayload = (obj: unknown): obj is JudgeResult => {
+    if (typeof obj !== 'object' || obj === null) return false;
+    const record = obj as Record<string, unknown>;
+    return (
+        typeof record.score === 'number' &&
+        Array.isArray(record.reasons) &&
+        record.reasons.every(r => typeof r === 'string')
+    );
+};
+
+export const clampJudgeScore = (result: JudgeResult): JudgeResult => ({
+    score: Math.max(0, Math.min(1, result.score)),
+    reasons: result.reasons,
+});
@@ -0,0 +1,179 @@
+import { getOpenAIClient, callWithRetry } from '@/services/llmService';
+import { estimateRequestTokens, getScheduler, releaseWhenDone } from '@/services/scheduler';
+import { OPENAI_JUDGE_MODEL, OPENAI_REASONING_PROMPT_PREFIX } from '@/constants';
+import { OpenAIAgentConfig } from '@/types';
+import { buildJudgePrompt, clampJudgeScore, isJudgePayload, JUDGE_SYSTEM_PROMPT } from './judge';
+import type { JudgeResult, ProviderAdapter } from './types';
+
+/**
+ * Scores an answer with the OpenAI judge model (gpt-5-mini) regardless of the
+ * agent's own model. Also used for OpenRouter agents.
+ */
+export const judgeWithOpenAI = async (prompt: string, answer: string, abortSignal?: AbortSignal): Promise<JudgeResult> => {
+    try {
+        const openaiAI = getOpenAIClient();
+        const systemPrompt = OPENAI_REASONING_PROMPT_PREFIX + JUDGE_SYSTEM_PROMPT;
+        const userPrompt = buildJudgePrompt(prompt, answer);
+
+        const completion = await getScheduler().run(
+            { provider: 'openai', model: OPENAI_JUDGE_MODEL },
+            () => openaiAI.responses.create({
+                model: OPENAI_JUDGE_MODEL,
+                reasoning: { effort: 'medium' },
+                input: [
+                    { role: 'system', content: systemPrompt },
+                    { role: 'user', content: userPrompt }
+                ],
+                temperature: 0,
+            }, { signal: abortSignal }),
+            { tokens: estimateRequestTokens(systemPrompt, userPrompt), abortSignal }
+        );
+
+        const jsonString = completion.output_text;
+        if (!jsonString) {
+            return { score: 0, reasons: ["Judge model returned an empty response."] };
+        }
+
+        // The model is instructed to return ONLY JSON. We must robustly parse it.
+        const cleanedJsonString = jsonString.trim().match(/\{[\s\S]*\}/)?.[0] ?? '{}';
+        const result = JSON.parse(cleanedJsonString);
+
+        if (isJudgePayload(result)) {
+            return clampJudgeScore(result);
+        }
+
+        console.warn("OpenAI Judge model returned invalid JSON shape:", result);
+        return { score: 0, reasons: ["Invalid JSON response from OpenAI judge model."] };
+
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') throw error;
+        console.error("Error during OpenAI answer judging:", error);
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        if (error instanceof SyntaxError) {
+            return { score: 0, reasons: [`Failed to parse JSON response from OpenAI judge: ${errorMessage}`] };
+        }
+        return { score: 0, reasons: [`An error occurred while judging the answer with OpenAI: ${errorMessage}`] };
+    }
+};
+
+export const openAIProvider: ProviderAdapter<OpenAIAgentConfig> = {
+    id: 'openai',
+
+    ownsModel: model => /^(gpt-|o\d)/.test(model),
+
+    // 28k rather than the real window to stay under the observed 30k TPM limit for gpt-5.
+    capabilities: () => ({ vision: true, logprobs: false, contextWindow: 28_000 }),
+
+    async generate(expert, prompt, images, config, { abortSignal, hooks, structuredOutput }) {
+        const openaiAI = getOpenAIClient();
+
+        let systemMessage = expert.persona;
+        systemMessage += `\nYour response verbosity should be ${config.settings.verbosity}.`;
+        if (config.settings.effort === 'high') {
+            systemMessage = OPENAI_REASONING_PROMPT_PREFIX + systemMessage;
+        }
+
+        const userContent: any = images.length > 0
+            ? [
+                { type: 'input_text', text: prompt },
+                ...images.map(img => ({
+                    type: 'input_image',
+                    image_url: { url: `data:${img.file.type};base64,${img.base64}` },
+                }))
+            ]
+            : prompt;
+
+        const content = await getScheduler().run(
+            { provider: 'openai', model: expert.model },
+            async () => {
+                const stream = await callWithRetry(
+                    () =>
+                        openaiAI.responses.stream(
+                            {
+                                model: expert.model,
+                                reasoning: { effort: config.settings.effort },
+                                input: [
+                                    { role: 'system', content: systemMessage },
+                                    { role: 'user', content: userContent },
+                                ],
+                                ...(structuredOutput && {
+                                    text: { format: { type: 'json_schema', name: structuredOutput.name, schema: structuredOutput.schema, strict: false } },
+                                }),
+                            },
+                            { signal: abortSignal }
+                        ),
+                    'OpenAI'
+                );
+                let text = '';
+                for await (const event of stream) {
+                    if (event.type === 'response.output_text.delta') {
+                        text += event.delta;
+                        hooks?.onDelta?.(event.delta);
+                    }
+                }
+                return text;
+            },
+            { tokens: estimateRequestTokens(systemMessage, prompt), abortSignal, ...hooks }
+        );
+        return { content: content || 'No content received.', isPartial: false };
+    },
+
+    async stream({ model, systemPersona: basePersona, highEffortModifier = '', verbosityInstruction = '', userPrompt, openAIEffort, abortSignal, structuredOutput, images }) {
+        const openaiAI = getOpenAIClient();
+
+        let systemPersona = basePersona;
+        if (openAIEffort === 'high') {
+            systemPersona = OPENAI_REASONING_PROMPT_PREFIX + systemPersona + highEffortModifier;
+        }
+        systemPersona += verbosityInstruction;
+
+        const release = await getScheduler().acquire(
+            { provider: 'openai', model },
+            { tokens: estimateRequestTokens(systemPersona, userPrompt), abortSignal }
+        );
+        try {
+            const stream = await callWithRetry(
+                () =>
+                    openaiAI.responses.stream(
+                        {
+                            model,
+                            reasoning: { effort: openAIEffort },
+                            input: [
+                                { role: 'system', content: systemPersona },
+                                {
+                                    role: 'user',
+                                    content: images.length > 0
+                                        ? [
+                                            { type: 'input_text', text: userPrompt },
+                                            ...images.map(img => ({ type: 'input_image' as const, image_url: `data:${img.file.type};base64,${img.base64}`, detail: 'auto' as const })),
+                                        ]
+                                        : userPrompt,
+                                },
+                            ],
+                            ...(structuredOutput && {
+                                text: { format: { type: 'json_schema', name: structuredOutput.name, schema: structuredOutput.schema, strict: false } },
+                            }),
+                        },
+                        { signal: abortSignal }
+                    ),
+                'OpenAI'
+            );
+
+            async function* transformStream(): AsyncGenerator<{ text: string }> {
+                for await (const event of stream) {
+                    if (event.type === 'response.output_text.delta') {
+                        yield { text: event.delta };
+                    }
+                }
+            }
+
+            return releaseWhenDone(transformStream(), release);
+        } catch (error) {
+            release();
+            console.error('Error calling the OpenAI API for arbiter:', error);
+            throw error;
+        }
+    },
+
+    judge: (prompt, answer, _agentModel, abortSignal) => judgeWithOpenAI(prompt, answer, abortSignal),
+};
@@ -0,0 +1,221 @@
+import { getOpenRouterApiKey, fetchWithRetry } from '@/services/llmService';
+import { estimateRequestTokens, getScheduler, releaseWhenDone } from '@/services/scheduler';
+import { getAppUrl } from '@/lib/utils';
+import { OPENROUTER_VISION_MODELS } from '@/constants';
+import { ImageState, OpenRouterAgentConfig } from '@/types';
+import type { StructuredOutput } from '@/moe/structuredOutput';
+import type { Step, Trace } from '@/services/deepconf';
+import { judgeWithOpenAI } from './openai';
+import { collectStream } from './streaming';
+import type { ProviderAdapter } from './types';
+
+interface OpenRouterContentPart {
+    type: 'text' | 'image_url';
+    text?: string;
+    image_url?: { url: string };
+}
+
+interface OpenRouterMessage {
+    role: 'system' | 'user';
+    content: string | OpenRouterContentPart[];
+}
+
+interface ChatTokenLogprob {
+    token: string;
+    logprob: number;
+    top_logprobs?: { token: string; logprob: number }[];
+}
+
+/**
+ * Parses an OpenAI-compatible chat completions SSE body (OpenRouter, custom
+ * endpoints) into text deltas, plus token steps when logprobs were requested.
+ */
+export async function* openRouterStreamer(stream: ReadableStream<Uint8Array>): AsyncGenerator<{ text: string; steps?: Step[] }> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder("utf-8");
+    // Events can be split across network chunks, so keep the trailing partial event.
+    let buffer = "";
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n\n");
+            buffer = lines.pop() ?? "";
+
+            for (const line of lines) {
+                if (line.startsWith("data: ")) {
+                    const data = line.substring(6);
+                    if (data.trim() === "[DONE]") {
+                        return;
+                    }
+                    try {
+                        const parsed = JSON.parse(data);
+                        const text = parsed.choices[0]?.delta?.content || "";
+                        const logprobs: ChatTokenLogprob[] | undefined = parsed.choices[0]?.logprobs?.content;
+                        if (logprobs?.length) {
+                            const steps = logprobs.map((lp): Step => ({
+                                token: lp.token,
+                                topK: (lp.top_logprobs ?? []).map(({ token, logprob }) => ({ token, logprob })),
+                            }));
+                            yield { text, steps };
+                        } else if (text) {
+                            yield { text };
+                        }
+                    } catch (error) {
+                        console.error("Error parsing OpenRouter stream chunk:", error, "Chunk:", data);
+                    }
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/** System and user messages in the chat completions format, with images as data URLs. */
+export const buildChatMessages = (systemPrompt: string, prompt: string, images: ImageState[]): OpenRouterMessage[] => [
+    { role: 'system', content: systemPrompt },
+    {
+        role: 'user',
+        content: images.length > 0
+            ? [
+                { type: 'text', text: prompt },
+                ...images.map((img): OpenRouterContentPart => ({
+                    type: 'image_url',
+                    image_url: { url: `data:${img.file.type};base64,${img.base64}` },
+                })),
+            ]
+            : prompt,
+    },
+];
+
+export const chatResponseFormat = (structuredOutput?: StructuredOutput | null) => structuredOutput && {
+    response_format: {
+        type: 'json_schema',
+        json_schema: { name: structuredOutput.name, schema: structuredOutput.schema, strict: false },
+    },
+};
+
+/** Reads a logprob-enabled completion stream into a DeepConf trace, reporting each step as it arrives. */
+export const readTrace = async (stream: ReadableStream<Uint8Array>, model: string, onStep?: (step: Step) => void): Promise<Trace> => {
+    let text = '';
+    const steps: Step[] = [];
+    for await (const chunk of openRouterStreamer(stream)) {
+        text += chunk.text;
+        for (const step of chunk.steps ?? []) {
+            steps.push(step);
+            onStep?.(step);
+        }
+    }
+    if (text && steps.length === 0) {
+        throw new Error(`${model} returned no logprobs. Switch this agent's confidence source to Judge.`);
+    }
+    return { text, steps };
+};
+
+/** Posts a streaming chat completion and returns the SSE body. */
+const requestCompletion = async (body: Record<string, unknown>, abortSignal?: AbortSignal): Promise<ReadableStream<Uint8Array>> => {
+    const openRouterKey = getOpenRouterApiKey();
+    if (!openRouterKey) throw new Error("OpenRouter API Key not set.");
+
+    const response = await fetchWithRetry(
+        'https://openrouter.ai/api/v1/chat/completions',
+        {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${openRouterKey}`,
+                'Content-Type': 'application/json',
+                'HTTP-Referer': getAppUrl(),
+                'X-Title': 'HeavyOrc',
+            },
+            body: JSON.stringify({ ...body, stream: true }),
+            signal: abortSignal,
+        }
+    );
+
+    if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`OpenRouter API Error: ${errorData.error?.message || response.statusText}`);
+    }
+    return response.body;
+};
+
+// Only the sampling parameters, in the API's snake_case; DeepConf settings stay client-side.
+const buildRequestBody = (model: string, persona: string, prompt: string, images: ImageState[], config: OpenRouterAgentConfig, structuredOutput?: StructuredOutput | null) => {
+    const { temperature, topP, topK, frequencyPenalty, presencePenalty, repetitionPenalty, maxTokens } = config.settings;
+    return {
+        model,
+        messages: buildChatMessages(persona, prompt, images),
+        temperature,
+        top_p: topP,
+        top_k: topK,
+        frequency_penalty: frequencyPenalty,
+        presence_penalty: presencePenalty,
+        repetition_penalty: repetitionPenalty,
+        ...(maxTokens && { max_tokens: maxTokens }),
+        ...chatResponseFormat(structuredOutput),
+    };
+};
+
+export const openRouterProvider: ProviderAdapter<OpenRouterAgentConfig> = {
+    id: 'openrouter',
+
+    // OpenRouter ids are namespaced by vendor, e.g. "openai/gpt-4o".
+    ownsModel: model => model.includes('/'),
+
+    // Vision support is only known for the models we ship; the window is kept small because most are unknown.
+    // Logprobs depend on the upstream provider, so a model without them fails its first trace.
+    capabilities: model => ({ vision: OPENROUTER_VISION_MODELS.includes(model), logprobs: true, contextWindow: 28_000 }),
+
+    async generate(expert, prompt, images, config, { abortSignal, hooks, structuredOutput }) {
+        if (!getOpenRouterApiKey()) throw new Error("OpenRouter API Key not set.");
+        const body = buildRequestBody(expert.model, expert.persona, prompt, images, config, structuredOutput);
+
+        return getScheduler().run(
+            { provider: 'openrouter', model: expert.model },
+            async () => collectStream(openRouterStreamer(await requestCompletion(body, abortSignal)), hooks?.onDelta),
+            { tokens: estimateRequestTokens(expert.persona, prompt), abortSignal, ...hooks }
+        );
+    },
+
+    async generateTrace(expert, prompt, images, config, { abortSignal, hooks, topLogprobs, onStep }) {
+        if (!getOpenRouterApiKey()) throw new Error("OpenRouter API Key not set.");
+        const body = {
+            ...buildRequestBody(expert.model, expert.persona, prompt, images, config),
+            logprobs: true,
+            top_logprobs: topLogprobs,
+        };
+
+        return getScheduler().run(
+            { provider: 'openrouter', model: expert.model },
+            async () => readTrace(await requestCompletion(body, abortSignal), expert.model, onStep),
+            { tokens: estimateRequestTokens(expert.persona, prompt), abortSignal, ...hooks }
+        );
+    },
+
+    async stream({ model, systemPersona, userPrompt, abortSignal, structuredOutput, images }) {
+        if (!getOpenRouterApiKey()) throw new Error("OpenRouter API Key not set.");
+        const body = {
+            model,
+            messages: buildChatMessages(systemPersona, userPrompt, images),
+            ...chatResponseFormat(structuredOutput),
+        };
+
+        const release = await getScheduler().acquire(
+            { provider: 'openrouter', model },
+            { tokens: estimateRequestTokens(systemPersona, userPrompt), abortSignal }
+        );
+        try {
+            return releaseWhenDone(openRouterStreamer(await requestCompletion(body, abortSignal)), release);
+        } catch (error) {
+            release();
+            throw error;
+        }
+    },
+
+    // Judged by the OpenAI judge model; OpenRouter models vary too much to judge themselves reliably.
+    judge: (prompt, answer, _agentModel, abortSignal) => judgeWithOpenAI(prompt, answer, abortSignal),
+};
@@ -0,0 +1,25 @@
+import { isAbortError } from '@/services/geminiUtils';
+import type { GenerateResult } from './types';
+
+/**
+ * Accumulates a streamed agent answer, forwarding each chunk to `onDelta`. A stream
+ * that fails after some text arrived resolves with that text marked `isPartial`, as
+ * the Gemini adapter does; aborts and failures before any text still throw.
+ */
+export const collectStream = async (
+    stream: AsyncIterable<{ text: string }>,
+    onDelta?: (text: string) => void
+): Promise<GenerateResult> => {
+    let content = '';
+    try {
+        for await (const chunk of stream) {
+            content += chunk.text;
+            onDelta?.(chunk.text);
+        }
+        return { content: content || 'No content received.', isPartial: false };
+    } catch (error) {
+        if (isAbortError(error) || !content) throw error;
+        console.warn('Returning partial result due to streaming error');
+        return { content, isPartial: true, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+};
@@ -0,0 +1,89 @@
+import type { AgentConfig, ApiProvider, GeminiThinkingEffort, ImageState, OpenAIReasoningEffort } from '@/types';
+import type { ExpertDispatch } from '@/moe/types';
+import type { StructuredOutput } from '@/moe/structuredOutput';
+import type { AcquireOptions } from '@/services/scheduler';
+import type { Step, Trace } from '@/services/deepconf';
+
+export interface ProviderCapabilities {
+    /** Accepts image input alongside the prompt. */
+    vision: boolean;
+    /** Returns token logprobs that DeepConf can score traces with. */
+    logprobs: boolean;
+    /**
+     * Prompt tokens one arbiter call may use before drafts are split into
+     * map-reduce batches. Kept below the real window where rate limits are tighter.
+     */
+    contextWindow: number;
+}
+
+export interface GenerateResult {
+    content: string;
+    /** True when the stream failed after some text arrived; `error` says why. */
+    isPartial: boolean;
+    error?: Error;
+}
+
+/** Per-agent callbacks: scheduler queue state plus streamed output text. */
+export type GenerateHooks = Pick<AcquireOptions, 'onQueued' | 'onStart'> & {
+    onDelta?: (text: string) => void;
+};
+
+export interface GenerateOptions {
+    abortSignal?: AbortSignal;
+    hooks?: GenerateHooks;
+    /** Requests the provider's native JSON schema output. */
+    structuredOutput?: StructuredOutput | null;
+}
+
+export interface TraceOptions {
+    abortSignal?: AbortSignal;
+    hooks?: Pick<GenerateHooks, 'onQueued' | 'onStart'>;
+    /** Alternatives requested per token; DeepConf averages their logprobs. */
+    topLogprobs: number;
+    /** Called for each token as it streams, so online DeepConf can stop a trace early. */
+    onStep?: (step: Step) => void;
+}
+
+/** One streamed chat call for the arbiter and its helpers (verification, controversy reports). */
+export interface StreamRequest {
+    model: string;
+    systemPersona: string;
+    /** Appended to the persona at high reasoning effort, for providers that use it. */
+    highEffortModifier?: string;
+    /** Appended to the persona by providers that accept verbosity guidance. */
+    verbosityInstruction?: string;
+    userPrompt: string;
+    openAIEffort: OpenAIReasoningEffort;
+    geminiEffort: GeminiThinkingEffort;
+    abortSignal?: AbortSignal;
+    structuredOutput?: StructuredOutput | null;
+    /** Already filtered to what the model accepts. */
+    images: ImageState[];
+}
+
+export interface JudgeResult {
+    score: number;
+    reasons: string[];
+}
+
+/** Everything the dispatcher, arbiter and DeepConf need from one LLM backend. */
+export interface ProviderAdapter<C extends AgentConfig = AgentConfig> {
+    id: ApiProvider;
+    /** Whether a bare model id (arbiter and judge models carry no provider) belongs to this backend. */
+    ownsModel(model: string): boolean;
+    capabilities(model: string): ProviderCapabilities;
+    /** Runs one agent completion, streaming text to `hooks.onDelta`. */
+    generate(expert: ExpertDispatch, prompt: string, images: ImageState[], config: C, options: GenerateOptions): Promise<GenerateResult>;
+    /**
+     * Samples one DeepConf trace with token logprobs. Only present on providers
+     * whose capabilities report `logprobs`; throws if the model returns none.
+     */
+    generateTrace?(expert: ExpertDispatch, prompt: string, images: ImageState[], config: C, options: TraceOptions): Promise<Trace>;
+    /** Starts a streamed completion; the scheduler slot is held until the stream ends. */
+    stream(request: StreamRequest): Promise<AsyncGenerator<{ text: string }>>;
+    /**
+     * Scores `answer` in [0, 1] for DeepConf and rerank. Failures score 0 with a
+     * reason; it only throws, with an AbortError, once `abortSignal` fires.
+     */
+    judge(prompt: string, answer: string, agentModel: string, abortSignal?: AbortSignal): Promise<JudgeResult>;
+}
@@ -0,0 +1,307 @@
+import { z } from 'zod';
+import { OPENAI_AGENT_MODEL } from '@/constants';
+import type { ApiProvider } from '@/types';
+
+/** Unset or non-positive values mean "unlimited". */
+export interface RateLimit {
+    maxConcurrency?: number;
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+}
+
+/**
+ * Limits applied to every request. A request must satisfy both its provider's
+ * limit and, if present, its model's limit before it may start.
+ */
+export interface SchedulerConfig {
+    providers: Partial<Record<ApiProvider, RateLimit>>;
+    models: Record<string, RateLimit>;
+}
+
+const RateLimitSchema = z.object({
+    maxConcurrency: z.number().optional(),
+    requestsPerMinute: z.number().optional(),
+    tokensPerMinute: z.number().optional(),
+});
+
+export const SchedulerConfigSchema = z.object({
+    providers: z.object({
+        gemini: RateLimitSchema.optional(),
+        openai: RateLimitSchema.optional(),
+        openrouter: RateLimitSchema.optional(),
+        custom: RateLimitSchema.optional(),
+        anthropic: RateLimitSchema.optional(),
+    }),
+    models: z.record(RateLimitSchema),
+});
+
+export interface ScheduleTarget {
+    provider: ApiProvider;
+    model: string;
+}
+
+export interface AcquireOptions {
+    /** Estimated tokens (input + output) the request will consume, for TPM limits. */
+    tokens?: number;
+    abortSignal?: AbortSignal;
+    /** Called once if the request cannot start immediately. */
+    onQueued?: () => void;
+    /** Called when the request is granted a slot. */
+    onStart?: () => void;
+}
+
+export type Release = () => void;
+
+export interface Scheduler {
+    acquire(target: ScheduleTarget, options?: AcquireOptions): Promise<Release>;
+    run<T>(target: ScheduleTarget, task: () => Promise<T>, options?: AcquireOptions): Promise<T>;
+    configure(config: SchedulerConfig): void;
+    getConfig(): SchedulerConfig;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+    providers: {
+        gemini: { maxConcurrency: 8, requestsPerMinute: 60 },
+        openai: { maxConcurrency: 2, requestsPerMinute: 60 },
+        openrouter: { maxConcurrency: 8, requestsPerMinute: 120 },
+        // Local servers usually decode one or two requests at a time.
+        custom: { maxConcurrency: 2 },
+        // Anthropic's entry usage tier allows 50 requests per minute.
+        anthropic: { maxConcurrency: 4, requestsPerMinute: 50 },
+    },
+    models: {
+        // Observed 30k TPM limit for the gpt-5 model.
+        [OPENAI_AGENT_MODEL]: { tokensPerMinute: 30_000 },
+    },
+};
+
+// Reserve for the response when estimating a request's token cost.
+const DEFAULT_OUTPUT_TOKEN_ESTIMATE = 1024;
+const MINUTE_MS = 60_000;
+
+/** Rough token cost of a request: ~4 characters per input token plus an output allowance. */
+export const estimateRequestTokens = (...texts: string[]): number =>
+    Math.ceil(texts.reduce((sum, t) => sum + t.length, 0) / 4) + DEFAULT_OUTPUT_TOKEN_ESTIMATE;
+
+interface Bucket {
+    capacity: number;
+    available: number;
+    updatedAt: number;
+}
+
+interface Limiter {
+    limit: RateLimit;
+    inFlight: number;
+    requests: Bucket | null;
+    tokens: Bucket | null;
+}
+
+interface QueueEntry {
+    target: ScheduleTarget;
+    tokens: number;
+    onStart?: () => void;
+    resolve: (release: Release) => void;
+    detach: () => void;
+}
+
+const makeBucket = (perMinute: number | undefined, previous: Bucket | null, now: number): Bucket | null => {
+    if (!perMinute || perMinute <= 0) return null;
+    return {
+        capacity: perMinute,
+        available: previous ? Math.min(previous.available, perMinute) : perMinute,
+        updatedAt: previous?.updatedAt ?? now,
+    };
+};
+
+const refill = (bucket: Bucket, now: number) => {
+    const elapsed = now - bucket.updatedAt;
+    if (elapsed > 0) {
+        bucket.available = Math.min(bucket.capacity, bucket.available + (elapsed * bucket.capacity) / MINUTE_MS);
+        bucket.updatedAt = now;
+    }
+};
+
+/** Milliseconds until `amount` can be drawn from the bucket; 0 when available now. */
+const bucketWait = (bucket: Bucket | null, amount: number, now: number): number => {
+    if (!bucket) return 0;
+    refill(bucket, now);
+    const needed = Math.min(amount, bucket.capacity);
+    if (bucket.available >= needed) return 0;
+    return Math.ceil(((needed - bucket.available) * MINUTE_MS) / bucket.capacity);
+};
+
+const limitFor = (config: SchedulerConfig, key: string): RateLimit => {
+    const separator = key.indexOf(':');
+    const name = key.slice(separator + 1);
+    const limit = key.slice(0, separator) === 'provider'
+        ? config.providers[name as ApiProvider]
+        : config.models[name];
+    return limit ?? {};
+};
+
+const abortError = () => {
+    const error = new Error('Aborted');
+    error.name = 'AbortError';
+    return error;
+};
+
+/**
+ * Creates a FIFO scheduler enforcing max concurrency and token-bucket
+ * requests/tokens per minute limits per provider and per model. Requests for
+ * different limiters never block each other.
+ */
+export const createScheduler = (initialConfig: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG): Scheduler => {
+    let config = initialConfig;
+    const limiters = new Map<string, Limiter>();
+    const queue: QueueEntry[] = [];
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const limiterKeys = ({ provider, model }: ScheduleTarget): string[] => {
+        const keys: string[] = [];
+        if (config.providers[provider]) keys.push(`provider:${provider}`);
+        if (config.models[model]) keys.push(`model:${model}`);
+        return keys;
+    };
+
+    const getLimiter = (key: string): Limiter => {
+        let limiter = limiters.get(key);
+        if (!limiter) {
+            const limit = limitFor(config, key);
+            const now = Date.now();
+            limiter = {
+                limit,
+                inFlight: 0,
+                requests: makeBucket(limit.requestsPerMinute, null, now),
+                tokens: makeBucket(limit.tokensPerMinute, null, now),
+            };
+            limiters.set(key, limiter);
+        }
+        return limiter;
+    };
+
+    const waitTime = (limiter: Limiter, tokens: number, now: number): number => {
+        const { maxConcurrency } = limiter.limit;
+        if (maxConcurrency && maxConcurrency > 0 && limiter.inFlight >= maxConcurrency) {
+            return Infinity; // woken when an in-flight request releases
+        }
+        return Math.max(bucketWait(limiter.requests, 1, now), bucketWait(limiter.tokens, tokens, now));
+    };
+
+    const start = (entry: QueueEntry, keys: string[]) => {
+        const held = keys.map(getLimiter);
+        for (const limiter of held) {
+            limiter.inFlight++;
+            if (limiter.requests) limiter.requests.available -= 1;
+            if (limiter.tokens) limiter.tokens.available -= Math.min(entry.tokens, limiter.tokens.capacity);
+        }
+        let released = false;
+        entry.detach();
+        entry.onStart?.();
+        entry.resolve(() => {
+            if (released) return;
+            released = true;
+            held.forEach(limiter => { limiter.inFlight = Math.max(0, limiter.inFlight - 1); });
+            pump();
+        });
+    };
+
+    const pump = () => {
+        if (wakeTimer) {
+            clearTimeout(wakeTimer);
+            wakeTimer = null;
+        }
+        const now = Date.now();
+        const blocked = new Set<string>();
+        let nextWake = Infinity;
+
+        for (const entry of [...queue]) {
+            const keys = limiterKeys(entry.target);
+            // Preserve FIFO order per limiter: later requests may not overtake a blocked one.
+            if (keys.some(key => blocked.has(key))) continue;
+            const wait = Math.max(0, ...keys.map(key => waitTime(getLimiter(key), entry.tokens, now)));
+            if (wait === 0) {
+                queue.splice(queue.indexOf(entry), 1);
+                start(entry, keys);
+            } else {
+                keys.forEach(key => blocked.add(key));
+                nextWake = Math.min(nextWake, wait);
+            }
+        }
+
+        if (queue.length > 0 && Number.isFinite(nextWake)) {
+            wakeTimer = setTimeout(pump, nextWake);
+        }
+    };
+
+    const acquire = (target: ScheduleTarget, options: AcquireOptions = {}): Promise<Release> => {
+        const { tokens = 0, abortSignal, onQueued, onStart } = options;
+        if (abortSignal?.aborted) return Promise.reject(abortError());
+
+        return new Promise<Release>((resolve, reject) => {
+            const onAbort = () => {
+                const index = queue.indexOf(entry);
+                if (index > -1) {
+                    queue.splice(index, 1);
+                    reject(abortError());
+                    pump();
+                }
+            };
+            const entry: QueueEntry = {
+                target,
+                tokens,
+                onStart,
+                resolve,
+                detach: () => abortSignal?.removeEventListener('abort', onAbort),
+            };
+            abortSignal?.addEventListener('abort', onAbort);
+            queue.push(entry);
+            pump();
+            if (queue.includes(entry)) {
+                onQueued?.();
+            }
+        });
+    };
+
+    return {
+        acquire,
+        run: async (target, task, options) => {
+            const release = await acquire(target, options);
+            try {
+                return await task();
+            } finally {
+                release();
+            }
+        },
+        configure: (next) => {
+            config = next;
+            const now = Date.now();
+            for (const [key, limiter] of limiters) {
+                const limit = limitFor(next, key);
+                limiter.limit = limit;
+                limiter.requests = makeBucket(limit.requestsPerMinute, limiter.requests, now);
+                limiter.tokens = makeBucket(limit.tokensPerMinute, limiter.tokens, now);
+            }
+            pump();
+        },
+        getConfig: () => config,
+    };
+};
+
+/**
+ * Wraps a streaming generator so the scheduler slot is held until the stream
+ * is fully consumed, fails, or is abandoned by the consumer.
+ */
+export async function* releaseWhenDone<T>(stream: AsyncGenerator<T>, release: Release): AsyncGenerator<T> {
+    try {
+        yield* stream;
+    } finally {
+        release();
+    }
+}
+
+// Shared scheduler used by the dispatcher, DeepConf and the arbiter.
+const sharedScheduler = createScheduler();
+
+export const getScheduler = (): Scheduler => sharedScheduler;
+
+export const configureScheduler = (config: SchedulerConfig) => sharedScheduler.configure(config);
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { createAnswerExtractor } from '@/moe/answerExtractors';
+
+describe('createAnswerExtractor', () => {
+  it('reads the final number, ignoring formatting', () => {
+    const extract = createAnswerExtractor({ kind: 'numeric' });
+    expect(extract('We have 3 boxes of 12, so the total is 1,036.')).toBe('1036');
+    expect(extract('Total: 1036.0')).toBe('1036');
+    expect(extract('No digits here')).toBeNull();
+  });
+
+  it('reads the last non-empty line', () => {
+    expect(createAnswerExtractor({ kind: 'last-line' })('Reasoning...\n\n  Paris  \n\n')).toBe('Paris');
+  });
+
+  it('reads the last \\boxed{} with nested braces', () => {
+    const extract = createAnswerExtractor({ kind: 'boxed' });
+    expect(extract('First \\boxed{1}, then \\boxed{\\frac{1}{2}}.')).toBe('\\frac{1}{2}');
+    expect(extract('\\boxed{unclosed')).toBeNull();
+  });
+
+  it('returns the first capture group of the last regex match', () => {
+    const extract = createAnswerExtractor({ kind: 'regex', pattern: 'Final answer:\\s*(\\w+)' });
+    expect(extract('Final answer: draft\n...\nFinal answer: done')).toBe('done');
+    expect(createAnswerExtractor({ kind: 'regex', pattern: '\\d+' })('a 1 b 22')).toBe('22');
+  });
+
+  it('rejects a missing or invalid pattern', () => {
+    expect(() => createAnswerExtractor({ kind: 'regex' })).toThrow(/needs a pattern/);
+    expect(() => createAnswerExtractor({ kind: 'regex', pattern: '(' })).toThrow(/Invalid answer pattern/);
+  });
+
+  it('reads the last fenced code block', () => {
+    const text = 'Try:\n```js\nold()\n```\nBetter:\n```python\nprint(1)\n```\n';
+    expect(createAnswerExtractor({ kind: 'code-block' })(text)).toBe('print(1)');
+  });
+
+  it('reads a multiple-choice letter', () => {
+    const extract = createAnswerExtractor({ kind: 'multiple-choice' });
+    expect(extract('A is wrong because... The answer is (C).')).toBe('C');
+    expect(extract('Answer: **B**')).toBe('B');
+    expect(extract('Options compared above.\n**D**')).toBe('D');
+    expect(extract('The answer is a bit unclear.')).toBeNull();
+    expect(extract('**Answer:** C')).toBe('C');
+    expect(extract('Answer: I think it\'s B')).toBeNull();
+    expect(extract('Answer: I think the answer is B.')).toBe('B');
+    expect(extract('The answer is B because the others contradict the premise.')).toBe('B');
+    expect(extract('Answer: C since it is the only even option.')).toBe('C');
+    expect(extract('Answer: Because none of the options fit, I cannot choose.')).toBeNull();
+  });
+
+  it('reads a JSON field by path', () => {
+    const extract = createAnswerExtractor({ kind: 'json-path', path: 'result.items[1].id' });
+    expect(extract('Here you go:\n```json\n{"result": {"items": [{"id": 1}, {"id": "x"}]}}\n```')).toBe('x');
+    expect(extract('{"result": {}}')).toBeNull();
+    expect(createAnswerExtractor({ kind: 'json-path', path: 'a' })('Sure: {"a": {"b": 2}} hope that helps')).toBe('{"b":2}');
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { GEMINI_FLASH_MODEL, OPENROUTER_CLAUDE_3_HAIKU } from '@/constants';
+import { arbiterSupportsVision, arbitrateStream, arbitrateStructured, buildArbiterPrompt, normalizeAnswer, parseSelectedDraftIndex, reportControversies } from '@/moe/arbiter';
+import { ARBITER_TEMPLATE_PRESETS, renderArbiterTemplate } from '@/moe/arbiterTemplates';
+import { resolveStructuredOutput } from '@/moe/structuredOutput';
+import type { Draft } from '@/moe/types';
+import type { ImageState } from '@/types';
+import { judgeAnswer } from '@/services/deepconf';
+import { getGeminiClient } from '@/services/llmService';
+
+vi.mock('@/services/llmService', () => ({
+  getGeminiClient: vi.fn(),
+  getOpenAIClient: vi.fn(),
+  getOpenRouterApiKey: vi.fn(),
+  callWithRetry: vi.fn(),
+  fetchWithRetry: vi.fn(),
+}));
+
+vi.mock('@/services/deepconf', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/deepconf')>()),
+  judgeAnswer: vi.fn(),
+}));
+
+const draft = (agentId: string, content: string, status: Draft['status'] = 'COMPLETED'): Draft => ({
+  agentId,
+  content,
+  status,
+  expert: {
+    agentId,
+    id: `expert-${agentId}`,
+    name: `Expert ${agentId}`,
+    persona: `persona ${agentId}`,
+    provider: 'gemini',
+    model: GEMINI_FLASH_MODEL,
+  },
+});
+
+const arbitrate = async (drafts: Draft[], mode: Parameters<typeof arbitrateStream>[7]) => {
+  const stream = await arbitrateStream(GEMINI_FLASH_MODEL, 'question', drafts, 'medium', 'medium', 'low', undefined, mode);
+  let text = '';
+  for await (const chunk of stream) text += chunk.text;
+  return text;
+};
+
+describe('arbitrateStream modes', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('vote returns the majority draft verbatim without calling a model', async () => {
+    const text = await arbitrate([
+      draft('a', '42'),
+      draft('b', 'The answer is 7.'),
+      draft('c', 'the answer is 7'),
+      draft('d', 'ignored', 'FAILED'),
+    ], 'vote');
+
+    expect(text).toBe('The answer is 7.');
+    expect(getGeminiClient).not.toHaveBeenCalled();
+  });
+
+  it('rerank returns the highest-scoring draft verbatim', async () => {
+    (judgeAnswer as Mock)
+      .mockResolvedValueOnce({ score: 0.4, reasons: [] })
+      .mockResolvedValueOnce({ score: 0.9, reasons: [] })
+      .mockResolvedValueOnce({ score: 0.9, reasons: [] });
+
+    const controller = new AbortController();
+    const stream = await arbitrateStream(GEMINI_FLASH_MODEL, 'question', [draft('a', 'first'), draft('b', 'second'), draft('c', 'third')], 'medium', 'medium', 'low', controller.signal, 'rerank');
+
+    expect((await stream.next()).value).toEqual({ text: 'second' });
+    expect(judgeAnswer).toHaveBeenCalledWith('question', 'first', GEMINI_FLASH_MODEL, controller.signal);
+  });
+
+  it('select-best returns the draft chosen by the arbiter model', async () => {
+    const generateContentStream = vi.fn().mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield { text: 'Draft ' };
+        yield { text: '2' };
+      },
+    });
+    (getGeminiClient as Mock).mockReturnValue({ models: { generateContentStream } });
+
+    const text = await arbitrate([draft('a', 'first'), draft('b', 'second')], 'select-best');
+
+    expect(text).toBe('second');
+  });
+});
+
+describe('reportControversies', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('maps reported draft numbers back to every agent in the cluster', async () => {
+    const reply = 'Here you go: {"controversies": [{"topic": "Boiling point", "positions": [{"stance": "100 C", "drafts": [1]}, {"stance": "90 C", "drafts": [2, 9]}], "resolution": "Sea level was assumed."}]}';
+    const generateContentStream = vi.fn().mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield { text: reply };
+      },
+    });
+    (getGeminiClient as Mock).mockReturnValue({ models: { generateContentStream } });
+
+    const controversies = await reportControversies(GEMINI_FLASH_MODEL, 'question', [
+      draft('a', 'Water boils at 100 degrees Celsius at sea level.'),
+      draft('b', 'Water boils at 90 degrees.'),
+      draft('c', 'Water boils at 100 degrees Celsius at sea level!'),
+    ], 'final', 'medium', 'low');
+
+    expect(controversies).toEqual([{
+      topic: 'Boiling point',
+      resolution: 'Sea level was assumed.',
+      positions: [
+        { stance: '100 C', agentIds: ['a', 'c'] },
+        { stance: '90 C', agentIds: ['b'] },
+      ],
+    }]);
+  });
+
+  it('skips the model call when all drafts agree', async () => {
+    const controversies = await reportControversies(GEMINI_FLASH_MODEL, 'question', [
+      draft('a', 'Same answer.'),
+      draft('b', 'same answer'),
+    ], 'final', 'medium', 'low');
+
+    expect(controversies).toEqual([]);
+    expect(getGeminiClient).not.toHaveBeenCalled();
+  });
+
+  it('rejects replies without a JSON report', async () => {
+    const generateContentStream = vi.fn().mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield { text: 'No disagreements.' };
+      },
+    });
+    (getGeminiClient as Mock).mockReturnValue({ models: { generateContentStream } });
+
+    await expect(reportControversies(GEMINI_FLASH_MODEL, 'question', [draft('a', 'one'), draft('b', 'two')], 'final', 'medium', 'low'))
+      .rejects.toThrow('did not return a disagreement report');
+  });
+});
+
+describe('buildArbiterPrompt', () => {
+  it('merges near-duplicate drafts and reports how many agents agreed', () => {
+    const { text, clusters } = buildArbiterPrompt('question', [
+      draft('a', 'The answer is seven because three plus four equals seven.'),
+      draft('b', 'It is 12.'),
+      draft('c', 'The answer is seven, because three plus four equals seven!'),
+    ], 'synthesize');
+
+    expect(clusters.map(c => c.members.length)).toEqual([2, 1]);
+    expect(text).toContain('2 distinct candidate answers from 3 expert agents');
+    expect(text).toContain('### Draft 1 from Agent 1 (Provider: gemini, Persona: Expert a)\n_2 agents agreed (Agents 1, 3)._');
+    expect(text).toContain('### Draft 2 from Agent 2');
+    expect(text).not.toContain('three plus four equals seven!');
+  });
+
+  it('fills a custom template with the question, drafts and agent metadata', () => {
+    const { text } = buildArbiterPrompt('question', [draft('a', 'one'), draft('b', 'two')], 'synthesize', 'Q: {{question}}\n{{agents}}\n{{agentCount}} agents\n{{drafts}}');
+
+    expect(text).toBe(`Q: question
+- Agent 1: Expert a (gemini, ${GEMINI_FLASH_MODEL})
+- Agent 2: Expert b (gemini, ${GEMINI_FLASH_MODEL})
+2 agents
+### Draft 1 from Agent 1 (Provider: gemini, Persona: Expert a)
+one
+
+---
+
+### Draft 2 from Agent 2 (Provider: gemini, Persona: Expert b)
+two`);
+  });
+});
+
+describe('arbiter templates', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('leaves unknown placeholders as written and does not expand placeholders inside values', () => {
+    expect(renderArbiterTemplate('{{question}} {{unknown}} {{ constructor }}', { question: '{{drafts}}', drafts: 'x' }))
+      .toBe('{{drafts}} {{unknown}} {{ constructor }}');
+  });
+
+  it('synthesizes with the template persona', async () => {
+    const generateContentStream = vi.fn().mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield { text: 'table' };
+      },
+    });
+    (getGeminiClient as Mock).mockReturnValue({ models: { generateContentStream } });
+    const template = ARBITER_TEMPLATE_PRESETS.find(t => t.id === 'comparison-table')!;
+
+    const stream = await arbitrateStream(GEMINI_FLASH_MODEL, 'question', [draft('a', 'one')], 'medium', 'medium', 'low', undefined, 'synthesize', template);
+    for await (const chunk of stream) expect(chunk.text).toBe('table');
+
+    expect(JSON.stringify(generateContentStream.mock.calls[0][0])).toContain('Markdown table');
+  });
+});
+
+describe('arbiter images', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const image: ImageState = { id: 'img', file: new File([], 'cat.png', { type: 'image/png' }), base64: 'aGVsbG8=' };
+
+  it('attaches the run images to the Gemini arbiter request', async () => {
+    const generateContentStream = vi.fn().mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield { text: 'a cat' };
+      },
+    });
+    (getGeminiClient as Mock).mockReturnValue({ models: { generateContentStream } });
+
+    const stream = await arbitrateStream(GEMINI_FLASH_MODEL, 'what is this?', [draft('a', 'a cat')], 'medium', 'medium', 'low', undefined, 'synthesize', undefined, [image]);
+    for await (const chunk of stream) expect(chunk.text).toBe('a cat');
+
+    const { parts } = generateContentStream.mock.calls[0][0].contents;
+    expect(parts[0].text).toContain("The user's image is attached.");
+    expect(parts[1]).toEqual({ inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } });
+  });
+
+  it('only treats known OpenRouter models as vision-capable', () => {
+    expect(arbiterSupportsVision(GEMINI_FLASH_MODEL)).toBe(true);
+    expect(arbiterSupportsVision(OPENROUTER_CLAUDE_3_HAIKU)).toBe(true);
+    expect(arbiterSupportsVision('mistralai/mistral-7b-instruct')).toBe(false);
+  });
+});
+
+describe('arbitrateStructured', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const output = resolveStructuredOutput({ enabled: true, presetId: 'custom', customSchema: '{"type": "object", "required": ["answer"]}' })!;
+
+  const replies = (...texts: string[]) => {
+    const generateContentStream = vi.fn();
+    for (const text of texts) {
+      generateContentStream.mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          yield { text };
+        },
+      });
+    }
+    (getGeminiClient as Mock).mockReturnValue({ models: { generateContentStream } });
+    return generateContentStream;
+  };
+
+  it('retries with the validation errors and returns pretty-printed JSON', async () => {
+    const generateContentStream = replies('{"answr": 1}', '{"answer": 1}');
+
+    const answer = await arbitrateStructured(GEMINI_FLASH_MODEL, 'question', [draft('a', '{"answer": 1}')], output, 'medium', 'low');
+
+    expect(answer).toBe('{\n  "answer": 1\n}');
+    expect(generateContentStream.mock.calls[0][0].config.responseJsonSchema).toEqual(output.schema);
+    expect(JSON.stringify(generateContentStream.mock.calls[1][0])).toContain('$.answer: is required');
+  });
+
+  it('throws when the retry still does not match the schema', async () => {
+    replies('[]', 'nothing');
+
+    await expect(arbitrateStructured(GEMINI_FLASH_MODEL, 'question', [draft('a', '{"answer": 1}')], output, 'medium', 'low'))
+      .rejects.toThrow("The arbiter's answer does not match the output schema: The reply contains no JSON.");
+  });
+});
+
+describe('normalizeAnswer', () => {
+  it('ignores case, extra whitespace and trailing punctuation', () => {
+    expect(normalizeAnswer('  The  Answer\nis 7!! ')).toBe('the answer is 7');
+  });
+});
+
+describe('parseSelectedDraftIndex', () => {
+  it('returns null for missing or out-of-range numbers', () => {
+    expect(parseSelectedDraftIndex('3', 3)).toBe(2);
+    expect(parseSelectedDraftIndex('none', 3)).toBeNull();
+    expect(parseSelectedDraftIndex('4', 3)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { GEMINI_FLASH_MODEL } from '@/constants';
+import { attributionLabel, getAttributionSources, parseAttributedAnswer } from '@/moe/attribution';
+import type { Draft } from '@/moe/types';
+
+const draft = (agentId: string, content: string): Draft => ({
+  agentId,
+  content,
+  status: 'COMPLETED',
+  expert: {
+    agentId,
+    id: `expert-${agentId}`,
+    name: `Expert ${agentId}`,
+    persona: `persona ${agentId}`,
+    provider: 'gemini',
+    model: GEMINI_FLASH_MODEL,
+  },
+});
+
+describe('attributionLabel', () => {
+  it('counts like spreadsheet columns', () => {
+    expect([0, 25, 26, 27, 51, 52].map(attributionLabel)).toEqual(['A', 'Z', 'AA', 'AB', 'AZ', 'BA']);
+  });
+});
+
+describe('getAttributionSources', () => {
+  it('gives near-duplicate drafts one shared label', () => {
+    const sources = getAttributionSources([
+      draft('x', 'Water boils at 100 degrees Celsius at sea level pressure.'),
+      draft('y', 'Water boils at 90 degrees on a mountain.'),
+      draft('z', 'Water boils at 100 degrees Celsius at sea level pressure!'),
+    ]);
+    expect(sources).toEqual({ A: ['x', 'z'], B: ['y'] });
+  });
+});
+
+describe('parseAttributedAnswer', () => {
+  const sources = { A: ['x'], B: ['y'], C: ['z'] };
+
+  it('splits the answer at marker groups', () => {
+    expect(parseAttributedAnswer('First claim. [A][C]\n\nSecond claim [B] and a tail.', sources)).toEqual([
+      { text: 'First claim.', labels: ['A', 'C'] },
+      { text: '\n\nSecond claim', labels: ['B'] },
+      { text: ' and a tail.', labels: [] },
+    ]);
+  });
+
+  it('leaves unknown markers in the text and drops duplicates', () => {
+    expect(parseAttributedAnswer('See [Z]. Claim [A][A]', sources)).toEqual([
+      { text: 'See [Z]. Claim', labels: ['A'] },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { deepConfOnline, Provider, Step, Trace } from '@/services/deepconf';
+
+vi.mock('@/services/llmService', () => ({
+  getGeminiClient: vi.fn(),
+  getOpenAIClient: vi.fn(),
+  getOpenRouterApiKey: vi.fn(),
+  callWithRetry: vi.fn(),
+  fetchWithRetry: vi.fn(),
+}));
+
+// Token confidence is the negated mean of the top-k logprobs, so a peaked distribution scores high.
+const step = (token: string, chosen: number, alternative: number): Step => ({
+  token,
+  topK: [{ token, logprob: chosen }, { token: '?', logprob: alternative }],
+});
+const abortError = () => Object.assign(new Error('aborted'), { name: 'AbortError' });
+
+/** Replays scripted traces, honouring early-stop aborts like a real stream would. */
+const scriptedProvider = (scripts: Step[][]): Provider & { calls: number } => {
+  const provider = {
+    calls: 0,
+    async stream(onDelta: (step: Step) => void, abort: AbortSignal): Promise<Trace> {
+      const steps = scripts[provider.calls++] ?? [];
+      for (const s of steps) {
+        if (abort.aborted) throw abortError();
+        onDelta(s);
+      }
+      return { text: steps.map(s => s.token).join(''), steps };
+    },
+  };
+  return provider;
+};
+
+describe('deepConfOnline', () => {
+  const confident = (answer: string) => [step(answer, -0.01, -8), step('.', -0.01, -8)];
+
+  it('stops weak traces early and keeps them out of the vote', async () => {
+    const weak = [step('B', -0.7, -0.7), step('B', -0.7, -0.7), step('B', -0.7, -0.7)];
+    const provider = scriptedProvider([confident('A'), confident('C'), weak, weak, confident('A')]);
+
+    const { answer } = await deepConfOnline(provider, t => t.text, {
+      warmupTraces: 2, maxBudget: 5, etaPercent: 90, tau: 0.99, minTokensBeforeStop: 1, groupWindow: 1,
+    });
+
+    expect(provider.calls).toBe(5);
+    expect(answer).toBe('A.');
+  });
+
+  it('propagates cancellation from the caller', async () => {
+    const provider = scriptedProvider([confident('A'), confident('C')]);
+    const stream = provider.stream.bind(provider);
+    // The third trace sees the orchestration signal already aborted.
+    provider.stream = async (onDelta, abort) => (provider.calls < 2 ? stream(onDelta, abort) : Promise.reject(abortError()));
+
+    await expect(deepConfOnline(provider, t => t.text, { warmupTraces: 2, maxBudget: 4, tau: 0.99 })).rejects.toThrow('aborted');
+  });
+});
@@ -2,8 +2,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Mock } from 'vitest';
 import { ExpertDispatch } from '@/moe/types';
 import { GEMINI_FLASH_MODEL } from '@/constants';
-import { MAX_GEMINI_TIMEOUT_MS, MIN_GEMINI_TIMEOUT_MS, type GeminiAgentConfig } from '@/types';
-import { getGeminiClient } from '@/services/llmService';
+import { MAX_GEMINI_TIMEOUT_MS, MIN_GEMINI_TIMEOUT_MS, type GeminiAgentConfig, type OpenRouterAgentConfig } from '@/types';
+import { fetchWithRetry, getGeminiClient, getOpenRouterApiKey } from '@/services/llmService';
 
 vi.mock('@/services/llmService', () => ({
   getGeminiClient: vi.fn(),
@@ -58,6 +58,9 @@ describe('dispatcher Gemini failure handling', () => {
         deepConfEta: 90,
         tau: 0.95,
         groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' },
+        voteMode: 'exact',
+        voteSimilarity: 'lexical',
       },
     } as const;
 
@@ -102,6 +105,9 @@ describe('dispatcher Gemini streaming', () => {
       deepConfEta: 90,
       tau: 0.95,
       groupWindow: 2048,
+      answerExtractor: { kind: 'full-text' },
+      voteMode: 'exact',
+      voteSimilarity: 'lexical',
     },
   } as const;
 
@@ -223,6 +229,9 @@ describe('dispatcher Gemini timeout', () => {
       deepConfEta: 90,
       tau: 0.95,
       groupWindow: 2048,
+      answerExtractor: { kind: 'full-text' },
+      voteMode: 'exact',
+      voteSimilarity: 'lexical',
     },
   } as const;
 
@@ -371,3 +380,316 @@ describe('dispatcher Gemini timeout', () => {
     expect(drafts[0].status).toBe('COMPLETED');
   });
 });
+
+describe('dispatcher scheduling', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.resetModules();
+    process.env.GEMINI_RETRY_COUNT = '0';
+    process.env.GEMINI_BACKOFF_MS = '1';
+  });
+
+  afterEach(() => {
+    delete process.env.GEMINI_RETRY_COUNT;
+    delete process.env.GEMINI_BACKOFF_MS;
+  });
+
+  it('reports agents waiting on the provider limit as QUEUED', async () => {
+    const generateContentStream = vi.fn().mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield { text: () => 'done' };
+      },
+    });
+    (getGeminiClient as unknown as Mock).mockReturnValue({ models: { generateContentStream } });
+
+    const { configureScheduler } = await import('@/services/scheduler');
+    configureScheduler({ providers: { gemini: { maxConcurrency: 1 } }, models: {} });
+    const { dispatch } = await import('@/moe/dispatcher');
+
+    const experts: ExpertDispatch[] = ['a', 'b'].map(id => ({
+      agentId: id, provider: 'gemini', model: GEMINI_FLASH_MODEL, id, name: id, persona: '',
+    }));
+    const configs: GeminiAgentConfig[] = experts.map(expert => ({
+      id: expert.agentId,
+      provider: 'gemini',
+      model: GEMINI_FLASH_MODEL,
+      status: 'PENDING',
+      expert,
+      settings: {
+        effort: 'low',
+        generationStrategy: 'single',
+        confidenceSource: 'judge',
+        traceCount: 1,
+        deepConfEta: 90,
+        tau: 0.95,
+        groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' },
+        voteMode: 'exact',
+        voteSimilarity: 'lexical',
+      },
+    }));
+
+    const statuses: string[] = [];
+    const drafts = await dispatch(experts, 'prompt', [], configs, () => {}, undefined, {
+      onAgentStatusChange: (agentId, status) => statuses.push(`${agentId}:${status}`),
+    });
+
+    expect(drafts.every(d => d.status === 'COMPLETED')).toBe(true);
+    expect(statuses).toEqual(['a:RUNNING', 'b:QUEUED', 'b:RUNNING']);
+  });
+});
+
+describe('dispatcher draft streaming', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.resetModules();
+    process.env.GEMINI_RETRY_COUNT = '0';
+    process.env.GEMINI_BACKOFF_MS = '1';
+  });
+
+  afterEach(() => {
+    delete process.env.GEMINI_RETRY_COUNT;
+    delete process.env.GEMINI_BACKOFF_MS;
+  });
+
+  it('forwards Gemini stream chunks as draft deltas', async () => {
+    const generateContentStream = vi.fn().mockResolvedValue({
+      [Symbol.asyncIterator]: async function* () {
+        yield { text: () => 'hello ' };
+        yield { text: () => 'world' };
+      },
+    });
+    (getGeminiClient as unknown as Mock).mockReturnValue({ models: { generateContentStream } });
+    const { dispatch } = await import('@/moe/dispatcher');
+
+    const expert: ExpertDispatch = {
+      agentId: 'g', provider: 'gemini', model: GEMINI_FLASH_MODEL, id: '1', name: 'g', persona: '',
+    };
+    const config: GeminiAgentConfig = {
+      id: 'g',
+      provider: 'gemini',
+      model: GEMINI_FLASH_MODEL,
+      status: 'PENDING',
+      expert,
+      settings: {
+        effort: 'low',
+        generationStrategy: 'single',
+        confidenceSource: 'judge',
+        traceCount: 1,
+        deepConfEta: 90,
+        tau: 0.95,
+        groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' },
+        voteMode: 'exact',
+        voteSimilarity: 'lexical',
+      },
+    };
+
+    const deltas: string[] = [];
+    await dispatch([expert], 'prompt', [], [config], () => {}, undefined, {
+      onDraftDelta: (agentId, text) => deltas.push(`${agentId}:${text}`),
+    });
+
+    expect(deltas).toEqual(['g:hello ', 'g:world']);
+  });
+
+  it('streams OpenRouter SSE events split across network chunks', async () => {
+    const encoder = new TextEncoder();
+    const chunks = [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+      'ces":[{"delta":{"content":"lo"}}]}\n\n',
+      'data: [DONE]\n\n',
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+    (getOpenRouterApiKey as unknown as Mock).mockReturnValue('key');
+    (fetchWithRetry as unknown as Mock).mockResolvedValue({ ok: true, body });
+    const { dispatch } = await import('@/moe/dispatcher');
+
+    const expert: ExpertDispatch = {
+      agentId: 'or', provider: 'openrouter', model: 'vendor/model', id: '1', name: 'or', persona: '',
+    };
+    const config: OpenRouterAgentConfig = {
+      id: 'or',
+      provider: 'openrouter',
+      model: 'vendor/model',
+      status: 'PENDING',
+      expert,
+      settings: { temperature: 0.7, topP: 1, topK: 50, frequencyPenalty: 0, presencePenalty: 0, repetitionPenalty: 1,
+        generationStrategy: 'single', confidenceSource: 'judge', traceCount: 8, deepConfEta: 90, tau: 0.95, groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' }, voteMode: 'exact', voteSimilarity: 'lexical' },
+    };
+
+    const deltas: string[] = [];
+    const drafts = await dispatch([expert], 'prompt', [], [config], () => {}, undefined, {
+      onDraftDelta: (_, text) => deltas.push(text),
+    });
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(drafts[0].content).toBe('Hello');
+    const requestBody = JSON.parse((fetchWithRetry as unknown as Mock).mock.calls[0][1].body);
+    expect(requestBody.stream).toBe(true);
+    expect(requestBody).toMatchObject({ top_p: 1, top_k: 50, repetition_penalty: 1 });
+    expect(requestBody).not.toHaveProperty('generationStrategy');
+  });
+});
+
+describe('dispatcher per-agent cancellation', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.resetModules();
+    process.env.GEMINI_RETRY_COUNT = '0';
+    process.env.GEMINI_BACKOFF_MS = '1';
+  });
+
+  afterEach(() => {
+    delete process.env.GEMINI_RETRY_COUNT;
+    delete process.env.GEMINI_BACKOFF_MS;
+  });
+
+  it('cancels one agent without aborting the others', async () => {
+    const agentController = new AbortController();
+    const generateContentStream = vi.fn().mockImplementation(({ config }) => {
+      const signal: AbortSignal = config.abortSignal;
+      return Promise.resolve({
+        [Symbol.asyncIterator]: async function* () {
+          if (config.systemInstruction === 'slow') {
+            agentController.abort();
+            if (signal.aborted) {
+              const error = new Error('aborted');
+              error.name = 'AbortError';
+              throw error;
+            }
+          }
+          yield { text: () => 'done' };
+        },
+      });
+    });
+    (getGeminiClient as unknown as Mock).mockReturnValue({ models: { generateContentStream } });
+    const { dispatch, AGENT_CANCELLED_MESSAGE } = await import('@/moe/dispatcher');
+
+    const experts: ExpertDispatch[] = ['slow', 'fast'].map(id => ({
+      agentId: id, provider: 'gemini', model: GEMINI_FLASH_MODEL, id, name: id, persona: id,
+    }));
+    const configs: GeminiAgentConfig[] = experts.map(expert => ({
+      id: expert.agentId,
+      provider: 'gemini',
+      model: GEMINI_FLASH_MODEL,
+      status: 'PENDING',
+      expert,
+      settings: {
+        effort: 'low',
+        generationStrategy: 'single',
+        confidenceSource: 'judge',
+        traceCount: 1,
+        deepConfEta: 90,
+        tau: 0.95,
+        groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' },
+        voteMode: 'exact',
+        voteSimilarity: 'lexical',
+      },
+    }));
+
+    const runController = new AbortController();
+    const drafts = await dispatch(experts, 'prompt', [], configs, () => {}, runController.signal, {
+      agentAbortSignals: { slow: agentController.signal },
+    });
+
+    expect(runController.signal.aborted).toBe(false);
+    expect(drafts.find(d => d.agentId === 'slow')).toMatchObject({ status: 'FAILED', error: AGENT_CANCELLED_MESSAGE });
+    expect(drafts.find(d => d.agentId === 'fast')).toMatchObject({ status: 'COMPLETED', content: 'done' });
+  });
+});
+
+describe('dispatcher structured output', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.resetModules();
+    process.env.GEMINI_RETRY_COUNT = '0';
+    process.env.GEMINI_BACKOFF_MS = '1';
+  });
+
+  afterEach(() => {
+    delete process.env.GEMINI_RETRY_COUNT;
+    delete process.env.GEMINI_BACKOFF_MS;
+  });
+
+  const expert: ExpertDispatch = {
+    agentId: 'json',
+    provider: 'gemini',
+    model: GEMINI_FLASH_MODEL,
+    id: '1',
+    name: 'json',
+    persona: '',
+  };
+  const config: GeminiAgentConfig = {
+    id: 'json',
+    expert,
+    provider: 'gemini',
+    model: GEMINI_FLASH_MODEL,
+    status: 'PENDING',
+    settings: {
+      effort: 'low',
+      generationStrategy: 'single',
+      confidenceSource: 'judge',
+      traceCount: 1,
+      deepConfEta: 90,
+      tau: 0.95,
+      groupWindow: 2048,
+      answerExtractor: { kind: 'full-text' },
+      voteMode: 'exact',
+      voteSimilarity: 'lexical',
+    },
+  };
+
+  const replies = (...texts: string[]) => {
+    const generateContentStream = vi.fn();
+    for (const text of texts) {
+      generateContentStream.mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          yield { text: () => text };
+        },
+      });
+    }
+    (getGeminiClient as unknown as Mock).mockReturnValue({ models: { generateContentStream } });
+    return generateContentStream;
+  };
+
+  const dispatchStructured = async () => {
+    const { dispatch } = await import('@/moe/dispatcher');
+    const { resolveStructuredOutput } = await import('@/moe/structuredOutput');
+    const structuredOutput = resolveStructuredOutput({ enabled: true, presetId: 'answer-with-confidence', customSchema: '' });
+    const [draft] = await dispatch([expert], 'prompt', [], [config], () => {}, undefined, { structuredOutput });
+    return draft;
+  };
+
+  it('retries once with the validation errors and stores the valid reply as JSON', async () => {
+    const generateContentStream = replies(
+      '{"answer": "7"}',
+      '```json\n{"answer": "7", "confidence": 0.9, "sources": []}\n```'
+    );
+
+    const draft = await dispatchStructured();
+
+    expect(draft.status).toBe('COMPLETED');
+    expect(JSON.parse(draft.content)).toEqual({ answer: '7', confidence: 0.9, sources: [] });
+    expect(generateContentStream).toHaveBeenCalledTimes(2);
+    const retryRequest = generateContentStream.mock.calls[1][0];
+    expect(JSON.stringify(retryRequest.contents)).toContain('$.confidence');
+    expect(retryRequest.config.responseMimeType).toBe('application/json');
+  });
+
+  it('fails the draft when the retry still does not match the schema', async () => {
+    replies('not json', '{"answer": 7, "confidence": 0.5, "sources": []}');
+
+    const draft = await dispatchStructured();
+
+    expect(draft.status).toBe('FAILED');
+    expect(draft.error).toContain('Draft does not match the output schema: $.answer');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { GEMINI_FLASH_MODEL } from '@/constants';
+import { clusterDrafts, jaccard, shingle } from '@/moe/draftClustering';
+import type { Draft } from '@/moe/types';
+
+const draft = (agentId: string, content: string): Draft => ({
+  agentId,
+  content,
+  status: 'COMPLETED',
+  expert: {
+    agentId,
+    id: `expert-${agentId}`,
+    name: `Expert ${agentId}`,
+    persona: `persona ${agentId}`,
+    provider: 'gemini',
+    model: GEMINI_FLASH_MODEL,
+  },
+});
+
+describe('shingle', () => {
+  it('ignores case and punctuation', () => {
+    expect(shingle('The quick, brown FOX jumps.')).toEqual(shingle('the quick brown fox jumps'));
+  });
+
+  it('keeps short texts as a single shingle', () => {
+    expect(shingle('Yes!')).toEqual(new Set(['yes']));
+  });
+});
+
+describe('jaccard', () => {
+  it('measures set overlap', () => {
+    expect(jaccard(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+    expect(jaccard(new Set(), new Set())).toBe(1);
+  });
+});
+
+describe('clusterDrafts', () => {
+  const base = 'Paris is the capital of France and has been its largest city for centuries, home to the Louvre and the Eiffel Tower';
+
+  it('collapses near-duplicates and keeps distinct drafts apart', () => {
+    const clusters = clusterDrafts([
+      draft('a', base),
+      draft('b', 'Lyon is the capital of France.'),
+      draft('c', `${base}.`),
+      draft('d', base.replace('Paris', 'paris')),
+    ]);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].representative.agentId).toBe('a');
+    expect(clusters[0].members.map(d => d.agentId)).toEqual(['a', 'c', 'd']);
+    expect(clusters[1].members.map(d => d.agentId)).toEqual(['b']);
+  });
+
+  it('treats every draft as distinct with a threshold above 1', () => {
+    expect(clusterDrafts([draft('a', base), draft('b', base)], 1.1)).toHaveLength(2);
+  });
+});
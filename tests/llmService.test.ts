@@ -30,3 +30,33 @@ describe('getGeminiClient environment variables', () => {
     expect(GoogleGenAI).toHaveBeenCalledWith({ apiKey: 'legacy-key' });
   });
 });
+
+describe('embedTexts', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env.GEMINI_API_KEY = 'env-key';
+  });
+
+  afterEach(() => {
+    delete process.env.GEMINI_API_KEY;
+  });
+
+  it('waits for a scheduler slot before embedding', async () => {
+    const embedContent = vi.fn().mockResolvedValue({ embeddings: [{ values: [1, 0] }] });
+    const { GoogleGenAI } = await import('@google/genai');
+    vi.mocked(GoogleGenAI).mockImplementation(() => ({ models: { embedContent } }) as never);
+    const { configureScheduler, getScheduler } = await import('@/services/scheduler');
+    const { embedTexts } = await import('@/services/llmService');
+    const { GEMINI_EMBEDDING_MODEL } = await import('@/constants');
+    configureScheduler({ providers: { gemini: { maxConcurrency: 1 } }, models: {} });
+
+    const release = await getScheduler().acquire({ provider: 'gemini', model: GEMINI_EMBEDDING_MODEL });
+    const embedding = embedTexts(['text'], 'gemini');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(embedContent).not.toHaveBeenCalled();
+
+    release();
+    expect(await embedding).toEqual([[1, 0]]);
+    expect(embedContent).toHaveBeenCalledTimes(1);
+  });
+});
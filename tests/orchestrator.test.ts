@@ -0,0 +1,482 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL, OPENROUTER_GPT_4O } from '@/constants';
+import { arbitrateStream, reportControversies, reviseAnswerStream } from '@/moe/arbiter';
+import { ARBITER_TEMPLATE_PRESETS } from '@/moe/arbiterTemplates';
+import { dispatch } from '@/moe/dispatcher';
+import { DEFAULT_STRUCTURED_OUTPUT_SETTINGS } from '@/moe/structuredOutput';
+import { agentStateToDraft, arbiterSwitchWarningFor, rearbitrateRun, runArbitration, runControversyReport, runOrchestration, runVerification } from '@/moe/orchestrator';
+import { judgeAnswer } from '@/services/deepconf';
+import { getProvider, registerProvider } from '@/services/providers';
+import type { Draft } from '@/moe/types';
+import type { AgentState, ArbiterSettingsSnapshot, GeminiAgentConfig, RunRecord } from '@/types';
+
+vi.mock('@/moe/arbiter', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/moe/arbiter')>()),
+  arbitrateStream: vi.fn(),
+  reportControversies: vi.fn(),
+  reviseAnswerStream: vi.fn(),
+}));
+
+vi.mock('@/services/deepconf', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/deepconf')>()),
+  judgeAnswer: vi.fn(),
+}));
+
+vi.mock('@/moe/dispatcher', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/moe/dispatcher')>()),
+  dispatch: vi.fn(),
+}));
+
+// Use the character-based token estimate instead of loading the tiktoken WASM.
+vi.mock('@/lib/wasmFeatures', () => ({
+  wasmSupportsSimd: vi.fn().mockResolvedValue(false),
+  wasmSupportsThreads: vi.fn().mockResolvedValue(false),
+}));
+
+const readAll = async (stream: ReadableStream<string>) => {
+  let text = '';
+  const reader = stream.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    text += chunk.value;
+  }
+  return text;
+};
+
+const textStream = (...chunks: string[]) => (async function* () {
+  for (const text of chunks) yield { text };
+})();
+
+const agent = (id: string, status: AgentState['status']): AgentState => ({
+  id,
+  name: `Expert ${id}`,
+  persona: `persona ${id}`,
+  status,
+  content: `draft ${id}`,
+  error: status === 'FAILED' ? 'boom' : null,
+  model: GEMINI_FLASH_MODEL,
+  provider: 'gemini',
+});
+
+const config = (id: string): GeminiAgentConfig => ({
+  id,
+  provider: 'gemini',
+  model: GEMINI_FLASH_MODEL,
+  status: 'COMPLETED',
+  expert: { id: `expert-${id}`, name: `Expert ${id}`, persona: `persona ${id}` },
+  settings: {
+    effort: 'low',
+    generationStrategy: 'single',
+    confidenceSource: 'judge',
+    traceCount: 1,
+    deepConfEta: 90,
+    tau: 0.95,
+    groupWindow: 2048,
+    answerExtractor: { kind: 'full-text' },
+    voteMode: 'exact',
+    voteSimilarity: 'lexical',
+  },
+});
+
+describe('agentStateToDraft', () => {
+  it('restores the expert id from the run configuration', () => {
+    const draft = agentStateToDraft(agent('a', 'COMPLETED'), [config('a')]);
+    expect(draft).toMatchObject({
+      agentId: 'a',
+      status: 'COMPLETED',
+      content: 'draft a',
+      expert: { agentId: 'a', id: 'expert-a', name: 'Expert a', provider: 'gemini', model: GEMINI_FLASH_MODEL },
+    });
+  });
+});
+
+describe('rearbitrateRun', () => {
+  beforeEach(() => {
+    vi.mocked(arbitrateStream).mockReset();
+  });
+
+  it('arbitrates stored drafts with the new settings without dispatching agents', async () => {
+    vi.mocked(arbitrateStream).mockResolvedValue(textStream('new ', 'answer'));
+
+    const run = {
+      prompt: 'question',
+      agentConfigs: [config('a'), config('b')],
+      agents: [agent('a', 'COMPLETED'), agent('b', 'FAILED')],
+      structuredOutputSettings: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+    } as RunRecord;
+
+    const { promise } = rearbitrateRun(run, {
+      arbiterModel: GEMINI_PRO_MODEL,
+      openAIArbiterVerbosity: 'low',
+      openAIArbiterEffort: 'medium',
+      geminiArbiterEffort: 'high',
+      arbiterMode: 'vote',
+      arbiterTemplate: ARBITER_TEMPLATE_PRESETS[1],
+      arbiterFallbackModels: [],
+      sendImagesToArbiter: false,
+    });
+    const { stream, mapReduceBatches } = await promise;
+
+    expect(await readAll(stream)).toBe('new answer');
+    expect(mapReduceBatches).toBe(0);
+    const [model, prompt, drafts, verbosity, , geminiEffort, , mode, template] = vi.mocked(arbitrateStream).mock.calls[0];
+    expect(model).toBe(GEMINI_PRO_MODEL);
+    expect(prompt).toBe('question');
+    expect(drafts.map(d => d.agentId)).toEqual(['a', 'b']);
+    expect(verbosity).toBe('low');
+    expect(geminiEffort).toBe('high');
+    expect(mode).toBe('vote');
+    expect(template).toBe(ARBITER_TEMPLATE_PRESETS[1]);
+  });
+
+  it('sends the run\'s images to the arbiter unless the run turned that off', async () => {
+    vi.mocked(arbitrateStream).mockImplementation(async () => textStream('answer'));
+    const image = { id: 'img', file: new File([], 'a.png', { type: 'image/png' }), base64: 'AAAA' };
+    const run = {
+      prompt: 'question',
+      images: [image],
+      agentConfigs: [config('a')],
+      agents: [agent('a', 'COMPLETED')],
+      structuredOutputSettings: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+    } as RunRecord;
+    const settings = {
+      arbiterModel: GEMINI_PRO_MODEL,
+      openAIArbiterVerbosity: 'low',
+      openAIArbiterEffort: 'medium',
+      geminiArbiterEffort: 'high',
+      arbiterMode: 'synthesize',
+      arbiterTemplate: ARBITER_TEMPLATE_PRESETS[0],
+      arbiterFallbackModels: [],
+    } satisfies ArbiterSettingsSnapshot;
+
+    await rearbitrateRun(run, settings).promise;
+    await rearbitrateRun(run, { ...settings, sendImagesToArbiter: false }).promise;
+
+    expect(vi.mocked(arbitrateStream).mock.calls.map(call => call[9])).toEqual([[image], []]);
+  });
+});
+
+describe('runArbitration map-reduce', () => {
+  beforeEach(() => {
+    vi.mocked(arbitrateStream).mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('arbitrates oversized draft sets in batches with the selected arbiter', async () => {
+    // ~10k estimated tokens each: two fit under the threshold, three do not.
+    const drafts: Draft[] = ['a', 'b', 'c', 'd'].map(id => ({
+      ...agentStateToDraft(agent(id, 'COMPLETED'), [config(id)]),
+      content: id.repeat(40_000),
+    }));
+    vi.mocked(arbitrateStream)
+      .mockResolvedValueOnce(textStream('summary ab'))
+      .mockResolvedValueOnce(textStream('summary cd'))
+      .mockResolvedValueOnce(textStream('final'));
+
+    const { promise } = runArbitration({
+      prompt: 'question',
+      drafts,
+      arbiterModel: 'gpt-5',
+      openAIArbiterVerbosity: 'medium',
+      openAIArbiterEffort: 'medium',
+      geminiArbiterEffort: 'dynamic',
+    });
+    const { stream, mapReduceBatches } = await promise;
+
+    expect(await readAll(stream)).toBe('final');
+    expect(mapReduceBatches).toBe(2);
+    const calls = vi.mocked(arbitrateStream).mock.calls;
+    expect(calls.map(([model]) => model)).toEqual(['gpt-5', 'gpt-5', 'gpt-5']);
+    expect(calls[0][2].map(d => d.agentId)).toEqual(['a', 'b']);
+    expect(calls[1][2].map(d => d.agentId)).toEqual(['c', 'd']);
+    expect(calls[2][2].map(d => d.content)).toEqual(['summary ab', 'summary cd']);
+  });
+
+  it('truncates a draft too large to share a batch and warns about it', async () => {
+    const drafts: Draft[] = [
+      { ...agentStateToDraft(agent('a', 'COMPLETED'), [config('a')]), content: 'a'.repeat(200_000) },
+      agentStateToDraft(agent('b', 'COMPLETED'), [config('b')]),
+    ];
+    vi.mocked(arbitrateStream).mockResolvedValueOnce(textStream('final'));
+
+    const { promise } = runArbitration({
+      prompt: 'question',
+      drafts,
+      arbiterModel: 'gpt-5',
+      openAIArbiterVerbosity: 'medium',
+      openAIArbiterEffort: 'medium',
+      geminiArbiterEffort: 'dynamic',
+    });
+    const result = await promise;
+
+    expect(await readAll(result.stream)).toBe('final');
+    expect(result.mapReduceBatches).toBe(0);
+    expect(result.truncatedDrafts).toBe(1);
+    expect(arbiterSwitchWarningFor(result)).toBe('1 draft was too long for the arbiter model\'s context window and was truncated.');
+    const [sent] = vi.mocked(arbitrateStream).mock.calls.map(call => call[2]);
+    expect(sent.map(d => d.agentId)).toEqual(['a', 'b']);
+    // Half of the 28k-token window, at ~4 characters per token.
+    expect(sent[0].content.length).toBeLessThan(14_000 * 4);
+    expect(sent[0].content).toMatch(/\[Truncated to fit the arbiter model's context window\.\]$/);
+    expect(sent[1].content).toBe('draft b');
+  });
+
+  it('attributes the final answer back to the agents behind each batch', async () => {
+    const drafts: Draft[] = ['a', 'b', 'c', 'd'].map(id => ({
+      ...agentStateToDraft(agent(id, 'COMPLETED'), [config(id)]),
+      content: id.repeat(40_000),
+    }));
+    vi.mocked(arbitrateStream)
+      .mockResolvedValueOnce(textStream('summary of the first batch'))
+      .mockResolvedValueOnce(textStream('a different second summary'))
+      .mockResolvedValueOnce(textStream('final [A][B]'));
+
+    const { promise } = runArbitration({
+      prompt: 'question',
+      drafts,
+      arbiterModel: 'gpt-5',
+      openAIArbiterVerbosity: 'medium',
+      openAIArbiterEffort: 'medium',
+      geminiArbiterEffort: 'dynamic',
+      arbiterMode: 'attributed',
+    });
+    const { stream, attributionSources } = await promise;
+
+    expect(await readAll(stream)).toBe('final [A][B]');
+    expect(attributionSources).toEqual({ A: ['a', 'b'], B: ['c', 'd'] });
+    expect(vi.mocked(arbitrateStream).mock.calls.map(call => call[7])).toEqual(['synthesize', 'synthesize', 'attributed']);
+  });
+});
+
+describe('runControversyReport', () => {
+  const params = {
+    prompt: 'question',
+    arbiterModel: 'gpt-5',
+    openAIArbiterVerbosity: 'medium',
+    openAIArbiterEffort: 'medium',
+    geminiArbiterEffort: 'dynamic',
+    finalAnswer: 'final',
+  } as const;
+
+  beforeEach(() => {
+    vi.mocked(reportControversies).mockReset();
+  });
+
+  it('skips the report unless it is enabled for a mode that writes a new answer', async () => {
+    const drafts = ['a', 'b'].map(id => agentStateToDraft(agent(id, 'COMPLETED'), [config(id)]));
+
+    expect(await runControversyReport({ ...params, drafts }).promise).toBeNull();
+    expect(await runControversyReport({ ...params, drafts, reportControversies: true, arbiterMode: 'vote' }).promise).toBeNull();
+    expect(reportControversies).not.toHaveBeenCalled();
+  });
+
+  it('reports oversized draft sets in batches that fit the context window', async () => {
+    const drafts: Draft[] = ['a', 'b', 'c', 'd'].map(id => ({
+      ...agentStateToDraft(agent(id, 'COMPLETED'), [config(id)]),
+      content: id.repeat(40_000),
+    }));
+    const controversy = { topic: 't', positions: [], resolution: 'r' };
+    vi.mocked(reportControversies).mockResolvedValue([controversy]);
+
+    const report = await runControversyReport({ ...params, drafts, reportControversies: true }).promise;
+
+    expect(report).toEqual([controversy, controversy]);
+    expect(vi.mocked(reportControversies).mock.calls.map(call => call[2].map(d => d.agentId))).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('runArbitration fallback', () => {
+  beforeEach(() => {
+    vi.mocked(arbitrateStream).mockReset();
+    vi.mocked(judgeAnswer).mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  const drafts = ['a', 'b', 'c'].map(id => agentStateToDraft(agent(id, 'COMPLETED'), [config(id)]));
+  const arbitrateWithFallbacks = () => runArbitration({
+    prompt: 'question',
+    drafts,
+    arbiterModel: GEMINI_PRO_MODEL,
+    openAIArbiterVerbosity: 'medium',
+    openAIArbiterEffort: 'medium',
+    geminiArbiterEffort: 'dynamic',
+    arbiterFallbackModels: [GEMINI_PRO_MODEL, 'gpt-5'],
+  }).promise;
+
+  it('switches to the next fallback model when the arbiter fails before streaming', async () => {
+    const failingStream = (async function* () {
+      throw new Error('quota exceeded');
+    })();
+    vi.mocked(arbitrateStream)
+      .mockResolvedValueOnce(failingStream)
+      .mockResolvedValueOnce(textStream('fallback ', 'answer'));
+
+    const { stream, arbiterFallbackWarning } = await arbitrateWithFallbacks();
+
+    expect(await readAll(stream)).toBe('fallback answer');
+    expect(vi.mocked(arbitrateStream).mock.calls.map(([model]) => model)).toEqual([GEMINI_PRO_MODEL, 'gpt-5']);
+    expect(arbiterFallbackWarning).toContain(`${GEMINI_PRO_MODEL} (quota exceeded)`);
+    expect(arbiterFallbackWarning).toContain('fallback arbiter gpt-5');
+  });
+
+  it('returns the best draft judged by the drafts\' own provider when every arbiter fails', async () => {
+    const openRouter = getProvider('openrouter');
+    const judge = vi.fn()
+      .mockResolvedValueOnce({ score: 0.2, reasons: [] })
+      .mockResolvedValueOnce({ score: 0.7, reasons: [] })
+      .mockResolvedValueOnce({ score: 0.5, reasons: [] });
+    registerProvider({ ...openRouter, judge });
+    vi.mocked(arbitrateStream).mockRejectedValue(new Error('missing key'));
+
+    try {
+      const { stream, arbiterFallbackWarning } = await runArbitration({
+        prompt: 'question',
+        // Only the OpenRouter agents worked; their model id alone would resolve to the OpenAI judge.
+        drafts: drafts.map(d => ({ ...d, expert: { ...d.expert, provider: 'openrouter', model: OPENROUTER_GPT_4O } })),
+        arbiterModel: GEMINI_PRO_MODEL,
+        openAIArbiterVerbosity: 'medium',
+        openAIArbiterEffort: 'medium',
+        geminiArbiterEffort: 'dynamic',
+        arbiterFallbackModels: [GEMINI_PRO_MODEL, 'gpt-5'],
+      }).promise;
+
+      expect(await readAll(stream)).toBe('draft b');
+      expect(judge).toHaveBeenCalledWith('question', 'draft a', OPENROUTER_GPT_4O, expect.any(AbortSignal));
+      expect(judgeAnswer).not.toHaveBeenCalled();
+      expect(arbiterFallbackWarning).toContain('Every arbiter failed');
+      expect(arbiterFallbackWarning).toContain('judge score 0.70');
+    } finally {
+      registerProvider(openRouter);
+    }
+  });
+});
+
+describe('runOrchestration debate', () => {
+  beforeEach(() => {
+    vi.mocked(arbitrateStream).mockReset();
+    vi.mocked(dispatch).mockReset();
+  });
+
+  it('revises drafts with peer context for each round and keeps a failed revision\'s previous draft', async () => {
+    const configs = [config('a'), config('b'), config('c')];
+    const draftFor = (id: string, content: string, status: Draft['status'] = 'COMPLETED'): Draft => ({
+      ...agentStateToDraft(agent(id, status), configs),
+      content,
+    });
+    vi.mocked(dispatch)
+      .mockResolvedValueOnce([draftFor('a', 'a1'), draftFor('b', 'b1'), draftFor('c', 'c1', 'FAILED')])
+      .mockImplementationOnce(async (_experts, _prompt, _images, _configs, onDraftComplete) => {
+        const revised = [draftFor('a', 'a2'), draftFor('b', '', 'FAILED')];
+        revised.forEach(onDraftComplete);
+        return revised;
+      })
+      .mockResolvedValueOnce([draftFor('a', 'a3'), draftFor('b', 'b3')]);
+    vi.mocked(arbitrateStream).mockResolvedValue(textStream('final'));
+    const onDebateRound = vi.fn();
+    const onDebateRevisionFailed = vi.fn();
+    const onDraftComplete = vi.fn();
+
+    const { promise } = runOrchestration({
+      prompt: 'question',
+      images: [],
+      agentConfigs: configs,
+      arbiterModel: GEMINI_PRO_MODEL,
+      openAIArbiterVerbosity: 'medium',
+      openAIArbiterEffort: 'medium',
+      geminiArbiterEffort: 'dynamic',
+      debateSettings: { strategy: 'debate', rounds: 2 },
+    }, { onInitialAgents: () => {}, onDraftComplete, onDebateRound, onDebateRevisionFailed });
+    const { drafts } = await promise;
+
+    expect(onDebateRound.mock.calls).toEqual([[2, ['a', 'b']], [3, ['a', 'b']]]);
+    const roundTwo = vi.mocked(dispatch).mock.calls[1];
+    expect(roundTwo[0].map(e => e.agentId)).toEqual(['a', 'b']);
+    const promptForA = roundTwo[6]?.agentPrompts?.a ?? '';
+    expect(promptForA).toContain('a1');
+    expect(promptForA).toContain('b1');
+    expect(promptForA).not.toContain('c1');
+    // b's failed round-two revision falls back to its round-one draft.
+    expect(vi.mocked(dispatch).mock.calls[2][6]?.agentPrompts?.a).toContain('b1');
+    expect(onDebateRevisionFailed.mock.calls).toEqual([[2, 'b']]);
+    expect(onDraftComplete.mock.calls.map(([d]) => [d.agentId, d.content, d.status])).toEqual([['a', 'a2', 'COMPLETED'], ['b', 'b1', 'COMPLETED']]);
+    expect(drafts.map(d => d.content)).toEqual(['a3', 'b3', 'c1']);
+  });
+
+  it('dispatches a single round by default', async () => {
+    vi.mocked(dispatch).mockResolvedValueOnce([agentStateToDraft(agent('a', 'COMPLETED'), [config('a')])]);
+    vi.mocked(arbitrateStream).mockResolvedValue(textStream('final'));
+
+    const { promise } = runOrchestration({
+      prompt: 'question',
+      images: [],
+      agentConfigs: [config('a')],
+      arbiterModel: GEMINI_PRO_MODEL,
+      openAIArbiterVerbosity: 'medium',
+      openAIArbiterEffort: 'medium',
+      geminiArbiterEffort: 'dynamic',
+    }, { onInitialAgents: () => {}, onDraftComplete: () => {} });
+    await promise;
+
+    expect(dispatch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('runVerification', () => {
+  const params = (maxIterations: number) => ({
+    prompt: 'question',
+    arbiterModel: GEMINI_PRO_MODEL,
+    openAIArbiterVerbosity: 'medium' as const,
+    openAIArbiterEffort: 'medium' as const,
+    geminiArbiterEffort: 'dynamic' as const,
+    finalAnswer: 'first answer',
+    verifierSettings: { enabled: true, threshold: 0.8, maxIterations },
+  });
+
+  beforeEach(() => {
+    vi.mocked(judgeAnswer).mockReset();
+    vi.mocked(reviseAnswerStream).mockReset();
+  });
+
+  it('revises with the judge\'s reasons until the answer passes', async () => {
+    vi.mocked(judgeAnswer)
+      .mockResolvedValueOnce({ score: 0.4, reasons: ['Missing units.'] })
+      .mockResolvedValueOnce({ score: 0.9, reasons: [] });
+    vi.mocked(reviseAnswerStream).mockResolvedValueOnce(textStream('second ', 'answer'));
+    const onRevisionDelta = vi.fn();
+
+    const { answer, passes } = await runVerification(params(3), { onRevisionDelta }).promise;
+
+    expect(answer).toBe('second answer');
+    expect(passes).toEqual([
+      { answer: 'first answer', score: 0.4, reasons: ['Missing units.'] },
+      { answer: 'second answer', score: 0.9, reasons: [] },
+    ]);
+    expect(vi.mocked(reviseAnswerStream).mock.calls[0].slice(1, 4)).toEqual(['question', 'first answer', ['Missing units.']]);
+    expect(onRevisionDelta).toHaveBeenLastCalledWith('second answer');
+  });
+
+  it('stops after the configured number of revisions and judges the last one', async () => {
+    vi.mocked(judgeAnswer).mockResolvedValue({ score: 0.2, reasons: ['Wrong.'] });
+    vi.mocked(reviseAnswerStream).mockImplementation(async () => textStream('revised'));
+
+    const { passes } = await runVerification(params(1)).promise;
+
+    expect(passes.map(p => p.answer)).toEqual(['first answer', 'revised']);
+    expect(reviseAnswerStream).toHaveBeenCalledTimes(1);
+    expect(judgeAnswer).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the best-scoring answer when a revision scores worse', async () => {
+    vi.mocked(judgeAnswer)
+      .mockResolvedValueOnce({ score: 0.3, reasons: ['Vague.'] })
+      .mockResolvedValueOnce({ score: 0.6, reasons: ['Missing units.'] })
+      .mockResolvedValueOnce({ score: 0.1, reasons: ['Wrong.'] });
+    vi.mocked(reviseAnswerStream)
+      .mockResolvedValueOnce(textStream('second answer'))
+      .mockResolvedValueOnce(textStream('third answer'));
+
+    const { answer, passes } = await runVerification(params(2)).promise;
+
+    expect(passes.map(p => p.answer)).toEqual(['first answer', 'second answer', 'third answer']);
+    expect(answer).toBe('second answer');
+  });
+});
@@ -0,0 +1,360 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ANTHROPIC_SONNET_MODEL, GEMINI_FLASH_MODEL, OPENROUTER_CLAUDE_3_HAIKU, OPENROUTER_GPT_4O } from '@/constants';
+import { dispatch } from '@/moe/dispatcher';
+import type { ExpertDispatch } from '@/moe/types';
+import { discoverCustomModels, getProvider, providerForModel, registerProvider } from '@/services/providers';
+import { anthropicStreamer } from '@/services/providers/anthropic';
+import { readTrace } from '@/services/providers/openrouter';
+import { fetchWithRetry, getAnthropicApiKey, getCustomEndpoint, getOpenRouterApiKey } from '@/services/llmService';
+import type { AnthropicAgentConfig, CustomAgentConfig, OpenRouterAgentConfig } from '@/types';
+
+vi.mock('@/services/llmService', () => ({
+  getGeminiClient: vi.fn(),
+  getOpenAIClient: vi.fn(),
+  getOpenRouterApiKey: vi.fn(),
+  getAnthropicApiKey: vi.fn(),
+  getCustomEndpoint: vi.fn(() => ({ baseUrl: '', apiKey: '' })),
+  callWithRetry: vi.fn(),
+  fetchWithRetry: vi.fn(),
+}));
+
+describe('providerForModel', () => {
+  it('resolves bare model ids to their provider', () => {
+    expect(providerForModel(GEMINI_FLASH_MODEL).id).toBe('gemini');
+    expect(providerForModel('gpt-5-mini').id).toBe('openai');
+    // Non-GPT-5 OpenAI models used to fall through to Gemini.
+    expect(providerForModel('gpt-4o').id).toBe('openai');
+    expect(providerForModel(OPENROUTER_GPT_4O).id).toBe('openrouter');
+    expect(providerForModel(ANTHROPIC_SONNET_MODEL).id).toBe('anthropic');
+    expect(providerForModel(OPENROUTER_CLAUDE_3_HAIKU).id).toBe('openrouter');
+    expect(providerForModel('some-unknown-model').id).toBe('gemini');
+  });
+
+  it('reports per-model capabilities', () => {
+    expect(providerForModel(OPENROUTER_GPT_4O).capabilities(OPENROUTER_GPT_4O).vision).toBe(true);
+    expect(providerForModel('mistralai/mistral-7b-instruct').capabilities('mistralai/mistral-7b-instruct').vision).toBe(false);
+    expect(providerForModel('gpt-5').capabilities('gpt-5').contextWindow).toBeLessThan(
+      providerForModel(GEMINI_FLASH_MODEL).capabilities(GEMINI_FLASH_MODEL).contextWindow
+    );
+  });
+});
+
+describe('anthropicStreamer', () => {
+  const sse = (...events: object[]) => new Response(
+    events.map(e => `event: ${(e as { type: string }).type}\ndata: ${JSON.stringify(e)}\n\n`).join('')
+  ).body!;
+
+  it('yields text deltas and skips thinking', async () => {
+    const stream = sse(
+      { type: 'message_start', message: {} },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'hmm' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Hello' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: ' world' } },
+      { type: 'message_stop' },
+    );
+
+    const chunks: string[] = [];
+    for await (const chunk of anthropicStreamer(stream)) chunks.push(chunk.text);
+    expect(chunks.join('')).toBe('Hello world');
+  });
+
+  it('throws on error events', async () => {
+    const stream = sse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+    await expect(async () => {
+      for await (const _ of anthropicStreamer(stream)) { /* drain */ }
+    }).rejects.toThrow('Overloaded');
+  });
+});
+
+describe('readTrace', () => {
+  const sse = (...chunks: object[]) => new Response(
+    chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n'
+  ).body!;
+  const chunk = (token: string, top: [string, number][]) => ({
+    choices: [{
+      delta: { content: token },
+      logprobs: { content: [{ token, logprob: top[0][1], top_logprobs: top.map(([t, logprob]) => ({ token: t, logprob })) }] },
+    }],
+  });
+
+  it('collects token steps with their top logprobs', async () => {
+    const onStep = vi.fn();
+    const trace = await readTrace(sse(chunk('4', [['4', -0.1], ['5', -3]]), chunk('2', [['2', -0.2]])), 'm', onStep);
+
+    expect(trace.text).toBe('42');
+    expect(trace.steps).toEqual([
+      { token: '4', topK: [{ token: '4', logprob: -0.1 }, { token: '5', logprob: -3 }] },
+      { token: '2', topK: [{ token: '2', logprob: -0.2 }] },
+    ]);
+    expect(onStep).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when the model returns text without logprobs', async () => {
+    await expect(readTrace(sse({ choices: [{ delta: { content: 'hi' } }] }), 'vendor/model'))
+      .rejects.toThrow(/vendor\/model returned no logprobs/);
+  });
+});
+
+describe('partial streams', () => {
+  const encoder = new TextEncoder();
+  const chatEvent = (text: string) => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+  const anthropicEvent = (text: string) =>
+    `event: content_block_delta\ndata: ${JSON.stringify({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } })}\n\n`;
+  /** An SSE body that sends each of `texts` as one event, then fails. */
+  const failingBody = (texts: string[], event = chatEvent) => new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const text = texts.shift();
+      if (text === undefined) {
+        controller.error(new Error('connection reset'));
+      } else {
+        controller.enqueue(encoder.encode(event(text)));
+      }
+    },
+  });
+  const settings = { temperature: 0.7, topP: 1, generationStrategy: 'single', confidenceSource: 'judge', traceCount: 1, deepConfEta: 90,
+    tau: 0.95, groupWindow: 2048, answerExtractor: { kind: 'full-text' }, voteMode: 'exact', voteSimilarity: 'lexical' } as const;
+  const expert: ExpertDispatch = { agentId: 'a', provider: 'openrouter', model: OPENROUTER_GPT_4O, id: '1', name: 'a', persona: '' };
+  const config: OpenRouterAgentConfig = {
+    id: 'a', provider: 'openrouter', model: OPENROUTER_GPT_4O, status: 'PENDING', expert,
+    settings: { ...settings, topK: 0, frequencyPenalty: 0, presencePenalty: 0, repetitionPenalty: 1 },
+  };
+
+  it('keeps the text OpenRouter streamed before the connection failed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getOpenRouterApiKey).mockReturnValue('key');
+    vi.mocked(fetchWithRetry).mockResolvedValueOnce(new Response(failingBody(['Hello', ' wor'])));
+
+    const result = await getProvider('openrouter').generate(expert, 'prompt', [], config, {});
+
+    expect(result).toMatchObject({ content: 'Hello wor', isPartial: true, error: expect.objectContaining({ message: 'connection reset' }) });
+  });
+
+  it('still fails when the stream breaks before any text arrives', async () => {
+    vi.mocked(getOpenRouterApiKey).mockReturnValue('key');
+    vi.mocked(fetchWithRetry).mockResolvedValueOnce(new Response(failingBody([])));
+
+    await expect(getProvider('openrouter').generate(expert, 'prompt', [], config, {})).rejects.toThrow('connection reset');
+  });
+
+  it('keeps the text a custom endpoint streamed before the connection failed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getCustomEndpoint).mockReturnValue({ baseUrl: 'http://localhost:8080/v1', apiKey: '' });
+    vi.mocked(fetchWithRetry).mockResolvedValueOnce(new Response(failingBody(['Hello', ' wor'])));
+    const customExpert: ExpertDispatch = { ...expert, provider: 'custom', model: 'my-local-model' };
+    const customConfig: CustomAgentConfig = {
+      id: 'a', provider: 'custom', model: 'my-local-model', status: 'PENDING', expert: customExpert, settings,
+    };
+
+    const result = await getProvider('custom').generate(customExpert, 'prompt', [], customConfig, {});
+
+    expect(result).toMatchObject({ content: 'Hello wor', isPartial: true });
+  });
+
+  it('keeps the text Anthropic streamed before the connection failed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getAnthropicApiKey).mockReturnValue('key');
+    vi.mocked(fetchWithRetry).mockResolvedValueOnce(new Response(failingBody(['Hello', ' wor'], anthropicEvent)));
+    const anthropicExpert: ExpertDispatch = { ...expert, provider: 'anthropic', model: ANTHROPIC_SONNET_MODEL };
+    const anthropicConfig: AnthropicAgentConfig = {
+      id: 'a', provider: 'anthropic', model: ANTHROPIC_SONNET_MODEL, status: 'PENDING', expert: anthropicExpert,
+      settings: { thinkingBudget: 0, maxTokens: 1024, temperature: 0.7 },
+    };
+
+    const result = await getProvider('anthropic').generate(anthropicExpert, 'prompt', [], anthropicConfig, {});
+
+    expect(result).toMatchObject({ content: 'Hello wor', isPartial: true });
+  });
+});
+
+describe('custom endpoint', () => {
+  it('discovers models and claims them ahead of vendor-looking ids', async () => {
+    vi.mocked(getCustomEndpoint).mockReturnValue({ baseUrl: 'http://localhost:8080/v1', apiKey: 'secret' });
+    vi.mocked(fetchWithRetry).mockResolvedValueOnce(
+      new Response(JSON.stringify({ data: [{ id: 'qwen2.5-7b' }, { id: 'openai/gpt-oss-20b' }] }))
+    );
+
+    await expect(discoverCustomModels()).resolves.toEqual(['openai/gpt-oss-20b', 'qwen2.5-7b']);
+    expect(fetchWithRetry).toHaveBeenCalledWith('http://localhost:8080/v1/models', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+    }));
+    expect(providerForModel('qwen2.5-7b').id).toBe('custom');
+    expect(providerForModel('openai/gpt-oss-20b').id).toBe('custom');
+    expect(providerForModel(OPENROUTER_GPT_4O).id).toBe('openrouter');
+  });
+
+  it('requires a base URL', async () => {
+    vi.mocked(getCustomEndpoint).mockReturnValue({ baseUrl: '', apiKey: '' });
+    await expect(discoverCustomModels()).rejects.toThrow(/base URL not set/);
+  });
+});
+
+describe('registerProvider', () => {
+  const original = getProvider('openrouter');
+
+  afterEach(() => {
+    registerProvider(original);
+  });
+
+  it('routes agent generation through the registered adapter', async () => {
+    const generate = vi.fn().mockResolvedValue({ content: 'from adapter', isPartial: false });
+    registerProvider({ ...original, generate });
+
+    const expert: ExpertDispatch = { agentId: 'a', provider: 'openrouter', model: OPENROUTER_GPT_4O, id: '1', name: 'a', persona: '' };
+    const config: OpenRouterAgentConfig = {
+      id: 'a',
+      provider: 'openrouter',
+      model: OPENROUTER_GPT_4O,
+      status: 'PENDING',
+      expert,
+      settings: { temperature: 0.7, topP: 1, topK: 0, frequencyPenalty: 0, presencePenalty: 0, repetitionPenalty: 1,
+        generationStrategy: 'single', confidenceSource: 'judge', traceCount: 8, deepConfEta: 90, tau: 0.95, groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' }, voteMode: 'exact', voteSimilarity: 'lexical' },
+    };
+
+    const drafts = await dispatch([expert], 'prompt', [], [config], () => {});
+
+    expect(drafts[0]).toMatchObject({ status: 'COMPLETED', content: 'from adapter' });
+    expect(generate).toHaveBeenCalledWith(expert, 'prompt', [], config, expect.objectContaining({ structuredOutput: undefined }));
+  });
+
+  it('samples DeepConf traces for OpenRouter agents and judges them with the adapter', async () => {
+    const answers = ['42', '41', '42'];
+    const generate = vi.fn().mockImplementation(async () => ({ content: answers.shift(), isPartial: false }));
+    const judge = vi.fn().mockImplementation(async (_prompt: string, answer: string) => ({ score: answer === '42' ? 0.9 : 0.2, reasons: [] }));
+    registerProvider({ ...original, generate, judge });
+
+    const expert: ExpertDispatch = { agentId: 'a', provider: 'openrouter', model: OPENROUTER_GPT_4O, id: '1', name: 'a', persona: '' };
+    const config: OpenRouterAgentConfig = {
+      id: 'a',
+      provider: 'openrouter',
+      model: OPENROUTER_GPT_4O,
+      status: 'PENDING',
+      expert,
+      settings: { temperature: 0.7, topP: 1, topK: 0, frequencyPenalty: 0, presencePenalty: 0, repetitionPenalty: 1,
+        generationStrategy: 'deepconf-offline', confidenceSource: 'judge', traceCount: 3, deepConfEta: 90, tau: 0.95, groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' }, voteMode: 'exact', voteSimilarity: 'lexical' },
+    };
+
+    const drafts = await dispatch([expert], 'prompt', [], [config], () => {});
+
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(judge).toHaveBeenCalledWith('prompt', '41', OPENROUTER_GPT_4O, expect.any(AbortSignal));
+    expect(drafts[0]).toMatchObject({ status: 'COMPLETED', content: '42' });
+  });
+
+  it('scores DeepConf traces by logprobs when the agent asks for them', async () => {
+    const confident = { token: '42', topK: [{ token: '42', logprob: -0.01 }, { token: '41', logprob: -6 }] };
+    const unsure = { token: '41', topK: [{ token: '41', logprob: -0.9 }, { token: '42', logprob: -1 }] };
+    const traces = [{ text: '41', steps: [unsure] }, { text: '42', steps: [confident] }, { text: '42', steps: [confident] }];
+    const generateTrace = vi.fn().mockImplementation(async () => traces.shift());
+    const judge = vi.fn();
+    registerProvider({ ...original, generateTrace, judge });
+
+    const expert: ExpertDispatch = { agentId: 'a', provider: 'openrouter', model: OPENROUTER_GPT_4O, id: '1', name: 'a', persona: '' };
+    const config: OpenRouterAgentConfig = {
+      id: 'a',
+      provider: 'openrouter',
+      model: OPENROUTER_GPT_4O,
+      status: 'PENDING',
+      expert,
+      settings: { temperature: 0.7, topP: 1, topK: 0, frequencyPenalty: 0, presencePenalty: 0, repetitionPenalty: 1,
+        generationStrategy: 'deepconf-offline', confidenceSource: 'logprobs', traceCount: 3, deepConfEta: 90, tau: 0.95, groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' }, voteMode: 'exact', voteSimilarity: 'lexical' },
+    };
+
+    const drafts = await dispatch([expert], 'prompt', [], [config], () => {});
+
+    expect(generateTrace).toHaveBeenCalledTimes(3);
+    expect(generateTrace).toHaveBeenCalledWith(expert, 'prompt', [], config, expect.objectContaining({ topLogprobs: 5 }));
+    expect(judge).not.toHaveBeenCalled();
+    expect(drafts[0]).toMatchObject({ status: 'COMPLETED', content: '42' });
+  });
+
+  it('votes on extracted answers and reports the tally on the draft', async () => {
+    const answers = ['So the total is 42.', 'I get 41', 'Answer: 42'];
+    const generate = vi.fn().mockImplementation(async () => ({ content: answers.shift(), isPartial: false }));
+    const judge = vi.fn().mockImplementation(async (_prompt: string, answer: string) => ({ score: answer.includes('42') ? 0.9 : 0.2, reasons: [] }));
+    registerProvider({ ...original, generate, judge });
+
+    const expert: ExpertDispatch = { agentId: 'a', provider: 'openrouter', model: OPENROUTER_GPT_4O, id: '1', name: 'a', persona: '' };
+    const config: OpenRouterAgentConfig = {
+      id: 'a',
+      provider: 'openrouter',
+      model: OPENROUTER_GPT_4O,
+      status: 'PENDING',
+      expert,
+      settings: { temperature: 0.7, topP: 1, topK: 0, frequencyPenalty: 0, presencePenalty: 0, repetitionPenalty: 1,
+        generationStrategy: 'deepconf-offline', confidenceSource: 'judge', traceCount: 3, deepConfEta: 90, tau: 0.95, groupWindow: 2048,
+        answerExtractor: { kind: 'numeric' }, voteMode: 'exact', voteSimilarity: 'lexical' },
+    };
+
+    const drafts = await dispatch([expert], 'prompt', [], [config], () => {});
+
+    expect(drafts[0]).toMatchObject({ status: 'COMPLETED', content: 'So the total is 42.' });
+    expect(drafts[0].vote).toEqual({
+      answer: '42',
+      tally: [{ answer: '42', count: 2 }, { answer: '41', count: 1 }],
+      consensus: 1,
+    });
+  });
+
+  it('stops online sampling once paraphrased traces agree under semantic voting', async () => {
+    const paraphrases = ['Paris is the capital of France.', 'The capital of France is Paris.', 'Paris is the capital city of France.'];
+    let call = 0;
+    const generate = vi.fn().mockImplementation(async () => ({ content: paraphrases[call++ % paraphrases.length], isPartial: false }));
+    const judge = vi.fn().mockImplementation(async (_prompt: string, answer: string) => ({ score: answer.startsWith('The') ? 0.9 : 0.6, reasons: [] }));
+    registerProvider({ ...original, generate, judge });
+
+    const expert: ExpertDispatch = { agentId: 'a', provider: 'openrouter', model: OPENROUTER_GPT_4O, id: '1', name: 'a', persona: '' };
+    const config = (voteMode: 'exact' | 'semantic'): OpenRouterAgentConfig => ({
+      id: 'a',
+      provider: 'openrouter',
+      model: OPENROUTER_GPT_4O,
+      status: 'PENDING',
+      expert,
+      settings: { temperature: 0.7, topP: 1, topK: 0, frequencyPenalty: 0, presencePenalty: 0, repetitionPenalty: 1,
+        generationStrategy: 'deepconf-online', confidenceSource: 'judge', traceCount: 12, deepConfEta: 90, tau: 0.9, groupWindow: 2048,
+        answerExtractor: { kind: 'full-text' }, voteMode, voteSimilarity: 'lexical' },
+    });
+
+    const [exact] = await dispatch([expert], 'prompt', [], [config('exact')], () => {});
+    expect(generate).toHaveBeenCalledTimes(12);
+    expect(exact.vote?.tally).toHaveLength(3);
+
+    generate.mockClear();
+    const [semantic] = await dispatch([expert], 'prompt', [], [config('semantic')], () => {});
+    // The eight warmup traces already agree, so no further traces are sampled.
+    expect(generate).toHaveBeenCalledTimes(8);
+    expect(semantic.content).toBe('The capital of France is Paris.');
+    expect(semantic.vote).toMatchObject({ answer: paraphrases[0], tally: [{ answer: paraphrases[0], count: 8 }], consensus: 1 });
+  });
+
+  it('judges custom-endpoint traces with the custom adapter before the model is discovered', async () => {
+    const custom = getProvider('custom');
+    const generate = vi.fn().mockResolvedValue({ content: '42', isPartial: false });
+    const judge = vi.fn().mockResolvedValue({ score: 0.8, reasons: [] });
+    registerProvider({ ...custom, generate, judge });
+
+    try {
+      const expert: ExpertDispatch = { agentId: 'a', provider: 'custom', model: 'my-local-model', id: '1', name: 'a', persona: '' };
+      const config: CustomAgentConfig = {
+        id: 'a',
+        provider: 'custom',
+        model: 'my-local-model',
+        status: 'PENDING',
+        expert,
+        settings: { temperature: 0.7, topP: 1,
+          generationStrategy: 'deepconf-offline', confidenceSource: 'judge', traceCount: 2, deepConfEta: 90, tau: 0.95, groupWindow: 2048,
+          answerExtractor: { kind: 'full-text' }, voteMode: 'exact', voteSimilarity: 'lexical' },
+      };
+
+      const drafts = await dispatch([expert], 'prompt', [], [config], () => {});
+
+      expect(providerForModel('my-local-model').id).toBe('gemini');
+      expect(judge).toHaveBeenCalledWith('prompt', '42', 'my-local-model', expect.any(AbortSignal));
+      expect(drafts[0]).toMatchObject({ status: 'COMPLETED', content: '42' });
+    } finally {
+      registerProvider(custom);
+    }
+  });
+});
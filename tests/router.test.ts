@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRulesRouter, passThroughRouter, resolveRoute, Router, scoreExpertRules } from '@/moe/router';
+import { normalizeExpert } from '@/lib/loadExperts';
+import { GEMINI_FLASH_MODEL } from '@/constants';
+import type { Expert, GeminiAgentConfig } from '@/types';
+
+const makeConfig = (id: string, routing: Partial<Expert> = {}): GeminiAgentConfig => ({
+  id,
+  expert: { id, name: id, persona: `${id} persona`, ...routing },
+  provider: 'gemini',
+  model: GEMINI_FLASH_MODEL,
+  status: 'PENDING',
+  settings: {
+    effort: 'low',
+    generationStrategy: 'single',
+    confidenceSource: 'judge',
+    traceCount: 1,
+    deepConfEta: 90,
+    tau: 0.95,
+    groupWindow: 2048,
+    answerExtractor: { kind: 'full-text' },
+    voteMode: 'exact',
+    voteSimilarity: 'lexical',
+  },
+});
+
+const input = { prompt: 'prompt', images: [], agentConfigs: [makeConfig('a'), makeConfig('b'), makeConfig('c')] };
+
+describe('resolveRoute', () => {
+  it('selects every agent with the pass-through router', async () => {
+    const decision = await resolveRoute(passThroughRouter, input);
+    expect(decision.selectedAgentIds).toEqual(['a', 'b', 'c']);
+    expect(decision.scores).toEqual({ a: 1, b: 1, c: 1 });
+  });
+
+  it('drops unknown and duplicate agent ids', async () => {
+    const router: Router = {
+      name: 'test',
+      route: async () => ({ selectedAgentIds: ['b', 'missing', 'b'], scores: { b: 0.8 }, reason: 'test' }),
+    };
+    const decision = await resolveRoute(router, input);
+    expect(decision.selectedAgentIds).toEqual(['b']);
+    expect(decision.reason).toBe('test');
+  });
+
+  it('falls back to all agents when nothing is selected', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const router: Router = {
+      name: 'empty',
+      route: async () => ({ selectedAgentIds: [], scores: { a: 0.1 }, reason: 'Nothing matched.' }),
+    };
+    const decision = await resolveRoute(router, input);
+    expect(decision.selectedAgentIds).toEqual(['a', 'b', 'c']);
+    expect(decision.scores.a).toBe(0.1);
+    warn.mockRestore();
+  });
+
+  it('falls back to all agents when the router throws', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const router: Router = {
+      name: 'broken',
+      route: async () => { throw new Error('boom'); },
+    };
+    const decision = await resolveRoute(router, input);
+    expect(decision.selectedAgentIds).toEqual(['a', 'b', 'c']);
+    warn.mockRestore();
+  });
+
+  it('rethrows aborts', async () => {
+    const router: Router = {
+      name: 'aborted',
+      route: async () => { throw Object.assign(new Error('Aborted'), { name: 'AbortError' }); },
+    };
+    await expect(resolveRoute(router, input)).rejects.toThrow('Aborted');
+  });
+});
+
+describe('rules router', () => {
+  const configs = [
+    makeConfig('facts', { keywords: ['fact'], alwaysInclude: true }),
+    makeConfig('code', { keywords: ['api', 'typescript', 'c++'], patterns: ['\\bhow do i build\\b'] }),
+    makeConfig('biz', { keywords: ['market', 'api'], priority: 1 }),
+    makeConfig('poet', { keywords: ['poem'] }),
+  ];
+
+  it('scores whole-word keywords and patterns', () => {
+    expect(scoreExpertRules('How do I build a TypeScript API?', configs[1].expert)).toEqual({
+      score: 4,
+      matches: ['api', 'typescript', '/\\bhow do i build\\b/'],
+    });
+    expect(scoreExpertRules('rapid iteration', configs[1].expert).score).toBe(0);
+    expect(scoreExpertRules('modern C++ tips', configs[1].expert).matches).toEqual(['c++']);
+  });
+
+  it('only applies priority when something matched', () => {
+    expect(scoreExpertRules('an api', configs[2].expert).score).toBe(2);
+    expect(scoreExpertRules('nothing here', configs[2].expert).score).toBe(0);
+  });
+
+  it('selects always-included experts plus the top-k above the minimum score', async () => {
+    const router = createRulesRouter({ topK: 1, minScore: 1 });
+    const decision = await router.route({ prompt: 'How do I build a TypeScript API?', images: [], agentConfigs: configs });
+    expect(decision.selectedAgentIds).toEqual(['facts', 'code']);
+    expect(decision.scores).toEqual({ facts: 0, code: 4, biz: 2, poet: 0 });
+    expect(decision.reason).toContain('facts (always included');
+  });
+
+  it('lets priority lift an expert above an equal keyword match', async () => {
+    const router = createRulesRouter({ topK: 1, minScore: 1 });
+    const decision = await router.route({ prompt: 'api', images: [], agentConfigs: configs.slice(1, 3) });
+    expect(decision.scores).toEqual({ code: 1, biz: 2 });
+    expect(decision.selectedAgentIds).toEqual(['biz']);
+  });
+
+  it('breaks equal scores by priority', async () => {
+    const router = createRulesRouter({ topK: 1, minScore: 1 });
+    const agentConfigs = [
+      makeConfig('broad', { keywords: ['rest', 'api'] }),
+      makeConfig('preferred', { keywords: ['api'], priority: 1 }),
+    ];
+    const decision = await router.route({ prompt: 'rest api', images: [], agentConfigs });
+    expect(decision.scores).toEqual({ broad: 2, preferred: 2 });
+    expect(decision.selectedAgentIds).toEqual(['preferred']);
+  });
+});
+
+describe('normalizeExpert routing fields', () => {
+  it('parses keywords, patterns, priority and alwaysInclude', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const expert = normalizeExpert({
+      id: 'x',
+      name: 'X',
+      persona: 'p',
+      keywords: 'alpha, beta ,',
+      patterns: ['ok', '(unclosed'],
+      priority: 2,
+      alwaysInclude: true,
+    });
+    expect(expert).toEqual({
+      id: 'x',
+      name: 'X',
+      persona: 'p',
+      keywords: ['alpha', 'beta'],
+      patterns: ['ok'],
+      priority: 2,
+      alwaysInclude: true,
+    });
+    warn.mockRestore();
+  });
+
+  it('omits routing fields that are absent', () => {
+    expect(normalizeExpert({ id: 'x', name: 'X', persona: 'p' })).toEqual({ id: 'x', name: 'X', persona: 'p' });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createScheduler, estimateRequestTokens, releaseWhenDone } from '@/services/scheduler';
+
+const flush = () => new Promise<void>(resolve => queueMicrotask(resolve));
+
+describe('createScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues requests beyond the provider concurrency limit', async () => {
+    const scheduler = createScheduler({ providers: { openai: { maxConcurrency: 1 } }, models: {} });
+    const target = { provider: 'openai' as const, model: 'gpt-5' };
+    const events: string[] = [];
+
+    const first = await scheduler.acquire(target, { onStart: () => events.push('first:start') });
+    const secondPromise = scheduler.acquire(target, {
+      onQueued: () => events.push('second:queued'),
+      onStart: () => events.push('second:start'),
+    });
+    await flush();
+    expect(events).toEqual(['first:start', 'second:queued']);
+
+    first();
+    const second = await secondPromise;
+    expect(events).toEqual(['first:start', 'second:queued', 'second:start']);
+    second();
+  });
+
+  it('does not block other providers or models', async () => {
+    const scheduler = createScheduler({
+      providers: { openai: { maxConcurrency: 1 } },
+      models: { 'gpt-5': { maxConcurrency: 1 } },
+    });
+    await scheduler.acquire({ provider: 'openai', model: 'gpt-5' });
+
+    const onQueued = vi.fn();
+    const gemini = await scheduler.acquire({ provider: 'gemini', model: 'gemini-2.5-flash' }, { onQueued });
+    expect(onQueued).not.toHaveBeenCalled();
+    gemini();
+  });
+
+  it('enforces requests per minute with a token bucket', async () => {
+    const scheduler = createScheduler({ providers: { gemini: { requestsPerMinute: 2 } }, models: {} });
+    const target = { provider: 'gemini' as const, model: 'gemini-2.5-flash' };
+
+    (await scheduler.acquire(target))();
+    (await scheduler.acquire(target))();
+
+    let started = false;
+    const third = scheduler.acquire(target).then(release => {
+      started = true;
+      release();
+    });
+    await flush();
+    expect(started).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await third;
+    expect(started).toBe(true);
+  });
+
+  it('enforces tokens per minute per model', async () => {
+    const scheduler = createScheduler({ providers: {}, models: { 'gpt-5': { tokensPerMinute: 1000 } } });
+    const target = { provider: 'openai' as const, model: 'gpt-5' };
+
+    (await scheduler.acquire(target, { tokens: 800 }))();
+
+    const onQueued = vi.fn();
+    const next = scheduler.acquire(target, { tokens: 500, onQueued });
+    await flush();
+    expect(onQueued).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(18_000);
+    (await next)();
+  });
+
+  it('rejects and dequeues a queued request when aborted', async () => {
+    const scheduler = createScheduler({ providers: { openai: { maxConcurrency: 1 } }, models: {} });
+    const target = { provider: 'openai' as const, model: 'gpt-5' };
+    const first = await scheduler.acquire(target);
+
+    const controller = new AbortController();
+    const aborted = scheduler.acquire(target, { abortSignal: controller.signal });
+    const waiting = scheduler.acquire(target);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    first();
+    (await waiting)();
+  });
+
+  it('applies new limits when reconfigured', async () => {
+    const scheduler = createScheduler({ providers: { openai: { maxConcurrency: 1 } }, models: {} });
+    const target = { provider: 'openai' as const, model: 'gpt-5' };
+    await scheduler.acquire(target);
+
+    const queued = scheduler.acquire(target);
+    scheduler.configure({ providers: { openai: { maxConcurrency: 2 } }, models: {} });
+    (await queued)();
+    expect(scheduler.getConfig().providers.openai?.maxConcurrency).toBe(2);
+  });
+
+  it('holds a slot until a wrapped stream is consumed', async () => {
+    const scheduler = createScheduler({ providers: { openai: { maxConcurrency: 1 } }, models: {} });
+    const target = { provider: 'openai' as const, model: 'gpt-5' };
+    const release = await scheduler.acquire(target);
+
+    async function* source() {
+      yield 'a';
+      yield 'b';
+    }
+    const stream = releaseWhenDone(source(), release);
+
+    const onQueued = vi.fn();
+    const next = scheduler.acquire(target, { onQueued });
+    await flush();
+    expect(onQueued).toHaveBeenCalled();
+
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    expect(chunks).toEqual(['a', 'b']);
+    (await next)();
+  });
+});
+
+describe('estimateRequestTokens', () => {
+  it('counts roughly four characters per token plus an output allowance', () => {
+    expect(estimateRequestTokens('a'.repeat(400), 'b'.repeat(400))).toBe(200 + 1024);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cosineSimilarity, createSemanticRouter, EmbedFn, hashText } from '@/moe/semanticRouter';
+import { GEMINI_FLASH_MODEL } from '@/constants';
+import type { Expert, GeminiAgentConfig } from '@/types';
+
+const VOCAB = ['code', 'software', 'story', 'narrative', 'market', 'business'];
+
+// Bag-of-words embedding over a tiny vocabulary; deterministic and offline.
+const localEmbed: EmbedFn = async (texts) =>
+  texts.map(text => VOCAB.map(word => (text.toLowerCase().includes(word) ? 1 : 0)));
+
+const makeConfig = (id: string, persona: string, extra: Partial<Expert> = {}): GeminiAgentConfig => ({
+  id,
+  expert: { id, name: id, persona, ...extra },
+  provider: 'gemini',
+  model: GEMINI_FLASH_MODEL,
+  status: 'PENDING',
+  settings: {
+    effort: 'low',
+    generationStrategy: 'single',
+    confidenceSource: 'judge',
+    traceCount: 1,
+    deepConfEta: 90,
+    tau: 0.95,
+    groupWindow: 2048,
+    answerExtractor: { kind: 'full-text' },
+    voteMode: 'exact',
+    voteSimilarity: 'lexical',
+  },
+});
+
+const configs = [
+  makeConfig('facts', 'A fact checker.', { alwaysInclude: true }),
+  makeConfig('architect', 'You write software and code.'),
+  makeConfig('storyteller', 'You tell a story with narrative flair.'),
+  makeConfig('consultant', 'You advise on business and market strategy.'),
+];
+
+describe('semantic router', () => {
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+
+  it('hashes text deterministically', () => {
+    expect(hashText('persona')).toBe(hashText('persona'));
+    expect(hashText('persona')).not.toBe(hashText('persona!'));
+  });
+
+  it('selects the most similar personas plus always-included experts', async () => {
+    const router = createSemanticRouter({ embed: localEmbed, embedderId: 'local', topK: 1, minSimilarity: 0.1, cache: new Map() });
+    const decision = await router.route({ prompt: 'Review my software code', images: [], agentConfigs: configs });
+    expect(decision.selectedAgentIds).toEqual(['facts', 'architect']);
+    expect(decision.scores.architect).toBeCloseTo(1);
+    expect(decision.scores.storyteller).toBe(0);
+  });
+
+  it('caches persona embeddings between runs', async () => {
+    const embed = vi.fn(localEmbed);
+    const cache = new Map<string, number[]>();
+    const router = createSemanticRouter({ embed, embedderId: 'local', cache });
+
+    await router.route({ prompt: 'a story', images: [], agentConfigs: configs });
+    expect(embed).toHaveBeenLastCalledWith(['a story', ...configs.map(c => c.expert.persona)], undefined);
+    expect(cache.size).toBe(configs.length);
+
+    await router.route({ prompt: 'a market', images: [], agentConfigs: configs });
+    expect(embed).toHaveBeenLastCalledWith(['a market'], undefined);
+  });
+
+  it('keeps caches separate per embedder', async () => {
+    const embed = vi.fn(localEmbed);
+    const cache = new Map<string, number[]>();
+    await createSemanticRouter({ embed, embedderId: 'a', cache }).route({ prompt: 'p', images: [], agentConfigs: configs.slice(0, 1) });
+    await createSemanticRouter({ embed, embedderId: 'b', cache }).route({ prompt: 'p', images: [], agentConfigs: configs.slice(0, 1) });
+    expect(embed).toHaveBeenLastCalledWith(['p', configs[0].expert.persona], undefined);
+    expect(cache.size).toBe(2);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { migrateAgentConfig } from '@/lib/sessionMigration';
-import { OPENAI_AGENT_MODEL, OPENAI_GPT5_MINI_MODEL } from '@/constants';
-import type { SavedAgentConfig, Expert, OpenAIAgentConfig } from '@/types';
+import { ANTHROPIC_HAIKU_MODEL, ANTHROPIC_SONNET_MODEL, OPENAI_AGENT_MODEL, OPENAI_GPT5_MINI_MODEL } from '@/constants';
+import type { SavedAgentConfig, Expert, OpenAIAgentConfig, CustomAgentConfig, AnthropicAgentConfig } from '@/types';
 
 describe('migrateAgentConfig', () => {
   const expertList: Expert[] = [{ id: 'test', name: 'Test', persona: '' }];
@@ -70,6 +70,56 @@ describe('migrateAgentConfig', () => {
     expect(result?.model).toBe(OPENAI_AGENT_MODEL);
   });
 
+  it('keeps custom endpoint models and fills missing sampling settings', () => {
+    const saved = {
+      expertId: 'test',
+      provider: 'custom',
+      model: 'llama-3.1-8b-instruct',
+      settings: { temperature: 0.2 },
+    } as unknown as SavedAgentConfig;
+
+    const result = migrateAgentConfig(saved, expertList) as CustomAgentConfig | null;
+    expect(result).not.toBeNull();
+    expect(result?.model).toBe('llama-3.1-8b-instruct');
+    expect(result?.settings).toMatchObject({ temperature: 0.2, topP: 1, maxTokens: undefined, generationStrategy: 'single', confidenceSource: 'judge' });
+  });
+
+  it('skips custom configs without a model', () => {
+    const saved = {
+      expertId: 'test',
+      provider: 'custom',
+      settings: {},
+    } as unknown as SavedAgentConfig;
+
+    expect(migrateAgentConfig(saved, expertList)).toBeNull();
+  });
+
+  it('migrates Anthropic configs and drops thinking budgets below the minimum', () => {
+    const saved = {
+      expertId: 'test',
+      provider: 'anthropic',
+      model: ANTHROPIC_HAIKU_MODEL,
+      settings: { thinkingBudget: 500 },
+    } as unknown as SavedAgentConfig;
+
+    const result = migrateAgentConfig(saved, expertList) as AnthropicAgentConfig | null;
+    expect(result?.model).toBe(ANTHROPIC_HAIKU_MODEL);
+    expect(result?.settings).toEqual({ thinkingBudget: 0, maxTokens: 8192, temperature: 1 });
+  });
+
+  it('defaults unknown Anthropic models to Sonnet', () => {
+    const saved = {
+      expertId: 'test',
+      provider: 'anthropic',
+      model: 'claude-2',
+      settings: { thinkingBudget: 4096, maxTokens: 2048 },
+    } as unknown as SavedAgentConfig;
+
+    const result = migrateAgentConfig(saved, expertList) as AnthropicAgentConfig | null;
+    expect(result?.model).toBe(ANTHROPIC_SONNET_MODEL);
+    expect(result?.settings.thinkingBudget).toBe(4096);
+  });
+
   it('skips configs with unknown provider', () => {
     const saved = {
       expertId: 'test',
@@ -102,4 +152,29 @@ describe('migrateAgentConfig', () => {
     const result = migrateAgentConfig(saved, expertList);
     expect(result).toBeNull();
   });
+
+  it('keeps a valid answer extractor and defaults older or invalid ones to full text', () => {
+    const saved = (answerExtractor?: unknown) => ({
+      expertId: 'test',
+      provider: 'openai',
+      model: OPENAI_AGENT_MODEL,
+      settings: { generationStrategy: 'deepconf-offline', ...(answerExtractor !== undefined && { answerExtractor }) },
+    }) as unknown as SavedAgentConfig;
+
+    const migrated = (answerExtractor?: unknown) =>
+      (migrateAgentConfig(saved(answerExtractor), expertList) as OpenAIAgentConfig).settings.answerExtractor;
+
+    expect(migrated({ kind: 'regex', pattern: 'Answer: (\\d+)' })).toEqual({ kind: 'regex', pattern: 'Answer: (\\d+)' });
+    expect(migrated()).toEqual({ kind: 'full-text' });
+    expect(migrated({ kind: 'sentiment' })).toEqual({ kind: 'full-text' });
+  });
+
+  it('keeps semantic vote settings and defaults older configs to exact voting', () => {
+    const saved = (settings: object) => ({ expertId: 'test', provider: 'openai', model: OPENAI_AGENT_MODEL, settings }) as unknown as SavedAgentConfig;
+    const settings = (config: SavedAgentConfig) => (migrateAgentConfig(config, expertList) as OpenAIAgentConfig).settings;
+
+    expect(settings(saved({ voteMode: 'semantic', voteSimilarity: 'openai' }))).toMatchObject({ voteMode: 'semantic', voteSimilarity: 'openai' });
+    expect(settings(saved({}))).toMatchObject({ voteMode: 'exact', voteSimilarity: 'lexical' });
+    expect(settings(saved({ voteMode: 'fuzzy', voteSimilarity: 'cohere' }))).toMatchObject({ voteMode: 'exact', voteSimilarity: 'lexical' });
+  });
 });
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseStructuredReply, resolveStructuredOutput, validateJsonSchema } from '@/moe/structuredOutput';
+
+const custom = (customSchema: string) => resolveStructuredOutput({ enabled: true, presetId: 'custom', customSchema });
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      count: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { enum: ['a', 'b'] } },
+    },
+    required: ['name', 'count'],
+    additionalProperties: false,
+  };
+
+  it('accepts a matching value', () => {
+    expect(validateJsonSchema(schema, { name: 'x', count: 2, tags: ['a'] })).toEqual([]);
+  });
+
+  it('reports every violation with its path', () => {
+    expect(validateJsonSchema(schema, { name: '', count: 1.5, tags: ['c'], extra: true })).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.count: expected integer, got number',
+      '$.tags[0]: must be one of "a", "b"',
+      '$.extra: is not allowed',
+    ]);
+    expect(validateJsonSchema(schema, [])).toEqual(['$: expected object, got array']);
+  });
+});
+
+describe('resolveStructuredOutput', () => {
+  it('returns null for free-text output', () => {
+    expect(resolveStructuredOutput({ enabled: false, presetId: 'custom', customSchema: 'not json' })).toBeNull();
+  });
+
+  it('converts presets to JSON Schema without the $schema keyword', () => {
+    const output = resolveStructuredOutput({ enabled: true, presetId: 'entity-list', customSchema: '' })!;
+
+    expect(output.name).toBe('entity-list');
+    expect(output.schema).not.toHaveProperty('$schema');
+    expect(output.schema).toMatchObject({ type: 'object', required: ['entities'] });
+    expect(output.validate({ entities: [{ name: 'Paris' }] })).toEqual([
+      '$.entities.0.type: Invalid input: expected string, received undefined',
+      '$.entities.0.description: Invalid input: expected string, received undefined',
+    ]);
+  });
+
+  it('rejects custom schemas that are not JSON objects', () => {
+    expect(() => custom('{')).toThrow('not valid JSON');
+    expect(() => custom('[]')).toThrow('must be a JSON object');
+  });
+});
+
+describe('parseStructuredReply', () => {
+  const output = custom('{"type": "object", "required": ["answer"]}')!;
+
+  it('extracts JSON from fences and surrounding prose', () => {
+    expect(parseStructuredReply('Sure:\n```json\n{"answer": 1}\n```', output)).toEqual({ success: true, value: { answer: 1 } });
+    expect(parseStructuredReply('Here it is {"answer": 2} done.', output)).toEqual({ success: true, value: { answer: 2 } });
+  });
+
+  it('returns validation errors for malformed or non-matching replies', () => {
+    expect(parseStructuredReply('no json here', output)).toEqual({ success: false, errors: ['The reply contains no JSON.'] });
+    expect(parseStructuredReply('{"other": 1}', output)).toEqual({ success: false, errors: ['$.answer: is required'] });
+  });
+});
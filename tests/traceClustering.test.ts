@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createEmbeddingClusterer, createLexicalClusterer } from '@/moe/traceClustering';
+
+vi.mock('@/services/llmService', () => ({
+  embedTexts: vi.fn(),
+}));
+
+describe('createLexicalClusterer', () => {
+  it('keys paraphrases by the first answer of their cluster', async () => {
+    const cluster = createLexicalClusterer();
+    const keys = await cluster([
+      'Paris is the capital of France.',
+      'The capital of France is Paris',
+      'Lyon is the largest city in France by area.',
+    ]);
+    expect(keys).toEqual([
+      'Paris is the capital of France.',
+      'Paris is the capital of France.',
+      'Lyon is the largest city in France by area.',
+    ]);
+  });
+});
+
+describe('createEmbeddingClusterer', () => {
+  const vectors: Record<string, number[]> = { a: [1, 0], b: [0.99, 0.05], c: [0, 1] };
+
+  it('clusters by cosine similarity and embeds each answer once', async () => {
+    const embed = vi.fn(async (texts: string[]) => texts.map(t => vectors[t]));
+    const cluster = createEmbeddingClusterer(embed);
+
+    expect(await cluster(['a', 'b', 'c'])).toEqual(['a', 'a', 'c']);
+    expect(await cluster(['a', 'b', 'c', 'c'])).toEqual(['a', 'a', 'c', 'c']);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed).toHaveBeenCalledWith(['a', 'b', 'c'], undefined);
+  });
+
+  it('falls back to word overlap when embedding fails', async () => {
+    const embed = vi.fn().mockRejectedValue(new Error('Gemini API key not set'));
+    const cluster = createEmbeddingClusterer(embed);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await cluster(['forty two', 'forty two!', 'seven'])).toEqual(['forty two', 'forty two', 'seven']);
+    await cluster(['seven']);
+    expect(embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows cancellations', async () => {
+    const embed = vi.fn().mockRejectedValue(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+    await expect(createEmbeddingClusterer(embed)(['a'])).rejects.toThrow('aborted');
+  });
+});
@@ -4,16 +4,24 @@ import {
     OPENAI_AGENT_MODEL,
     OPENAI_GPT5_MINI_MODEL,
     OPENAI_ARBITER_MODEL,
+    ANTHROPIC_SONNET_MODEL,
+    ANTHROPIC_OPUS_MODEL,
+    ANTHROPIC_HAIKU_MODEL,
 } from './constants';
 import { z } from 'zod';
 
-export type ApiProvider = 'gemini' | 'openai' | 'openrouter';
+export type ApiProvider = 'gemini' | 'openai' | 'openrouter' | 'custom' | 'anthropic';
 export type AgentStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'QUEUED';
 
 export interface Expert {
   id: string;
   name: string;
   persona: string;
+  /** Routing hints used by the rules router; all optional. */
+  keywords?: string[];
+  patterns?: string[];
+  priority?: number;
+  alwaysInclude?: boolean;
 }
 
 export interface AgentState {
@@ -25,6 +33,20 @@ export interface AgentState {
   error: string | null;
   model: string;
   provider: ApiProvider;
+  /** Drafts from earlier debate rounds, oldest first; `content` holds the latest round. */
+  rounds?: string[];
+  /** Set for DeepConf agents: how their traces voted. */
+  vote?: DeepConfVote;
+}
+
+/** The outcome of a DeepConf vote over an agent's traces. */
+export interface DeepConfVote {
+  /** The winning extracted answer. */
+  answer: string;
+  /** Traces per extracted answer, most votes first; early-stopped traces are not counted. */
+  tally: { answer: string; count: number }[];
+  /** Confidence-weighted vote share of the winner after filtering, 0–1. */
+  consensus: number;
 }
 
 export interface ImageState {
@@ -37,19 +59,42 @@ export interface ImageState {
 export type GeminiModel = typeof GEMINI_FLASH_MODEL | typeof GEMINI_PRO_MODEL;
 export type OpenAIModel = typeof OPENAI_AGENT_MODEL | typeof OPENAI_GPT5_MINI_MODEL;
 export type OpenRouterModel = string; // e.g., "openai/gpt-4o"
-export type AgentModel = GeminiModel | OpenAIModel | OpenRouterModel;
+export type AnthropicModel = typeof ANTHROPIC_SONNET_MODEL | typeof ANTHROPIC_OPUS_MODEL | typeof ANTHROPIC_HAIKU_MODEL;
+/** Any id listed by the custom endpoint's `/models`, e.g. "llama3.1:8b". */
+export type CustomModel = string;
+export type AgentModel = GeminiModel | OpenAIModel | OpenRouterModel | CustomModel | AnthropicModel;
 
 export type GeminiThinkingEffort = 'dynamic' | 'high' | 'medium' | 'low' | 'none';
 export type GenerationStrategy = 'single' | 'deepconf-offline' | 'deepconf-online';
+/** How DeepConf scores traces: token logprobs where the provider returns them, otherwise an LLM judge. */
+export type ConfidenceSource = 'logprobs' | 'judge';
+export type AnswerExtractorKind = 'full-text' | 'numeric' | 'last-line' | 'boxed' | 'regex' | 'code-block' | 'multiple-choice' | 'json-path';
+
+/** 'exact' counts identical answers together; 'semantic' also merges answers that are similar enough. */
+export type VoteMode = 'exact' | 'semantic';
+/** How semantic voting compares answers: local word overlap or an embedding provider. */
+export type VoteSimilarity = 'lexical' | EmbeddingProvider;
+
+/** Reduces a DeepConf trace to the answer it votes for, so differently worded traces can agree. */
+export interface AnswerExtractor {
+    kind: AnswerExtractorKind;
+    /** For 'regex': the first capture group of the last match is the answer, or the whole match without groups. */
+    pattern?: string;
+    /** For 'json-path': a dot path such as "result.answer" or "items[0].id"; empty selects the whole document. */
+    path?: string;
+}
 
 export interface GeminiAgentSettings {
     effort: GeminiThinkingEffort;
     generationStrategy: GenerationStrategy;
-    confidenceSource: 'judge';
+    confidenceSource: ConfidenceSource;
     traceCount: number;
     deepConfEta: 10 | 90;
     tau: number;
     groupWindow: number;
+    answerExtractor: AnswerExtractor;
+    voteMode: VoteMode;
+    voteSimilarity: VoteSimilarity;
     timeoutMs?: number;
 }
 
@@ -57,11 +102,14 @@ export interface OpenAIAgentSettings {
     effort: 'medium' | 'high';
     verbosity: 'low' | 'medium' | 'high';
     generationStrategy: GenerationStrategy;
-    confidenceSource: 'judge';
+    confidenceSource: ConfidenceSource;
     traceCount: number;
     deepConfEta: 10 | 90;
     tau: number;
     groupWindow: number;
+    answerExtractor: AnswerExtractor;
+    voteMode: VoteMode;
+    voteSimilarity: VoteSimilarity;
 }
 
 export interface OpenRouterAgentSettings {
@@ -72,17 +120,71 @@ export interface OpenRouterAgentSettings {
     presencePenalty: number;
     repetitionPenalty: number;
     maxTokens?: number;
+    generationStrategy: GenerationStrategy;
+    confidenceSource: ConfidenceSource;
+    traceCount: number;
+    deepConfEta: 10 | 90;
+    tau: number;
+    groupWindow: number;
+    answerExtractor: AnswerExtractor;
+    voteMode: VoteMode;
+    voteSimilarity: VoteSimilarity;
 }
 
+export interface AnthropicAgentSettings {
+    /** Extended thinking budget in tokens; 0 disables thinking. */
+    thinkingBudget: number;
+    /** Tokens for the answer itself; the thinking budget is requested on top. */
+    maxTokens: number;
+    /** Ignored while thinking is on; the API only accepts the default then. */
+    temperature: number;
+}
+
+/** Sampling and DeepConf settings for agents on the custom OpenAI-compatible endpoint. */
+export interface CustomAgentSettings {
+    temperature: number;
+    topP: number;
+    maxTokens?: number;
+    generationStrategy: GenerationStrategy;
+    confidenceSource: ConfidenceSource;
+    traceCount: number;
+    deepConfEta: 10 | 90;
+    tau: number;
+    groupWindow: number;
+    answerExtractor: AnswerExtractor;
+    voteMode: VoteMode;
+    voteSimilarity: VoteSimilarity;
+}
+
+/** An OpenAI-compatible server (llama.cpp, vLLM, Ollama, LM Studio) shared by all custom agents. */
+export interface CustomEndpointSettings {
+    /** Base URL including the API version, e.g. "http://localhost:11434/v1". */
+    baseUrl: string;
+    /** Sent as a bearer token when set; most local servers need none. */
+    apiKey: string;
+}
+
+export const CustomEndpointSettingsSchema = z.object({
+    baseUrl: z.string(),
+    apiKey: z.string(),
+});
+
 const CommonAgentSettingsSchema = z.object({
     generationStrategy: z
         .enum(['single', 'deepconf-offline', 'deepconf-online'])
         .optional(),
-    confidenceSource: z.literal('judge').optional(),
+    confidenceSource: z.enum(['logprobs', 'judge']).optional(),
     traceCount: z.number().optional(),
     deepConfEta: z.union([z.literal(10), z.literal(90)]).optional(),
     tau: z.number().optional(),
     groupWindow: z.number().optional(),
+    answerExtractor: z.object({
+        kind: z.enum(['full-text', 'numeric', 'last-line', 'boxed', 'regex', 'code-block', 'multiple-choice', 'json-path']),
+        pattern: z.string().optional(),
+        path: z.string().optional(),
+    }).strict().optional(),
+    voteMode: z.enum(['exact', 'semantic']).optional(),
+    voteSimilarity: z.enum(['lexical', 'gemini', 'openai']).optional(),
 }).strict();
 
 export const MAX_GEMINI_TIMEOUT_MS = 300000;
@@ -106,7 +208,7 @@ const OpenAIAgentSettingsSchema: z.ZodType<Partial<OpenAIAgentSettings>> =
         verbosity: z.enum(['low', 'medium', 'high']).optional(),
     }).strict();
 
-const OpenRouterAgentSettingsSchema: z.ZodType<Partial<OpenRouterAgentSettings>> = z.object({
+const OpenRouterAgentSettingsSchema: z.ZodType<Partial<OpenRouterAgentSettings>> = CommonAgentSettingsSchema.extend({
     temperature: z.number().optional(),
     topP: z.number().optional(),
     topK: z.number().optional(),
@@ -116,10 +218,31 @@ const OpenRouterAgentSettingsSchema: z.ZodType<Partial<OpenRouterAgentSettings>>
     maxTokens: z.number().optional(),
 }).strict();
 
+const CustomAgentSettingsSchema: z.ZodType<Partial<CustomAgentSettings>> = CommonAgentSettingsSchema.extend({
+    temperature: z.number().optional(),
+    topP: z.number().optional(),
+    maxTokens: z.number().optional(),
+}).strict();
+
+// The API requires at least 1024 thinking tokens when thinking is on.
+export const MIN_ANTHROPIC_THINKING_BUDGET = 1024;
+
+const AnthropicAgentSettingsSchema: z.ZodType<Partial<AnthropicAgentSettings>> = z.object({
+    thinkingBudget: z
+        .number()
+        .int()
+        .refine(v => v === 0 || v >= MIN_ANTHROPIC_THINKING_BUDGET, { message: `Thinking budget must be 0 or at least ${MIN_ANTHROPIC_THINKING_BUDGET} tokens` })
+        .optional(),
+    maxTokens: z.number().int().positive().optional(),
+    temperature: z.number().min(0).max(1).optional(),
+}).strict();
+
 const ProviderSettingsSchemaMap: Record<ApiProvider, z.ZodTypeAny> = {
     gemini: GeminiAgentSettingsSchema,
     openai: OpenAIAgentSettingsSchema,
     openrouter: OpenRouterAgentSettingsSchema,
+    custom: CustomAgentSettingsSchema,
+    anthropic: AnthropicAgentSettingsSchema,
 };
 
 export type SavedAgentSettings = Record<string, unknown>;
@@ -153,14 +276,122 @@ export interface OpenRouterAgentConfig extends BaseAgentConfig {
     settings: OpenRouterAgentSettings;
 }
 
-export type AgentConfig = GeminiAgentConfig | OpenAIAgentConfig | OpenRouterAgentConfig;
+export interface CustomAgentConfig extends BaseAgentConfig {
+    provider: 'custom';
+    model: CustomModel;
+    settings: CustomAgentSettings;
+}
+
+export interface AnthropicAgentConfig extends BaseAgentConfig {
+    provider: 'anthropic';
+    model: AnthropicModel;
+    settings: AnthropicAgentSettings;
+}
+
+export type AgentConfig = GeminiAgentConfig | OpenAIAgentConfig | OpenRouterAgentConfig | CustomAgentConfig | AnthropicAgentConfig;
+
+export type RouterMode = 'all' | 'rules' | 'semantic';
+export type EmbeddingProvider = 'gemini' | 'openai';
+
+export interface RouterSettings {
+    mode: RouterMode;
+    topK: number;
+    /** Minimum keyword/pattern score for the rules router. */
+    minScore: number;
+    /** Minimum cosine similarity for the semantic router. */
+    minSimilarity: number;
+    embeddingProvider: EmbeddingProvider;
+}
+
+export const RouterSettingsSchema = z.object({
+    mode: z.enum(['all', 'rules', 'semantic']),
+    topK: z.number().int().min(1),
+    minScore: z.number().min(0),
+    minSimilarity: z.number().min(-1).max(1).optional(),
+    embeddingProvider: z.enum(['gemini', 'openai']).optional(),
+});
+
+/** `parallel` arbitrates first-round drafts; `debate` first has agents critique and revise each other's drafts. */
+export type OrchestrationStrategy = 'parallel' | 'debate';
+
+export interface DebateSettings {
+    strategy: OrchestrationStrategy;
+    /** Critique-and-revise rounds after the first drafts; only used by `debate`. */
+    rounds: number;
+}
+
+export const DebateSettingsSchema = z.object({
+    strategy: z.enum(['parallel', 'debate']),
+    rounds: z.number().int().min(1),
+});
+
+export interface VerifierSettings {
+    enabled: boolean;
+    /** Judge score (0-1) at or above which the answer is accepted. */
+    threshold: number;
+    /** Most revisions requested from the arbiter before the latest one is kept. */
+    maxIterations: number;
+}
+
+export const VerifierSettingsSchema = z.object({
+    enabled: z.boolean(),
+    threshold: z.number().min(0).max(1),
+    maxIterations: z.number().int().min(1),
+});
+
+/** One verifier check: the answer that was judged and the judge's verdict. */
+export interface VerifierPass {
+    answer: string;
+    score: number;
+    reasons: string[];
+}
+
+/** JSON output for agents and arbiter; see `moe/structuredOutput.ts`. */
+export interface StructuredOutputSettings {
+    enabled: boolean;
+    /** A preset id, or `custom` to use `customSchema`. */
+    presetId: string;
+    /** JSON Schema text used when `presetId` is `custom`. */
+    customSchema: string;
+}
+
+export const StructuredOutputSettingsSchema = z.object({
+    enabled: z.boolean(),
+    presetId: z.string(),
+    customSchema: z.string(),
+});
+
+/** Persona and user prompt the arbiter synthesizes with. See `moe/arbiterTemplates.ts` for placeholders. */
+export interface ArbiterTemplate {
+    id: string;
+    name: string;
+    persona: string;
+    /** Appended to the persona for OpenAI models at high reasoning effort. */
+    highEffortModifier: string;
+    userPrompt: string;
+}
+
+export const ArbiterTemplateSchema = z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    persona: z.string(),
+    highEffortModifier: z.string(),
+    userPrompt: z.string(),
+});
 
 // Types for session management
+/** How the arbiter turns drafts into the final answer. `synthesize` and `attributed` rewrite; the others return a draft verbatim. */
+export type ArbiterMode = 'synthesize' | 'vote' | 'rerank' | 'select-best' | 'attributed';
+
+/** Maps an attribution marker label (e.g. "A") to the agent ids whose drafts it stands for. */
+export type AttributionSources = Record<string, string[]>;
+
 export type ArbiterModel =
     | typeof GEMINI_PRO_MODEL
     | typeof GEMINI_FLASH_MODEL
     | typeof OPENAI_ARBITER_MODEL
     | typeof OPENAI_GPT5_MINI_MODEL
+    | AnthropicModel
     | string;
 export type OpenAIVerbosity = 'low' | 'medium' | 'high';
 export type OpenAIReasoningEffort = 'medium' | 'high';
@@ -168,7 +399,7 @@ export type OpenAIReasoningEffort = 'medium' | 'high';
 const SavedAgentConfigSchemaBase = z.object({
     expertId: z.string().optional(),
     model: z.string().optional(),
-    provider: z.enum(['gemini', 'openai', 'openrouter']).optional(),
+    provider: z.enum(['gemini', 'openai', 'openrouter', 'custom', 'anthropic']).optional(),
     settings: SavedAgentSettingsSchema.optional(),
 });
 
@@ -204,15 +435,54 @@ export interface SessionData {
     openAIArbiterVerbosity: OpenAIVerbosity;
     openAIArbiterEffort: OpenAIReasoningEffort;
     geminiArbiterEffort: GeminiThinkingEffort;
+    arbiterMode: ArbiterMode;
+    arbiterTemplates: ArbiterTemplate[];
+    arbiterTemplateId: string;
+    arbiterFallbackModels: ArbiterModel[];
+    sendImagesToArbiter: boolean;
+    reportControversies: boolean;
+    routerSettings: RouterSettings;
+    debateSettings: DebateSettings;
+    verifierSettings: VerifierSettings;
+    structuredOutputSettings: StructuredOutputSettings;
     openAIApiKey: string;
     geminiApiKey: string;
     openRouterApiKey: string;
+    anthropicApiKey: string;
+    customEndpoint: CustomEndpointSettings;
     queryHistory: string[];
 }
 
+/** A point the drafts contradicted each other on, as reported by the arbiter. */
+export interface Controversy {
+  topic: string;
+  positions: { stance: string; agentIds: string[] }[];
+  /** How the final answer settled the disagreement. */
+  resolution: string;
+}
+
 // Type for history feature
 export type RunStatus = 'COMPLETED' | 'FAILED' | 'IN_PROGRESS';
 
+/** Arbiter settings that can vary between revisions of the same run. */
+export type ArbiterSettingsSnapshot = Pick<RunRecord, 'arbiterModel' | 'openAIArbiterVerbosity' | 'openAIArbiterEffort' | 'geminiArbiterEffort' | 'arbiterMode' | 'arbiterTemplate' | 'arbiterFallbackModels' | 'sendImagesToArbiter' | 'reportControversies'>;
+
+/** A re-arbitration of a run's stored drafts, kept alongside the original answer. */
+export interface ArbiterRevision extends ArbiterSettingsSnapshot {
+  id: string;
+  timestamp: number;
+  finalAnswer: string;
+  arbiterSwitchWarning: string | null;
+  /** Set when the answer was produced in `attributed` mode. */
+  attributionSources?: AttributionSources | null;
+  /** Disagreements between the drafts; null when the report was unavailable. */
+  controversies?: Controversy[] | null;
+  /** Verifier checks of the answer, first check first; the last one judged `finalAnswer`. */
+  verification?: VerifierPass[] | null;
+  status: RunStatus;
+  error: string | null;
+}
+
 export interface RunRecord {
   id: string;
   timestamp: number;
@@ -223,8 +493,30 @@ export interface RunRecord {
   openAIArbiterVerbosity: OpenAIVerbosity;
   openAIArbiterEffort: OpenAIReasoningEffort;
   geminiArbiterEffort: GeminiThinkingEffort;
+  arbiterMode: ArbiterMode;
+  /** Used by the `synthesize` and `attributed` modes. */
+  arbiterTemplate: ArbiterTemplate;
+  /** Tried in order when `arbiterModel` fails before its answer starts streaming. */
+  arbiterFallbackModels: ArbiterModel[];
+  /** Whether vision-capable arbiters see `images` alongside the drafts; unset on runs from before the setting, which sent them. */
+  sendImagesToArbiter?: boolean;
+  /** Whether the arbiter reports disagreements between the drafts; unset on runs from before the setting. */
+  reportControversies?: boolean;
+  routerSettings: RouterSettings;
+  debateSettings: DebateSettings;
+  verifierSettings: VerifierSettings;
+  structuredOutputSettings: StructuredOutputSettings;
+  routingReason: string | null;
   finalAnswer: string;
   agents: AgentState[];
   status: RunStatus;
   arbiterSwitchWarning: string | null;
+  /** Set when the answer was produced in `attributed` mode. */
+  attributionSources?: AttributionSources | null;
+  /** Disagreements between the drafts; null when the report was unavailable. */
+  controversies?: Controversy[] | null;
+  /** Verifier checks of the answer, first check first; the last one judged `finalAnswer`. */
+  verification?: VerifierPass[] | null;
+  /** Re-arbitrations of `agents`, oldest first. The original answer stays in `finalAnswer`. */
+  revisions?: ArbiterRevision[];
 }